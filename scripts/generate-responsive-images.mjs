@@ -0,0 +1,144 @@
+/**
+ * Generate AVIF/WebP variants and blur-up placeholders for the local artwork in public/Image and public/PanelImages
+ * Runs before every build (npm "prebuild"); run "npm run images" to get them for "ng serve"
+ *
+ * Each source is written to public/responsive/<source path>/<width>.<format>, e.g. responsive/Image/Anya.jpg/640.webp
+ * and listed in public/responsive/manifest.json. Keep the layout in step with variantUrl() in
+ * src/app/services/responsive-image.service.ts
+ *
+ * Variants are reused while their source's content hash (kept in public/responsive/sources.json) is unchanged,
+ * so only new or edited images are encoded again. File times can't be used for this: every fresh clone
+ * makes the sources look newer than anything restored from a build cache
+ *
+ * On Netlify the variants are restored from and saved back to NETLIFY_CACHE_DIR, so a build only
+ * encodes what changed since the last deploy instead of every image on every clone
+ */
+import { createHash } from 'node:crypto';
+import { cp, mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import sharp from 'sharp';
+
+const MANIFEST_VERSION = 1;
+const SOURCE_DIRS = ['Image', 'PanelImages'];
+const SOURCE_EXTENSIONS = /\.(jpe?g|png|webp)$/i;
+const WIDTHS = [320, 640, 960, 1280, 1920, 2560];
+const PLACEHOLDER_WIDTH = 24;
+
+/** Encoder settings per output format */
+const FORMATS = {
+  avif: { quality: 50, effort: 4 },
+  webp: { quality: 75 }
+};
+
+const publicDir = new URL('../public/', import.meta.url);
+const outputDir = new URL('responsive/', publicDir);
+const hashesFile = new URL('sources.json', outputDir);
+const cacheDir = process.env.NETLIFY_CACHE_DIR
+  ? new URL('responsive/', pathToFileURL(`${process.env.NETLIFY_CACHE_DIR}/`))
+  : null;
+
+/**
+ * Widths to generate for an image, never upscaling past the original
+ * @param {number} width - Original width in pixels
+ */
+function variantWidths(width) {
+  const largest = Math.min(width, WIDTHS.at(-1));
+  return [...WIDTHS.filter(candidate => candidate < largest), largest];
+}
+
+/**
+ * @param {string | URL} file
+ * @returns {Promise<boolean>} Whether the file exists
+ */
+async function exists(file) {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Source hashes recorded by the previous run
+ * @returns {Promise<Record<string, string>>} Hash by source path; empty when there was no previous run
+ */
+async function readHashes() {
+  try {
+    return JSON.parse(await readFile(hashesFile, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Encode every missing or stale variant of one source image
+ * @param {string} src - Path relative to public/, as used by the app (e.g. "Image/Anya.jpg")
+ * @param {string | undefined} previousHash - Source hash the existing variants were encoded from
+ * @returns {Promise<{ entry: object, hash: string, encoded: number }>} Manifest entry, source hash and how many files were written
+ */
+async function processImage(src, previousHash) {
+  const sourceFile = fileURLToPath(new URL(src, publicDir));
+  const hash = createHash('sha256').update(await readFile(sourceFile)).digest('hex');
+  const { width, height } = await sharp(sourceFile).metadata();
+  const widths = variantWidths(width);
+  const targetDir = new URL(`${src}/`, outputDir);
+  let encoded = 0;
+
+  await mkdir(targetDir, { recursive: true });
+
+  for (const variantWidth of widths) {
+    for (const [format, options] of Object.entries(FORMATS)) {
+      const target = new URL(`${variantWidth}.${format}`, targetDir);
+      if (hash === previousHash && await exists(target)) continue;
+
+      await sharp(sourceFile).resize({ width: variantWidth }).toFormat(format, options).toFile(fileURLToPath(target));
+      encoded++;
+    }
+  }
+
+  const placeholder = await sharp(sourceFile).resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 40 }).toBuffer();
+
+  return {
+    entry: {
+      width,
+      height,
+      widths,
+      formats: Object.keys(FORMATS),
+      placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`
+    },
+    hash,
+    encoded
+  };
+}
+
+const sources = [];
+for (const dir of SOURCE_DIRS) {
+  const files = await readdir(new URL(`${dir}/`, publicDir));
+  sources.push(...files.filter(file => SOURCE_EXTENSIONS.test(file)).sort().map(file => `${dir}/${file}`));
+}
+
+// variants already on disk (e.g. from "npm run images") win over the cached copies
+if (cacheDir && await exists(cacheDir)) {
+  await cp(cacheDir, outputDir, { recursive: true, force: false });
+}
+
+const previousHashes = await readHashes();
+const hashes = {};
+const images = {};
+let encoded = 0;
+for (const src of sources) {
+  const result = await processImage(src, previousHashes[src]);
+  images[src] = result.entry;
+  hashes[src] = result.hash;
+  encoded += result.encoded;
+}
+
+await writeFile(new URL('manifest.json', outputDir), `${JSON.stringify({ version: MANIFEST_VERSION, images }, null, 2)}\n`);
+await writeFile(hashesFile, `${JSON.stringify(hashes, null, 2)}\n`);
+
+if (cacheDir) {
+  await cp(outputDir, cacheDir, { recursive: true });
+}
+
+console.log(`Wrote responsive variants for ${sources.length} images (${encoded} encoded, the rest up to date) to ${fileURLToPath(outputDir)}`);
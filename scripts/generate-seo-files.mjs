@@ -0,0 +1,67 @@
+/**
+ * Generate public/sitemap.xml and public/robots.txt from public/catalog.json
+ * Runs before every build (npm "prebuild"), so new artworks are listed without touching this file
+ *
+ * The site origin comes from SITE_URL, then Netlify's URL, then the production default
+ * Keep the default in step with siteUrl in src/environments/environment.prod.ts
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_SITE_URL = 'https://sebbyashan.netlify.app';
+const GALLERY_PATH = 'gallery';
+
+const publicDir = new URL('../public/', import.meta.url);
+const siteUrl = (process.env.SITE_URL || process.env.URL || DEFAULT_SITE_URL).replace(/\/+$/, '');
+
+/**
+ * @param {string} value
+ */
+function escapeXml(value) {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * @param {{ loc: string, lastmod?: string, priority: string }} entry
+ */
+function urlEntry({ loc, lastmod, priority }) {
+  return [
+    '  <url>',
+    `    <loc>${escapeXml(loc)}</loc>`,
+    ...(lastmod ? [`    <lastmod>${lastmod}</lastmod>`] : []),
+    `    <priority>${priority}</priority>`,
+    '  </url>'
+  ].join('\n');
+}
+
+const catalog = JSON.parse(await readFile(new URL('catalog.json', publicDir), 'utf8'));
+// hidden artworks are unpublished drafts with no page of their own
+const artworks = (Array.isArray(catalog.artworks) ? catalog.artworks : []).filter(artwork => !artwork.hidden);
+const newest = artworks.map(artwork => artwork.createdAt).sort().at(-1);
+
+const sitemap = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  urlEntry({ loc: `${siteUrl}/`, lastmod: newest, priority: '1.0' }),
+  ...artworks.map(artwork => urlEntry({
+    loc: `${siteUrl}/${GALLERY_PATH}/${artwork.id}`,
+    lastmod: artwork.createdAt,
+    priority: '0.8'
+  })),
+  '</urlset>',
+  ''
+].join('\n');
+
+const robots = [
+  'User-agent: *',
+  'Allow: /',
+  'Disallow: /admin',
+  '',
+  `Sitemap: ${siteUrl}/sitemap.xml`,
+  ''
+].join('\n');
+
+await writeFile(new URL('sitemap.xml', publicDir), sitemap);
+await writeFile(new URL('robots.txt', publicDir), robots);
+
+console.log(`Wrote sitemap.xml (${artworks.length + 1} URLs) and robots.txt for ${siteUrl} to ${fileURLToPath(publicDir)}`);
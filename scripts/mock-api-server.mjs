@@ -0,0 +1,196 @@
+/**
+ * File-backed mock API for development ("npm run mock-api")
+ * Serves the in-app mock backend's endpoints (src/app/mock-backend) on http://localhost:3000/api, the apiUrl
+ * in src/environments/environment.ts, but keeps the admin content in mock-api/content.json and uploaded
+ * images in public/uploads, so edits survive restarts and show up on the public site as real files
+ *
+ * Set useMockBackend to false in environment.ts so "ng serve" talks to this server instead of the in-app mock
+ * Delete mock-api/content.json to reseed it from public/catalog.json and src/app/data/services.ts
+ * Analytics batches posted to /api/analytics are appended to mock-api/analytics.json
+ *
+ * The mock routes are bundled from the app's TypeScript on start, so both mocks answer exactly alike
+ */
+import '@angular/compiler';
+import { HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+import { filter, firstValueFrom, from, map } from 'rxjs';
+import sharp from 'sharp';
+
+const PORT = Number(process.env.PORT) || 3000;
+const API_PREFIX = '/api';
+
+const rootDir = new URL('../', import.meta.url);
+const publicDir = new URL('public/', rootDir);
+const uploadsDir = new URL('uploads/', publicDir);
+const contentFile = new URL('mock-api/content.json', rootDir);
+const analyticsFile = new URL('mock-api/analytics.json', rootDir);
+const routesBundle = new URL('node_modules/.cache/mock-api/routes.mjs', rootDir);
+
+/**
+ * Bundle the app's mock routes for Node; packages stay external so they share this script's Angular and rxjs
+ */
+async function loadMockRoutes() {
+  const { outputFiles } = await build({
+    stdin: {
+      contents: [
+        "export { findMockRoute } from './mock-backend.interceptor';",
+        "export { useMockContentStore } from './admin.mock';",
+        "export { parseContentBundle } from '../services/content-bundle';"
+      ].join('\n'),
+      resolveDir: fileURLToPath(new URL('src/app/mock-backend/', rootDir)),
+      loader: 'ts'
+    },
+    tsconfig: fileURLToPath(new URL('tsconfig.app.json', rootDir)),
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    packages: 'external',
+    write: false
+  });
+  await mkdir(new URL('.', routesBundle), { recursive: true });
+  await writeFile(routesBundle, outputFiles[0].contents);
+  return import(`${pathToFileURL(fileURLToPath(routesBundle)).href}?t=${Date.now()}`);
+}
+
+const { findMockRoute, useMockContentStore, parseContentBundle } = await loadMockRoutes();
+
+useMockContentStore({
+  read() {
+    let raw;
+    try {
+      raw = readFileSync(contentFile, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+    // a broken file is reported rather than reseeded, so hand edits are never overwritten
+    return parseContentBundle(JSON.parse(raw));
+  },
+  write(bundle) {
+    if (bundle) {
+      mkdirSync(new URL('.', contentFile), { recursive: true });
+      writeFileSync(contentFile, `${JSON.stringify(bundle, null, 2)}\n`);
+    } else {
+      rmSync(contentFile, { force: true });
+    }
+  },
+  async upload(file) {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const { width, height } = await sharp(buffer).metadata();
+    const name = `${Date.now()}-${file.name.toLowerCase().replace(/[^a-z0-9.]+/g, '-')}`;
+    await mkdir(uploadsDir, { recursive: true });
+    await writeFile(new URL(name, uploadsDir), buffer);
+    return { path: `uploads/${name}`, width, height };
+  }
+});
+
+/**
+ * Stand-in for the rest of the interceptor chain: the mock only forwards requests
+ * for the static JSON files it seeds from (e.g. catalog.json), so read them from public/
+ * @param {HttpRequest<unknown>} request
+ */
+function next(request) {
+  return from(readFile(new URL(request.url, publicDir), 'utf8')).pipe(
+    map(text => new HttpResponse({ status: 200, url: request.url, body: JSON.parse(text) }))
+  );
+}
+
+/**
+ * Read a request body the way HttpClient would have sent it: JSON, or FormData for uploads
+ * @param {import('node:http').IncomingMessage} req
+ */
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  if (!chunks.length) return null;
+
+  const body = Buffer.concat(chunks);
+  const type = req.headers['content-type'] ?? '';
+  if (type.startsWith('multipart/form-data')) {
+    return new Response(body, { headers: { 'content-type': type } }).formData();
+  }
+  return JSON.parse(body.toString('utf8'));
+}
+
+/**
+ * File-backed stand-in for the analytics collector, like mockAnalyticsTransport in the app:
+ * every batch is appended to mock-api/analytics.json so payloads can be checked by hand or in tests
+ * Sync I/O keeps concurrent beacons from overwriting each other's batches
+ * @param {unknown} batch
+ */
+function recordAnalytics(batch) {
+  let batches = [];
+  try {
+    batches = JSON.parse(readFileSync(analyticsFile, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  batches.push(batch);
+  mkdirSync(new URL('.', analyticsFile), { recursive: true });
+  writeFileSync(analyticsFile, `${JSON.stringify(batches, null, 2)}\n`);
+}
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ */
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === null || body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  // "ng serve" runs on another port, and admin requests carry an Authorization header
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (req.method === 'POST' && url.pathname === `${API_PREFIX}/analytics`) {
+    try {
+      // beacons send the batch as a JSON string with a text/plain content type
+      recordAnalytics(await readBody(req));
+      res.writeHead(204).end();
+    } catch (error) {
+      send(res, 400, { message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  const found = url.pathname.startsWith(API_PREFIX)
+    ? findMockRoute(req.method, url.pathname.slice(API_PREFIX.length))
+    : null;
+  if (!found) {
+    send(res, 404, { message: `No mock endpoint for ${req.method} ${url.pathname}` });
+    return;
+  }
+
+  try {
+    const headers = new HttpHeaders(Object.fromEntries(Object.entries(req.headers).filter(([, value]) => value !== undefined)));
+    const request = new HttpRequest(req.method, url.href, await readBody(req), { headers });
+    const response = await firstValueFrom(
+      found.route.handle(request, found.match, next).pipe(filter(event => event instanceof HttpResponse))
+    );
+    send(res, response.status, response.body);
+  } catch (error) {
+    if (error instanceof HttpErrorResponse) {
+      send(res, error.status, error.error);
+    } else {
+      console.error(`${req.method} ${url.pathname} failed:`, error);
+      send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock API on http://localhost:${PORT}${API_PREFIX}, content in ${fileURLToPath(contentFile)}`);
+});
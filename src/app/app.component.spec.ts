@@ -1,10 +1,20 @@
-import { TestBed } from '@angular/core/testing';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Location } from '@angular/common';
+import { provideLocationMocks } from '@angular/common/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter, Router } from '@angular/router';
+import { provideServiceWorker } from '@angular/service-worker';
 import { AppComponent } from './app.component';
+import { routes } from './app.routes';
+import { environment } from '../environments/environment';
+import { CONTENT_BUNDLE_VERSION } from './services/content-bundle';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideServiceWorker('ngsw-worker.js', { enabled: false })]
     }).compileComponents();
   });
 
@@ -27,3 +37,111 @@ describe('AppComponent', () => {
     expect(compiled.querySelector('h1')?.textContent).toContain('Hello, angular-app');
   });
 });
+
+describe('AppComponent artwork deep links', () => {
+  const artwork = (id: string) => ({
+    id,
+    title: id,
+    alt: id,
+    description: id,
+    tags: ['backgrounds'],
+    createdAt: '2025-05-02',
+    dimensions: { width: 5000, height: 3000 },
+    sources: { full: `https://example.com/${id}.jpg` }
+  });
+
+  let location: Location;
+  let fixture: ComponentFixture<AppComponent>;
+  let app: AppComponent;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AppComponent],
+      providers: [
+        provideRouter(routes),
+        provideLocationMocks(),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideServiceWorker('ngsw-worker.js', { enabled: false })
+      ]
+    }).compileComponents();
+    location = TestBed.inject(Location);
+  });
+
+  /**
+   * Land on a URL, then render the app with three published artworks
+   */
+  async function start(url: string): Promise<void> {
+    await TestBed.inject(Router).navigateByUrl(url);
+    fixture = TestBed.createComponent(AppComponent);
+    app = fixture.componentInstance;
+    fixture.detectChanges();
+    TestBed.inject(HttpTestingController).expectOne(environment.contentUrl).flush({
+      version: CONTENT_BUNDLE_VERSION,
+      artworks: [artwork('first-piece'), artwork('second-piece'), artwork('third-piece')],
+      services: []
+    });
+    await fixture.whenStable();
+  }
+
+  it('should open the artwork named in /gallery/:slug', async () => {
+    await start('/gallery/second-piece');
+
+    expect(app.isModalOpen).toBeTrue();
+    expect(app.selectedImage?.id).toBe('second-piece');
+  });
+
+  it('should go back to the page for an unknown slug', async () => {
+    spyOn(console, 'warn');
+    await start('/gallery/missing-piece');
+
+    expect(location.path()).toBe('');
+    expect(app.isModalOpen).toBeFalse();
+  });
+
+  it('should follow previous and next in the URL', async () => {
+    await start('/gallery/second-piece');
+
+    app.nextImage();
+    await fixture.whenStable();
+    expect(location.path()).toBe('/gallery/third-piece');
+    expect(app.selectedImage?.id).toBe('third-piece');
+
+    app.previousImage();
+    app.previousImage();
+    await fixture.whenStable();
+    expect(location.path()).toBe('/gallery/first-piece');
+    expect(app.selectedImage?.id).toBe('first-piece');
+  });
+
+  it('should close the modal on back', async () => {
+    await start('/');
+    app.openImageModal(app.galleryImages[0], 0);
+    await fixture.whenStable();
+    expect(location.path()).toBe('/gallery/first-piece');
+    expect(app.isModalOpen).toBeTrue();
+
+    location.back();
+    await fixture.whenStable();
+    expect(location.path()).toBe('');
+    expect(app.isModalOpen).toBeFalse();
+  });
+
+  it('should return to the page when closing after opening a related piece', async () => {
+    await start('/');
+
+    app.openArtwork('first-piece');
+    await fixture.whenStable();
+    expect(location.path()).toBe('/gallery/first-piece');
+
+    app.openArtwork('second-piece');
+    await fixture.whenStable();
+    expect(location.path()).toBe('/gallery/second-piece');
+    expect(app.isModalOpen).toBeTrue();
+
+    app.closeImageModal();
+    await fixture.whenStable();
+    expect(location.path()).toBe('');
+    expect(app.isModalOpen).toBeFalse();
+  });
+});
@@ -1,8 +1,60 @@
-import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
+import { Component, OnInit, OnDestroy, HostListener, ViewChild, effect, untracked, Inject, PLATFORM_ID } from '@angular/core';
+import { NavigationEnd, Router, RouterOutlet } from '@angular/router';
 import { NavigationComponent } from './components/navigation/navigation.component';
-import { CommonModule } from '@angular/common';
+import { UpdatePromptComponent } from './components/update-prompt/update-prompt.component';
+import { AboutMeComponent } from './components/about-me/about-me.component';
+import { CarouselComponent } from './components/carousel/carousel.component';
+import { TestimonialsComponent } from './components/testimonials/testimonials.component';
+import { ArtworkDetailComponent } from './components/artwork-detail/artwork-detail.component';
+import { MasonryGalleryComponent } from './components/masonry-gallery/masonry-gallery.component';
+import { CommonModule, DOCUMENT, Location, NgOptimizedImage, isPlatformBrowser } from '@angular/common';
 import { HeaderParticlesComponent } from './header-particles.component';
+import { Subscription, filter } from 'rxjs';
+import { ADMIN_PATH, ARTWORK_SLUG_PARAM, GALLERY_PATH } from './app.routes';
+import { Artwork, GalleryFilter } from './models/artwork.model';
+import { ThemeDefinition } from './models/theme.model';
+import { ServiceOffering } from './models/service.model';
+import { Testimonial } from './models/testimonial.model';
+import { ResponsiveImage } from './models/responsive-image.model';
+import { QuoteEstimate } from './models/pricing.model';
+import { CommissionState, ServiceStatus } from './models/commission-status.model';
+import { PROFILE } from './data/profile';
+import { TESTIMONIALS } from './data/testimonials';
+import { PublishedContentService } from './services/published-content.service';
+import { CommissionStatusService, overallState } from './services/commission-status.service';
+import { ImageZoomDirective } from './directives/image-zoom.directive';
+import { DialogDirective } from './directives/dialog.directive';
+import { ProtectedImageDirective } from './directives/protected-image.directive';
+import { ScrollSpyDirective } from './directives/scroll-spy.directive';
+import { LiveAnnouncerService } from './services/live-announcer.service';
+import { MetadataService } from './services/metadata.service';
+import { ResponsiveImageService, variantUrl } from './services/responsive-image.service';
+import { LocaleService } from './services/locale.service';
+import { ThemeService } from './services/theme.service';
+import { ScrollSpyService } from './services/scroll-spy.service';
+import { AnalyticsService } from './services/analytics.service';
+import { ArtworkOpenSource } from './models/analytics.model';
+import { PREVIEW_MAX_WIDTH, modalVariantWidth } from './services/artwork-protection';
+import { CommissionFormComponent } from './components/commission-form/commission-form.component';
+import { QuoteEstimatorComponent } from './components/quote-estimator/quote-estimator.component';
+import { StatusBadgeComponent } from './components/status-badge/status-badge.component';
+import { OrderTrackerComponent } from './components/order-tracker/order-tracker.component';
+import { GalleryFiltersComponent } from './components/gallery-filters/gallery-filters.component';
+import { TranslatePipe } from './i18n/translate.pipe';
+import { MessageKey } from './i18n/messages.en';
+import { localizeArtwork, localizeProfile, localizeService, localizeTestimonial } from './i18n/localize-content';
+import {
+  DEFAULT_GALLERY_FILTER, collectTags, filterArtworks, filterFromQueryParams, filterToQueryParams
+} from './services/gallery-filter';
+import { testimonialsForArtwork } from './services/testimonials';
+
+/**
+ * True for URLs inside the admin area
+ * @param url - Router URL or location path, e.g. "/admin/artworks"
+ */
+function isAdminUrl(url: string): boolean {
+  return new RegExp(`^/?${ADMIN_PATH}(/|\\?|#|$)`).test(url);
+}
 
 /**
  * Root application component
@@ -12,13 +64,33 @@ import { HeaderParticlesComponent } from './header-particles.component';
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, NavigationComponent, CommonModule, HeaderParticlesComponent],
+  imports: [
+    RouterOutlet, NavigationComponent, CommonModule, NgOptimizedImage, HeaderParticlesComponent, GalleryFiltersComponent,
+    ImageZoomDirective, DialogDirective, ProtectedImageDirective, ScrollSpyDirective, CommissionFormComponent,
+    QuoteEstimatorComponent, StatusBadgeComponent, OrderTrackerComponent, AboutMeComponent, UpdatePromptComponent,
+    CarouselComponent, TestimonialsComponent, ArtworkDetailComponent, MasonryGalleryComponent, TranslatePipe
+  ],
   templateUrl: './app.component.html',
   styleUrl: './app.component.css'
 })
 export class AppComponent implements OnInit, OnDestroy {
   title = 'angular-app';
+
+  /**
+   * Artist profile shown in About Me, in the active language
+   */
+  profile = PROFILE;
+
+  /**
+   * Client testimonials, in the active language
+   */
+  testimonials: Testimonial[] = TESTIMONIALS;
   
+  /**
+   * True on /admin pages, which replace the public page
+   */
+  isAdminArea = false;
+
   /**
    * Controls the visibility of the hero section
    * True when hero should be visible, false when hidden
@@ -31,7 +103,68 @@ export class AppComponent implements OnInit, OnDestroy {
    */
   heroOpacity = 1;
 
-  constructor() {}
+  /**
+   * Hero background, served through the responsive image pipeline
+   */
+  readonly heroImage = 'Image/BGFB-1.jpg';
+
+  /**
+   * Published artworks and services as loaded, before translation
+   * (hidden ones stay in the content for the admin panel)
+   */
+  private publishedArtworks: Artwork[] = [];
+  private publishedServices: ServiceOffering[] = [];
+
+  private contentSubscription?: Subscription;
+  private imagesSubscription?: Subscription;
+  private statusSubscription?: Subscription;
+  private routerSubscription?: Subscription;
+
+  /**
+   * True when the open modal was reached by pushing a history entry from the grid
+   */
+  private modalPushedHistory = false;
+
+  /**
+   * How the next artwork shown in the modal was opened; null means a shared link
+   */
+  private artworkOpenSource: ArtworkOpenSource | null = null;
+
+  /**
+   * Sections and services already counted on this page load
+   */
+  private reachedSections = new Set<string>();
+  private viewedServices = new Set<string>();
+
+  constructor(
+    private publishedContent: PublishedContentService,
+    private commissionStatusService: CommissionStatusService,
+    private router: Router,
+    private location: Location,
+    private liveAnnouncer: LiveAnnouncerService,
+    private metadata: MetadataService,
+    private responsiveImageService: ResponsiveImageService,
+    private localeService: LocaleService,
+    private themeService: ThemeService,
+    private scrollSpy: ScrollSpyService,
+    private analytics: AnalyticsService,
+    @Inject(DOCUMENT) private document: Document,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {
+    this.isAdminArea = isAdminUrl(this.location.path());
+
+    // Re-translate the catalog, services and profile whenever the language changes
+    effect(() => {
+      this.localeService.locale();
+      untracked(() => this.localizeContent());
+    });
+
+    // Count each section the first time it's reached
+    effect(() => {
+      const section = this.scrollSpy.active();
+      untracked(() => this.onSectionReached(section));
+    });
+  }
 
   /**
    * Component initialization
@@ -39,16 +172,75 @@ export class AppComponent implements OnInit, OnDestroy {
    */
   ngOnInit(): void {
     // Check initial scroll position in case page is refreshed mid-scroll
-    this.updateHeroVisibility(window.scrollY);
-    // Start services auto-play
-    this.startServicesAutoPlay();
+    // (prerendering has no viewport, so the server always renders the hero)
+    if (this.isBrowser) {
+      this.updateHeroVisibility(this.document.defaultView!.scrollY);
+    }
+    // Load the published artworks and services
+    this.loadGallery();
+    // Load the generated AVIF/WebP variants for the hero, gallery and service images
+    // (share cards use them too, so the metadata is refreshed once they arrive)
+    this.imagesSubscription = this.responsiveImageService.images$.subscribe(images => {
+      this.responsiveImages = images;
+      this.updateMetadata();
+    });
+    // Load commission availability for the hero banner and service badges
+    this.loadCommissionStatus();
+    // Keep the modal in sync with /gallery/:slug deep links
+    this.routerSubscription = this.router.events
+      .pipe(filter(event => event instanceof NavigationEnd))
+      .subscribe(() => {
+        this.isAdminArea = isAdminUrl(this.router.url);
+        this.galleryFilter = filterFromQueryParams(this.router.routerState.snapshot.root.queryParamMap);
+        this.applyGalleryFilter();
+        this.syncModalWithRoute();
+        this.updateMetadata();
+      });
   }
 
   /**
    * Component cleanup
    */
   ngOnDestroy(): void {
-    // Cleanup logic can be added here if needed
+    this.contentSubscription?.unsubscribe();
+    this.imagesSubscription?.unsubscribe();
+    this.statusSubscription?.unsubscribe();
+    this.routerSubscription?.unsubscribe();
+  }
+
+  /**
+   * Subscribe to the published content and populate the gallery and services
+   * Validation problems are logged in full and surfaced as a short message
+   */
+  private loadGallery(): void {
+    this.contentSubscription = this.publishedContent.content$.subscribe({
+      next: ({ artworks, services }) => {
+        this.publishedArtworks = artworks;
+        this.publishedServices = services;
+        this.galleryTags = collectTags(artworks);
+        this.galleryError = null;
+        this.localizeContent();
+      },
+      error: err => {
+        console.error('Failed to load published content:', err);
+        this.galleryError = 'gallery.loadError';
+      }
+    });
+  }
+
+  /**
+   * Apply the active language to the artworks, services, profile and testimonials
+   * The grid, an open modal and the page metadata are rebuilt from the translated copies
+   */
+  private localizeContent(): void {
+    const locale = this.localeService.locale();
+    this.galleryImages = this.publishedArtworks.map(artwork => localizeArtwork(artwork, locale));
+    this.services = this.publishedServices.map(service => localizeService(service, locale));
+    this.profile = localizeProfile(PROFILE, locale);
+    this.testimonials = TESTIMONIALS.map(testimonial => localizeTestimonial(testimonial, locale));
+    this.applyGalleryFilter();
+    this.syncModalWithRoute();
+    this.updateMetadata();
   }
 
   /**
@@ -58,7 +250,14 @@ export class AppComponent implements OnInit, OnDestroy {
    */
   @HostListener('window:scroll', ['$event'])
   onWindowScroll(event: Event): void {
-    this.updateHeroVisibility(window.scrollY);
+    this.updateHeroVisibility(this.document.defaultView!.scrollY);
+  }
+
+  /**
+   * True when running in the browser rather than during server rendering or prerendering
+   */
+  private get isBrowser(): boolean {
+    return isPlatformBrowser(this.platformId);
   }
 
   /**
@@ -66,7 +265,7 @@ export class AppComponent implements OnInit, OnDestroy {
    * @param scrollY - Current vertical scroll position in pixels
    */
   private updateHeroVisibility(scrollY: number): void {
-    const viewportHeight = window.innerHeight;
+    const viewportHeight = this.document.defaultView!.innerHeight;
     const fadeStartPoint = viewportHeight * 0.8;
     const fadeEndPoint = viewportHeight;
     
@@ -83,6 +282,43 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Subscribe to the commission status board
+   * Failures only hide the badges and banner; the rest of the page is unaffected
+   */
+  private loadCommissionStatus(): void {
+    this.statusSubscription = this.commissionStatusService.board$.subscribe({
+      next: board => {
+        this.serviceStatuses = Object.fromEntries(board.services.map(status => [status.serviceId, status]));
+        this.commissionAvailability = overallState(board.services);
+      },
+      error: err => console.error('Failed to load commission status:', err)
+    });
+  }
+
+  /**
+   * Text for the hero commission banner
+   */
+  get commissionBannerText(): string {
+    const availability = this.commissionAvailability;
+    if (!availability) return '';
+    switch (availability.state) {
+      case 'open':
+        return this.localeService.translate('hero.commissionsOpen', { count: availability.slotsRemaining });
+      case 'waitlist':
+        return this.localeService.translate('hero.commissionsWaitlist');
+      default:
+        return this.localeService.translate('hero.commissionsClosed');
+    }
+  }
+
+  /**
+   * Header particle preset and colors for the active theme
+   */
+  get particleTheme(): ThemeDefinition['particles'] {
+    return this.themeService.theme().particles;
+  }
+
   /**
    * Get dynamic styles for hero section
    * @returns Style object with opacity value
@@ -94,148 +330,266 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Gallery images configuration with metadata
-   * Contains all available images from public/Image folder
-   */
-  galleryImages = [
-    {
-      src: 'https://i.imgur.com/Wn3gPoG.jpeg',
-      alt: 'Anya character artwork',
-      title: 'Anya',
-      description: 'Art of Anya from the game "Mouth Washing"'
-    },
-    {
-      src: 'https://i.imgur.com/5IwYmG3.jpeg',
-      alt: 'Background design 2',
-      title: 'City Rain Walk',
-      description: 'An Adventure into the imagination while walking in the city'
-    },
-    {
-      src: 'https://i.imgur.com/uCu9MKo.jpeg',
-      alt: 'Hide and Seek game artwork',
-      title: 'Hide and Seek',
-      description: 'Playful story of playing Hide and Seek with Ghosts'
-    },
-    {
-      src: 'https://i.imgur.com/fg0N4G4.jpeg',
-      alt: 'Izia fan art illustration',
-      title: 'Izia Fan Art',
-      description: 'Creative fan artwork for Iziarawr'
-    },
-    {
-      src: 'https://i.imgur.com/PuaMa8M.jpeg',
-      alt: 'Spooky store design',
-      title: 'Spooky Store',
-      description: 'Ghost Kid Shopping in the Store for Holloween'
-    },
-    {
-      src: 'https://i.imgur.com/W2OOusD.jpeg',
-      alt: 'Tosh background design',
-      title: 'Tosh Background',
-      description: 'Background Art with ghost pets for Tosho'
-    }
-  ];
+   * Gallery artworks loaded through PublishedContentService, in the active language
+   * Empty until the catalog has loaded
+   */
+  galleryImages: Artwork[] = [];
+
+  /**
+   * Generated variants keyed by source path; images missing here render from their original file
+   */
+  responsiveImages = new Map<string, ResponsiveImage>();
+
+  /**
+   * Message shown when the catalog fails to load or validate
+   */
+  galleryError: MessageKey | null = null;
+
+  /**
+   * Active tag/search/sort state, mirrored in the URL query params
+   */
+  galleryFilter: GalleryFilter = DEFAULT_GALLERY_FILTER;
+
+  /**
+   * Artworks shown in the grid after applying galleryFilter
+   */
+  filteredImages: Artwork[] = [];
+
+  /**
+   * Unique tags across the catalog, used to build the filter chips
+   */
+  galleryTags: string[] = [];
+
+  /**
+   * List the open modal navigates through (prev/next and "N of M")
+   * Normally filteredImages; the full catalog when a deep link points outside the filter
+   */
+  lightboxImages: Artwork[] = [];
 
   // Modal state management
+  @ViewChild(ImageZoomDirective) imageZoom?: ImageZoomDirective;
   isModalOpen = false;
-  selectedImage: any = null;
+  selectedImage: Artwork | null = null;
   selectedImageIndex = 0;
 
-  // Services section data and state
-  services = [
-    {
-      id: 'stickers',
-      title: 'Stickers',
-      description: 'Custom stickers and emoji designs for Discord/Twitch/Other platforms',
-      image: 'https://i.imgur.com/swdJQ68.jpeg',
-      alt: 'Sticker design panel'
-    },
-    {
-      id: 'game-assets',
-      title: 'Game Assets',
-      description: 'Tier designs, profile frames, and game artwork',
-      image: 'https://i.imgur.com/RYOKR90.jpeg',
-      alt: 'Game assets panel'
-    },
-    {
-      id: 'websites',
-      title: 'Websites',
-      description: 'Web designs',
-      image: 'https://i.imgur.com/4ooZWw0.jpeg',
-      alt: 'Website design panel'
-    }
-  ];
+  // Services section data (in the active language) and state
+  services: ServiceOffering[] = [];
+
+  /**
+   * Availability per service id, from the commission status board
+   */
+  serviceStatuses: Record<string, ServiceStatus> = {};
 
+  /**
+   * Overall availability shown in the hero banner; null until loaded
+   */
+  commissionAvailability: { state: CommissionState; slotsRemaining: number } | null = null;
+
+  /**
+   * Service preselected in the commission form
+   */
+  commissionServiceId: string | null = null;
+
+  /**
+   * Estimate handed from the quote estimator to the commission form
+   */
+  commissionQuote: QuoteEstimate | null = null;
+
+  /**
+   * Service shown in the carousel, and priced by the quote estimator
+   */
   currentServiceIndex = 0;
-  isServicesAutoPlay = true;
-  private servicesInterval: any;
 
   /**
-   * Opens the image modal and applies global size constraints
+   * Dot label for a service slide
+   */
+  readonly serviceTitle = (service: ServiceOffering) => service.title;
+
+  /**
+   * Recompute the visible grid from the catalog and the active filter
+   */
+  private applyGalleryFilter(): void {
+    this.filteredImages = filterArtworks(this.galleryImages, this.galleryFilter);
+  }
+
+  /**
+   * Handle a filter change from the gallery toolbar
+   * Only the URL is updated; the grid follows on the resulting navigation
+   * @param filter - New filter state
+   */
+  onGalleryFilterChange(filter: GalleryFilter): void {
+    this.router.navigate(['/'], {
+      queryParams: filterToQueryParams(filter),
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  /**
+   * Variant width the modal loads: full size for downloadable pieces, otherwise a capped preview
+   * @param image - Artwork shown in the modal
+   * @param responsive - Its generated variants
+   */
+  modalWidth(image: Artwork, responsive: ResponsiveImage): number {
+    return modalVariantWidth(image, responsive.widths);
+  }
+
+  /**
+   * AVIF URL of the variant the modal loads
+   */
+  modalAvif(image: Artwork, responsive: ResponsiveImage): string {
+    return variantUrl(image.sources.full, this.modalWidth(image, responsive), 'avif');
+  }
+
+  /**
+   * Image drawn into the protected canvas
+   * Uses the modal variant when one was generated; otherwise the original, which the canvas scales down
+   * @param image - Protected artwork shown in the modal
+   */
+  protectedImageUrl(image: Artwork): string {
+    const responsive = this.responsiveImages.get(image.sources.full);
+    return responsive ? variantUrl(image.sources.full, this.modalWidth(image, responsive), 'webp') : image.sources.full;
+  }
+
+  /**
+   * Widest the protected canvas may draw an artwork
+   */
+  protectedMaxWidth(image: Artwork): number {
+    return image.downloadable ? Infinity : PREVIEW_MAX_WIDTH;
+  }
+
+  /**
+   * Opens the image modal by navigating to the artwork's deep link
+   * The modal itself is shown once the router settles on /gallery/:slug
+   * Switching pieces from inside the open modal replaces its history entry,
+   * so closing still goes back to where the modal was first opened
+   * @param image - The image object to display
+   * @param index - The index of the image in the gallery (kept for template compatibility)
+   */
+  openImageModal(image: Artwork, index: number): void {
+    const replaceUrl = this.isModalOpen;
+    if (!replaceUrl) {
+      this.modalPushedHistory = true;
+    }
+    this.artworkOpenSource = 'gallery';
+    this.router.navigate(['/', GALLERY_PATH, image.id], { replaceUrl, queryParamsHandling: 'preserve' });
+  }
+
+  /**
+   * Shows the modal for an artwork
    * @param image - The image object to display
    * @param index - The index of the image in the gallery
    */
-  openImageModal(image: any, index: number): void {
+  private showImageModal(image: Artwork, index: number): void {
+    const wasOpen = this.isModalOpen;
+    // a language switch swaps in the translated copy of the same piece; that's not a new view
+    if (image.id !== this.selectedImage?.id) {
+      this.analytics.track({ type: 'artwork-opened', artworkId: image.id, source: this.artworkOpenSource ?? 'link' });
+      this.analytics.startArtworkView(image.id);
+    }
+    this.artworkOpenSource = null;
     this.selectedImage = image;
     this.selectedImageIndex = index;
     this.isModalOpen = true;
-    
-    // Prevent body scroll when modal is open
-    document.body.style.overflow = 'hidden';
-    
-    // Apply global size constraints after modal opens
-    setTimeout(() => {
-      this.enforceGlobalImageConstraints();
-    }, 100);
+
+    // Focus stays on the dialog while stepping through images, so announce the change
+    // (scroll locking and focus handling live in DialogDirective)
+    if (wasOpen) {
+      // the details scroll with the info panel; start the next piece from its title
+      this.document.querySelector('.modal-info')?.scrollTo({ top: 0 });
+      this.liveAnnouncer.announce(this.localeService.translate('modal.announce', {
+        title: image.title, index: index + 1, total: this.lightboxImages.length
+      }));
+    }
   }
 
   /**
-   * Enforces global image size constraints (800px width, 500px height maximum)
-   * Ensures images never exceed screen boundaries or global limits
+   * Open or close the modal to match the slug in the current URL
+   * Called after each navigation and again once the catalog has loaded
    */
-  private enforceGlobalImageConstraints(): void {
-    const imageContainer = document.querySelector('.modal-image-container') as HTMLElement;
-    const image = document.querySelector('.modal-image') as HTMLImageElement;
-    
-    if (imageContainer && image) {
-      // Wait for image to load
-      image.onload = () => {
-        const viewportWidth = window.innerWidth;
-        const viewportHeight = window.innerHeight;
-        
-        // Global maximum constraints
-        const maxWidth = Math.min(800, viewportWidth - 80); // 800px or viewport minus padding
-        const maxHeight = Math.min(500, viewportHeight - 160); // 500px or viewport minus padding
-        
-        // Apply constraints directly to image
-        image.style.maxWidth = `${maxWidth}px`;
-        image.style.maxHeight = `${maxHeight}px`;
-        image.style.width = 'auto';
-        image.style.height = 'auto';
-        image.style.objectFit = 'contain';
-        
-        // Update container to match constraints
-        imageContainer.style.maxWidth = `${maxWidth + 40}px`; // Add padding
-        imageContainer.style.maxHeight = `${maxHeight + 40}px`; // Add padding
-        
-        console.log(`Image constrained to: ${maxWidth}x${maxHeight}px`);
-      };
-      
-      // Trigger load event if image is already cached
-      if (image.complete) {
-        image.onload(null as any);
+  private syncModalWithRoute(): void {
+    const slug = this.getRouteSlug();
+
+    if (!slug) {
+      if (this.isModalOpen) {
+        this.hideImageModal();
       }
+      return;
+    }
+
+    // Wait for the catalog before resolving the slug
+    if (!this.galleryImages.length) {
+      return;
+    }
+
+    // Navigate within the filtered list, falling back to the full catalog
+    // when a shared link points at a piece the current filter hides
+    const images = this.filteredImages.some(artwork => artwork.id === slug)
+      ? this.filteredImages
+      : this.galleryImages;
+    const index = images.findIndex(artwork => artwork.id === slug);
+    if (index === -1) {
+      console.warn(`No artwork found for slug '${slug}'`);
+      this.router.navigate(['/'], { replaceUrl: true, queryParamsHandling: 'preserve' });
+      return;
+    }
+
+    this.lightboxImages = images;
+    // compared by reference so a language switch swaps in the translated copy
+    if (this.selectedImage !== images[index] || this.selectedImageIndex !== index) {
+      this.showImageModal(images[index], index);
     }
   }
 
   /**
-   * Closes the image modal and restores normal scrolling
+   * Point the page title, share card and structured data at the current view
+   * Artwork deep links describe that piece; everything else describes the portfolio
+   */
+  private updateMetadata(): void {
+    const slug = this.getRouteSlug();
+    const artwork = slug ? this.galleryImages.find(image => image.id === slug) : undefined;
+
+    if (artwork) {
+      this.metadata.setArtwork(this.profile, artwork, this.responsiveImages);
+    } else {
+      this.metadata.setHome(this.profile, this.galleryImages, this.responsiveImages);
+    }
+  }
+
+  /**
+   * Read the artwork slug from the deepest active route, if any
+   * @returns The slug from /gallery/:slug, or null on any other route
+   */
+  private getRouteSlug(): string | null {
+    let route = this.router.routerState.snapshot.root;
+    while (route.firstChild) {
+      route = route.firstChild;
+    }
+    return route.paramMap.get(ARTWORK_SLUG_PARAM);
+  }
+
+  /**
+   * Closes the image modal by leaving its deep link
+   * Goes back in history when the modal was opened in-app so the back button stays consistent
    */
   closeImageModal(): void {
+    if (this.modalPushedHistory) {
+      this.modalPushedHistory = false;
+      this.location.back();
+    } else {
+      this.router.navigate(['/'], { replaceUrl: true, queryParamsHandling: 'preserve' });
+    }
+  }
+
+  /**
+   * Hides the image modal
+   * DialogDirective restores scrolling and focus when the modal leaves the DOM
+   */
+  private hideImageModal(): void {
+    this.analytics.endArtworkView();
+    this.modalPushedHistory = false;
     this.isModalOpen = false;
     this.selectedImage = null;
-    // Restore body scrolling
-    document.body.style.overflow = 'auto';
   }
 
   /**
@@ -243,8 +597,8 @@ export class AppComponent implements OnInit, OnDestroy {
    */
   previousImage(): void {
     if (this.selectedImageIndex > 0) {
-      this.selectedImageIndex--;
-      this.selectedImage = this.galleryImages[this.selectedImageIndex];
+      this.artworkOpenSource = 'lightbox';
+      this.navigateToImage(this.selectedImageIndex - 1);
     }
   }
 
@@ -252,89 +606,153 @@ export class AppComponent implements OnInit, OnDestroy {
    * Navigate to next image in gallery
    */
   nextImage(): void {
-    if (this.selectedImageIndex < this.galleryImages.length - 1) {
-      this.selectedImageIndex++;
-      this.selectedImage = this.galleryImages[this.selectedImageIndex];
+    if (this.selectedImageIndex < this.lightboxImages.length - 1) {
+      this.artworkOpenSource = 'lightbox';
+      this.navigateToImage(this.selectedImageIndex + 1);
+    }
+  }
+
+  /**
+   * Replace the current deep link with another artwork's
+   * Uses replaceUrl so the back button closes the modal rather than stepping through images
+   * @param index - Index of the artwork in the gallery
+   */
+  private navigateToImage(index: number): void {
+    this.router.navigate(['/', GALLERY_PATH, this.lightboxImages[index].id], {
+      replaceUrl: true,
+      queryParamsHandling: 'preserve'
+    });
+  }
+
+  /**
+   * Route document key presses to the modal while it is open
+   * Listening on the document means arrows still work after the focused
+   * prev/next button disappears at either end of the list
+   * @param event - Keyboard event
+   */
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent): void {
+    if (this.isModalOpen) {
+      this.onModalKeydown(event);
     }
   }
 
   /**
    * Handle keyboard navigation in modal
+   * Escape is handled by DialogDirective so it works wherever focus is
    * @param event - Keyboard event
    */
   onModalKeydown(event: KeyboardEvent): void {
+    // arrow keys belong to the before/after slider and video controls while they have focus
+    if ((event.target as Element | null)?.closest?.('input, video')) {
+      return;
+    }
+
     switch (event.key) {
-      case 'Escape':
-        this.closeImageModal();
-        break;
       case 'ArrowLeft':
         this.previousImage();
         break;
       case 'ArrowRight':
         this.nextImage();
         break;
+      case '+':
+      case '=':
+        this.imageZoom?.zoomIn();
+        break;
+      case '-':
+        this.imageZoom?.zoomOut();
+        break;
+      case '0':
+        this.imageZoom?.toggleFit();
+        break;
     }
   }
 
   /**
-   * Navigate to specific service panel
-   * @param index - Index of the service to display
+   * Testimonials about the artwork open in the modal
    */
-  goToService(index: number): void {
+  get selectedTestimonials(): Testimonial[] {
+    return this.selectedImage ? testimonialsForArtwork(this.testimonials, this.selectedImage.id) : [];
+  }
+
+  /**
+   * Show a service in the carousel and scroll to the services section
+   * @param serviceId - Id of the service to show
+   */
+  showService(serviceId: string): void {
+    const index = this.services.findIndex(service => service.id === serviceId);
+    if (index === -1) return;
+
     this.currentServiceIndex = index;
-    this.resetServicesAutoPlay();
+    this.scrollSpy.scrollTo('services');
   }
 
   /**
-   * Navigate to previous service panel
+   * Keep the services carousel position, counting the slide as seen while the section is on screen
+   * @param index - Index of the visible service
    */
-  previousService(): void {
-    this.currentServiceIndex = this.currentServiceIndex > 0 
-      ? this.currentServiceIndex - 1 
-      : this.services.length - 1;
-    this.resetServicesAutoPlay();
+  onServiceShown(index: number): void {
+    this.currentServiceIndex = index;
+    if (this.scrollSpy.active() === 'services') {
+      this.trackServiceView();
+    }
   }
 
   /**
-   * Navigate to next service panel
+   * Count the service in the carousel, once per page load
    */
-  nextService(): void {
-    this.currentServiceIndex = this.currentServiceIndex < this.services.length - 1 
-      ? this.currentServiceIndex + 1 
-      : 0;
-    this.resetServicesAutoPlay();
+  private trackServiceView(): void {
+    const service = this.services[this.currentServiceIndex];
+    if (service && !this.viewedServices.has(service.id)) {
+      this.viewedServices.add(service.id);
+      this.analytics.track({ type: 'service-viewed', serviceId: service.id });
+    }
   }
 
   /**
-   * Start automatic service panel rotation
+   * Count a section the first time the scroll-spy reports it, and the service on show when it's Services
+   * @param sectionId - Active scroll-spy section
    */
-  private startServicesAutoPlay(): void {
-    if (this.isServicesAutoPlay) {
-      this.servicesInterval = setInterval(() => {
-        this.nextService();
-      }, 4000); // Change every 4 seconds
+  private onSectionReached(sectionId: string | null): void {
+    if (!sectionId) return;
+    if (!this.reachedSections.has(sectionId)) {
+      this.reachedSections.add(sectionId);
+      this.analytics.track({ type: 'section-reached', sectionId });
+    }
+    if (sectionId === 'services') {
+      this.trackServiceView();
     }
   }
 
   /**
-   * Reset auto-play timer when user manually navigates
+   * Open an artwork in the modal by its catalog slug
+   * @param artworkId - Catalog slug
    */
-  private resetServicesAutoPlay(): void {
-    if (this.servicesInterval) {
-      clearInterval(this.servicesInterval);
+  openArtwork(artworkId: string): void {
+    const index = this.galleryImages.findIndex(artwork => artwork.id === artworkId);
+    if (index !== -1) {
+      this.openImageModal(this.galleryImages[index], index);
     }
-    this.startServicesAutoPlay();
   }
 
   /**
-   * Toggle auto-play on/off
+   * Preselect a service in the commission form and scroll to it
+   * @param serviceId - Id of the service to commission
+   * @param quote - Estimate to attach, when coming from the quote estimator
+   */
+  requestCommission(serviceId: string, quote: QuoteEstimate | null = null): void {
+    this.commissionServiceId = serviceId;
+    this.commissionQuote = quote;
+    this.scrollToCommission();
+  }
+
+  /**
+   * Scroll to the commission section
    */
-  toggleServicesAutoPlay(): void {
-    this.isServicesAutoPlay = !this.isServicesAutoPlay;
-    if (this.isServicesAutoPlay) {
-      this.startServicesAutoPlay();
-    } else if (this.servicesInterval) {
-      clearInterval(this.servicesInterval);
+  scrollToCommission(): void {
+    const section = this.document.getElementById('commission-section');
+    if (section) {
+      this.scrollSpy.scrollToElement(section);
     }
   }
 }
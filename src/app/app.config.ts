@@ -1,11 +1,41 @@
-import { ApplicationConfig } from '@angular/core';
+import { ApplicationConfig, isDevMode } from '@angular/core';
+import { IMAGE_LOADER } from '@angular/common';
 import { provideRouter } from '@angular/router';
+import { provideServiceWorker } from '@angular/service-worker';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
 import { routes } from './app.routes';
-import { provideClientHydration } from '@angular/platform-browser';
+import { provideClientHydration, withEventReplay, withHttpTransferCacheOptions } from '@angular/platform-browser';
+import { environment } from '../environments/environment';
+import { mockBackendInterceptor } from './mock-backend/mock-backend.interceptor';
+import { responsiveImageLoader } from './services/responsive-image.service';
+import { adminAuthInterceptor } from './services/admin-auth.service';
+import { ANALYTICS_TRANSPORT } from './services/analytics.service';
+import { mockAnalyticsTransport } from './mock-backend/analytics.mock';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideRouter(routes),
-    provideClientHydration()
+    provideHttpClient(
+      withFetch(),
+      // the admin token has to be attached before the mock backend sees the request
+      withInterceptors([adminAuthInterceptor, ...(environment.useMockBackend ? [mockBackendInterceptor] : [])])
+    ),
+    provideClientHydration(
+      withEventReplay(),
+      // availability and published content change between deploys, so always fetch them fresh instead of reusing the prerendered response
+      withHttpTransferCacheOptions({
+        filter: request => !request.url.endsWith(environment.commissionStatusUrl) &&
+          !(environment.contentUrl && request.url === environment.contentUrl)
+      })
+    ),
+    // beacons skip HttpClient, so the mock backend collects analytics through its own transport
+    ...(environment.useMockBackend ? [{ provide: ANALYTICS_TRANSPORT, useValue: mockAnalyticsTransport }] : []),
+    // NgOptimizedImage serves local artwork from the variants generated by scripts/generate-responsive-images.mjs
+    { provide: IMAGE_LOADER, useValue: responsiveImageLoader },
+    // caches the app shell and viewed artwork for offline use (see ngsw-config.json); production builds only
+    provideServiceWorker('ngsw-worker.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000'
+    })
   ]
 };
@@ -0,0 +1,24 @@
+import { inject } from '@angular/core';
+import { RenderMode, ServerRoute } from '@angular/ssr';
+import { firstValueFrom } from 'rxjs';
+import { ARTWORK_SLUG_PARAM, GALLERY_PATH } from './app.routes';
+import { PublishedContentService } from './services/published-content.service';
+
+/**
+ * How each route is rendered at build time
+ * The home page and every artwork deep link are prerendered to static HTML so crawlers and
+ * link previews see real content; anything else falls back to the client-rendered shell
+ */
+export const serverRoutes: ServerRoute[] = [
+  { path: '', renderMode: RenderMode.Prerender },
+  {
+    path: `${GALLERY_PATH}/:${ARTWORK_SLUG_PARAM}`,
+    renderMode: RenderMode.Prerender,
+    // one page per published artwork, read from the content API or public/ during the build
+    async getPrerenderParams() {
+      const artworks = await firstValueFrom(inject(PublishedContentService).artworks$);
+      return artworks.map(artwork => ({ [ARTWORK_SLUG_PARAM]: artwork.id }));
+    }
+  },
+  { path: '**', renderMode: RenderMode.Client }
+];
@@ -1,3 +1,33 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+/**
+ * Path segment for deep links to a single artwork (/gallery/:slug)
+ */
+export const GALLERY_PATH = 'gallery';
+
+/**
+ * Route param holding the artwork id on gallery deep links
+ */
+export const ARTWORK_SLUG_PARAM = 'slug';
+
+/**
+ * Path segment of the content admin area (/admin)
+ */
+export const ADMIN_PATH = 'admin';
+
+/**
+ * Route param holding the id of the artwork or service open in an admin editor
+ */
+export const ADMIN_ID_PARAM = 'id';
+
+/**
+ * The page itself is rendered by AppComponent, so these routes carry no components
+ * AppComponent reads the active slug from the router state and opens the lightbox for it
+ * The admin area is lazy loaded and rendered in place of the page
+ */
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', children: [] },
+  { path: `${GALLERY_PATH}/:${ARTWORK_SLUG_PARAM}`, children: [] },
+  { path: ADMIN_PATH, loadChildren: () => import('./components/admin/admin.routes').then(m => m.ADMIN_ROUTES) },
+  { path: '**', redirectTo: '' }
+];
@@ -0,0 +1,118 @@
+import { Component, OnDestroy, computed, inject, input, signal } from '@angular/core';
+import { CommonModule, DOCUMENT } from '@angular/common';
+import { Profile, SocialPlatform, TimelineEntry } from '../../models/profile.model';
+import { LocaleService } from '../../services/locale.service';
+import { LiveAnnouncerService } from '../../services/live-announcer.service';
+import { renderMarkdown } from '../../services/markdown';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Brand name and 24x24 icon path for each social platform
+ */
+export const SOCIAL_PLATFORMS: Record<SocialPlatform, { name: string; icon: string }> = {
+  twitch: {
+    name: 'Twitch',
+    icon: 'M4 2 2.5 5.5V20h5v3h3l3-3h4l5-5V2H4zm16 12-3 3h-4.5l-3 3v-3H5V4h15v10zM15 7.5h2v6h-2zm-5 0h2v6h-2z'
+  },
+  discord: {
+    name: 'Discord',
+    icon: 'M19.5 5.3A17 17 0 0 0 15.3 4l-.5 1.1a15.6 15.6 0 0 0-5.6 0L8.7 4a17 17 0 0 0-4.2 1.3C1.8 9.3 1.1 13.2 1.4 17a17 17 0 0 0 5.2 2.6l1.1-1.8a11 11 0 0 1-1.7-.8l.4-.3a12 12 0 0 0 11.2 0l.4.3-1.7.8 1.1 1.8a17 17 0 0 0 5.2-2.6c.4-4.4-.7-8.3-3.1-11.7zM8.7 14.7c-1 0-1.9-1-1.9-2.1s.8-2.1 1.9-2.1 1.9 1 1.9 2.1-.8 2.1-1.9 2.1zm6.6 0c-1 0-1.9-1-1.9-2.1s.8-2.1 1.9-2.1 1.9 1 1.9 2.1-.8 2.1-1.9 2.1z'
+  },
+  kofi: {
+    name: 'Ko-fi',
+    icon: 'M3 5h14.5a4.5 4.5 0 0 1 0 9H17a5 5 0 0 1-5 5H7a4 4 0 0 1-4-4V5zm14 2v5h.5a2.5 2.5 0 0 0 0-5H17zm-7 2.2c-.8-1-2.6-.8-2.6.8 0 1.4 1.7 2.6 2.6 3.3.9-.7 2.6-1.9 2.6-3.3 0-1.6-1.8-1.8-2.6-.8z'
+  },
+  vgen: {
+    name: 'VGen',
+    icon: 'M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm0 15.5L6.5 7h3l2.5 5 2.5-5h3L12 17.5z'
+  },
+  twitter: {
+    name: 'X (Twitter)',
+    icon: 'M17.8 3h3.1l-6.8 7.7L22 21h-6.2l-4.9-6.4L5.3 21H2.2l7.2-8.3L1.8 3h6.4l4.4 5.8L17.8 3zm-1.1 16.2h1.7L7.3 4.7H5.5l11.2 14.5z'
+  },
+  instagram: {
+    name: 'Instagram',
+    icon: 'M7 2h10a5 5 0 0 1 5 5v10a5 5 0 0 1-5 5H7a5 5 0 0 1-5-5V7a5 5 0 0 1 5-5zm0 2a3 3 0 0 0-3 3v10a3 3 0 0 0 3 3h10a3 3 0 0 0 3-3V7a3 3 0 0 0-3-3H7zm5 3.5a4.5 4.5 0 1 1 0 9 4.5 4.5 0 0 1 0-9zm0 2a2.5 2.5 0 1 0 0 5 2.5 2.5 0 0 0 0-5zM17.3 5.5a1.2 1.2 0 1 1 0 2.4 1.2 1.2 0 0 1 0-2.4z'
+  }
+};
+
+/**
+ * How long the "Copied" confirmation stays on a contact button
+ */
+const COPIED_RESET_MS = 2000;
+
+/**
+ * About Me section
+ * Shows the bio, avatar, social links and a contact card up front; the timeline and
+ * skills expand below. Everything comes from the profile in data/profile.ts
+ */
+@Component({
+  selector: 'app-about-me',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './about-me.component.html',
+  styleUrls: ['./about-me.component.css']
+})
+export class AboutMeComponent implements OnDestroy {
+  // inputs
+  /** Profile in the active language */
+  profile = input.required<Profile>();
+
+  // services
+  private document = inject(DOCUMENT);
+  private locale = inject(LocaleService);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+
+  readonly platforms = SOCIAL_PLATFORMS;
+
+  /** True while the timeline and skills are shown */
+  readonly expanded = signal(false);
+
+  /** Contact detail that was just copied, for the button's confirmation */
+  readonly copied = signal<'email' | 'discord' | null>(null);
+
+  /** Bio rendered from Markdown; Angular sanitizes it again when bound to innerHTML */
+  readonly bioHtml = computed(() => renderMarkdown(this.profile().bio));
+
+  private copiedTimer: ReturnType<typeof setTimeout> | null = null;
+
+  ngOnDestroy(): void {
+    if (this.copiedTimer) clearTimeout(this.copiedTimer);
+  }
+
+  toggleExpanded(): void {
+    this.expanded.update(expanded => !expanded);
+  }
+
+  /**
+   * Timeline dates are a year ("2021") or a month ("2023-06"); months are written out in the active language
+   */
+  formatTimelineDate(entry: TimelineEntry): string {
+    return /^\d{4}-\d{2}$/.test(entry.date)
+      ? this.locale.formatDate(`${entry.date}-01T00:00:00`, { year: 'numeric', month: 'long' })
+      : entry.date;
+  }
+
+  /**
+   * Copy the email address or Discord handle to the clipboard
+   * @param field - Contact detail to copy
+   */
+  async copyContact(field: 'email' | 'discord'): Promise<void> {
+    const value = this.profile().contact[field];
+    const clipboard = this.document.defaultView?.navigator.clipboard;
+    if (!value || !clipboard) return;
+
+    try {
+      await clipboard.writeText(value);
+    } catch (error) {
+      console.error('Failed to copy to the clipboard:', error);
+      this.liveAnnouncer.announce(this.locale.translate('about.copyFailed'), 'assertive');
+      return;
+    }
+
+    this.copied.set(field);
+    this.liveAnnouncer.announce(this.locale.translate('about.copied', { value }));
+    if (this.copiedTimer) clearTimeout(this.copiedTimer);
+    this.copiedTimer = setTimeout(() => this.copied.set(null), COPIED_RESET_MS);
+  }
+}
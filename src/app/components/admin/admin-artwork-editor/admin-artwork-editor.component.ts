@@ -0,0 +1,141 @@
+import { Component, inject } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Artwork } from '../../../models/artwork.model';
+import { UploadedImage } from '../../../models/admin.model';
+import { AdminContentService } from '../../../services/admin-content.service';
+import { LiveAnnouncerService } from '../../../services/live-announcer.service';
+import { LocaleService } from '../../../services/locale.service';
+import { SLUG_PATTERN } from '../../../services/catalog';
+import { ADMIN_ID_PARAM, ADMIN_PATH } from '../../../app.routes';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+import { AdminImageFieldComponent } from '../admin-image-field/admin-image-field.component';
+import { parseTags, tagListValidator } from '../admin.validators';
+
+/**
+ * Add or edit a gallery artwork
+ * Fields the form doesn't cover (translations, protection, process) are kept as they are
+ */
+@Component({
+  selector: 'app-admin-artwork-editor',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe, AdminImageFieldComponent],
+  templateUrl: './admin-artwork-editor.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminArtworkEditorComponent {
+  private fb = inject(FormBuilder);
+  private router = inject(Router);
+  private contentService = inject(AdminContentService);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+  private locale = inject(LocaleService);
+
+  private readonly editId = inject(ActivatedRoute).snapshot.paramMap.get(ADMIN_ID_PARAM);
+
+  /** Artwork being edited; undefined when adding one, or when the id is unknown */
+  readonly artwork = this.editId ? this.contentService.find('artworks', this.editId) : undefined;
+  readonly isNew = !this.editId;
+  readonly listLink = ['/', ADMIN_PATH, 'artworks'];
+
+  form = this.fb.nonNullable.group({
+    id: ['', [Validators.required, Validators.pattern(SLUG_PATTERN)]],
+    title: ['', Validators.required],
+    alt: ['', Validators.required],
+    description: ['', Validators.required],
+    tags: ['', tagListValidator],
+    createdAt: ['', Validators.required],
+    image: ['', Validators.required],
+    width: [0, Validators.min(1)],
+    height: [0, Validators.min(1)],
+    downloadable: [false],
+    hidden: [false]
+  });
+
+  status: 'idle' | 'saving' | 'error' = 'idle';
+  /** Problems reported by the API, listed above the save button */
+  serverIssues: string[] = [];
+
+  constructor() {
+    const artwork = this.artwork;
+    if (artwork) {
+      this.form.setValue({
+        id: artwork.id,
+        title: artwork.title,
+        alt: artwork.alt,
+        description: artwork.description,
+        tags: artwork.tags.join(', '),
+        createdAt: artwork.createdAt,
+        image: artwork.sources.full,
+        width: artwork.dimensions.width,
+        height: artwork.dimensions.height,
+        downloadable: !!artwork.downloadable,
+        hidden: !!artwork.hidden
+      });
+      // ids appear in gallery links, so they stay fixed once published
+      this.form.controls.id.disable();
+    }
+  }
+
+  /**
+   * Use a freshly uploaded image and its size
+   * @param image - Upload result
+   */
+  onImageUploaded(image: UploadedImage): void {
+    this.form.patchValue({ image: image.path, width: image.width, height: image.height });
+    this.form.controls.image.markAsTouched();
+  }
+
+  /**
+   * True when a control should show its errors
+   * @param name - Form control name
+   */
+  showErrors(name: keyof typeof this.form.controls): boolean {
+    const control = this.form.controls[name];
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  /**
+   * Validate and save the artwork, then return to the list
+   */
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    const existing = this.artwork;
+    const artwork: Artwork = {
+      ...existing,
+      id: value.id,
+      title: value.title.trim(),
+      alt: value.alt.trim(),
+      description: value.description.trim(),
+      tags: parseTags(value.tags),
+      createdAt: value.createdAt,
+      dimensions: { width: value.width, height: value.height },
+      // a new image replaces the old thumbnail too
+      sources: existing?.sources.full === value.image ? existing.sources : { full: value.image },
+      downloadable: value.downloadable,
+      hidden: value.hidden
+    };
+
+    this.status = 'saving';
+    this.serverIssues = [];
+    this.contentService.save('artworks', artwork, this.isNew).subscribe({
+      next: saved => {
+        this.liveAnnouncer.announce(this.locale.translate('admin.editor.saved', { title: saved.title }));
+        this.router.navigate(this.listLink);
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Saving the artwork failed:', err);
+        this.status = 'error';
+        if (err.status === 409) {
+          this.form.controls.id.setErrors({ taken: true });
+        }
+        this.serverIssues = err.error?.issues ?? [];
+      }
+    });
+  }
+}
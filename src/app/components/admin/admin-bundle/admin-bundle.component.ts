@@ -0,0 +1,109 @@
+import { Component, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ContentBundle } from '../../../models/admin.model';
+import { AdminContentService } from '../../../services/admin-content.service';
+import { ContentValidationError, parseContentBundle } from '../../../services/content-bundle';
+import { LiveAnnouncerService } from '../../../services/live-announcer.service';
+import { LocaleService } from '../../../services/locale.service';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+
+/**
+ * Export all content as a JSON file, or replace it with one
+ * Imported files are validated in the browser first so problems are listed before anything changes
+ */
+@Component({
+  selector: 'app-admin-bundle',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './admin-bundle.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminBundleComponent {
+  private document = inject(DOCUMENT);
+  private contentService = inject(AdminContentService);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+  private locale = inject(LocaleService);
+
+  exportStatus: 'idle' | 'exporting' | 'error' = 'idle';
+
+  /** Validated file waiting for confirmation */
+  pendingImport: ContentBundle | null = null;
+  importStatus: 'idle' | 'invalid' | 'importing' | 'error' = 'idle';
+  /** Why the picked file can't be imported */
+  importIssues: string[] = [];
+
+  /**
+   * Download the current content as sebbyashan-content-YYYY-MM-DD.json
+   */
+  exportContent(): void {
+    this.exportStatus = 'exporting';
+    this.contentService.exportBundle().subscribe({
+      next: bundle => {
+        const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = this.document.createElement('a');
+        link.href = url;
+        link.download = `sebbyashan-content-${bundle.exportedAt!.slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+        this.exportStatus = 'idle';
+      },
+      error: err => {
+        console.error('Exporting content failed:', err);
+        this.exportStatus = 'error';
+      }
+    });
+  }
+
+  /**
+   * Read and validate a picked bundle file
+   * @param event - Change event of the file input
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    this.pendingImport = null;
+    this.importIssues = [];
+    this.importStatus = 'idle';
+    if (!file) return;
+
+    try {
+      this.pendingImport = parseContentBundle(JSON.parse(await file.text()));
+    } catch (error) {
+      this.importStatus = 'invalid';
+      this.importIssues = error instanceof ContentValidationError
+        ? error.issues
+        : [this.locale.translate('admin.bundle.notJson')];
+    }
+  }
+
+  /**
+   * Replace all content with the validated file
+   */
+  confirmImport(): void {
+    const bundle = this.pendingImport;
+    if (!bundle) return;
+
+    this.importStatus = 'importing';
+    this.contentService.importBundle(bundle).subscribe({
+      next: stored => {
+        this.pendingImport = null;
+        this.importStatus = 'idle';
+        this.liveAnnouncer.announce(this.locale.translate('admin.bundle.imported', {
+          artworks: stored.artworks.length,
+          services: stored.services.length
+        }));
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Importing content failed:', err);
+        this.importStatus = 'error';
+        this.importIssues = err.error?.issues ?? [];
+      }
+    });
+  }
+
+  cancelImport(): void {
+    this.pendingImport = null;
+    this.importStatus = 'idle';
+  }
+}
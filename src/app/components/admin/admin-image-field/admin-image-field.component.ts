@@ -0,0 +1,75 @@
+import { Component, OnDestroy, inject, input, output } from '@angular/core';
+import { UploadedImage } from '../../../models/admin.model';
+import { ADMIN_IMAGE_MAX_BYTES, ADMIN_IMAGE_TYPES, AdminContentService, imageFileError } from '../../../services/admin-content.service';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+
+/**
+ * Image picker for the admin editors
+ * Checks the file as soon as it's picked, previews it and uploads it; the editor stores the result
+ */
+@Component({
+  selector: 'app-admin-image-field',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './admin-image-field.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminImageFieldComponent implements OnDestroy {
+  // inputs
+  /** Id for the file input, so the label can point at it */
+  inputId = input.required<string>();
+  /** Current image path; shown until a new file is picked */
+  src = input<string>('');
+  alt = input<string>('');
+  /** Set by the editor when an image is required but missing */
+  invalid = input(false);
+
+  // outputs
+  uploaded = output<UploadedImage>();
+
+  private contentService = inject(AdminContentService);
+
+  readonly accept = ADMIN_IMAGE_TYPES.join(',');
+  readonly maxFileMb = ADMIN_IMAGE_MAX_BYTES / (1024 * 1024);
+
+  /** Object URL of the picked file */
+  preview: string | null = null;
+  status: 'idle' | 'uploading' | 'uploaded' | 'error' = 'idle';
+  fileError: 'fileType' | 'fileSize' | null = null;
+
+  /**
+   * Check, preview and upload the picked file
+   * @param event - Change event of the file input
+   */
+  onFileSelected(event: Event): void {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    this.clearPreview();
+    this.status = 'idle';
+    this.fileError = file ? imageFileError(file) : null;
+    if (!file || this.fileError) return;
+
+    this.preview = URL.createObjectURL(file);
+    this.status = 'uploading';
+    this.contentService.uploadImage(file).subscribe({
+      next: image => {
+        this.status = 'uploaded';
+        this.uploaded.emit(image);
+      },
+      error: err => {
+        console.error('Image upload failed:', err);
+        this.status = 'error';
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.clearPreview();
+  }
+
+  private clearPreview(): void {
+    if (this.preview) {
+      URL.revokeObjectURL(this.preview);
+      this.preview = null;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Component, computed, inject } from '@angular/core';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Observable } from 'rxjs';
+import { ContentKind } from '../../../models/admin.model';
+import { AdminContentService } from '../../../services/admin-content.service';
+import { LiveAnnouncerService } from '../../../services/live-announcer.service';
+import { LocaleService } from '../../../services/locale.service';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+
+/**
+ * A row in the admin list, the same for artworks and services
+ */
+interface AdminListRow {
+  id: string;
+  title: string;
+  image: string;
+  alt: string;
+  hidden: boolean;
+}
+
+/**
+ * Artwork or service list, picked by the route's "kind" data
+ * Entries can be moved up and down, hidden from the public site and opened for editing
+ */
+@Component({
+  selector: 'app-admin-list',
+  standalone: true,
+  imports: [RouterLink, TranslatePipe],
+  templateUrl: './admin-list.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminListComponent {
+  private contentService = inject(AdminContentService);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+  private locale = inject(LocaleService);
+
+  readonly kind: ContentKind = inject(ActivatedRoute).snapshot.data['kind'];
+
+  readonly rows = computed<AdminListRow[]>(() => {
+    const content = this.contentService.content();
+    if (!content) return [];
+    return this.kind === 'artworks'
+      ? content.artworks.map(artwork => ({
+        id: artwork.id,
+        title: artwork.title,
+        image: artwork.sources.thumbnail ?? artwork.sources.full,
+        alt: artwork.alt,
+        hidden: !!artwork.hidden
+      }))
+      : content.services.map(service => ({
+        id: service.id,
+        title: service.title,
+        image: service.image,
+        alt: service.alt,
+        hidden: !!service.hidden
+      }));
+  });
+
+  /** Id of the entry with a request in flight; its buttons are disabled meanwhile */
+  busyId: string | null = null;
+  actionError = false;
+
+  /**
+   * Swap an entry with its neighbour
+   * @param row - Entry to move
+   * @param offset - -1 for up, 1 for down
+   */
+  move(row: AdminListRow, offset: -1 | 1): void {
+    this.run(row, this.contentService.move(this.kind, row.id, offset), () => {
+      const position = this.rows().findIndex(r => r.id === row.id) + 1;
+      this.liveAnnouncer.announce(this.locale.translate('admin.list.moved', { title: row.title, position }));
+    });
+  }
+
+  /**
+   * Hide an entry from the public site, or publish it again
+   * @param row - Entry to toggle
+   */
+  toggleHidden(row: AdminListRow): void {
+    this.run(row, this.contentService.setHidden(this.kind, row.id, !row.hidden), () => {
+      this.liveAnnouncer.announce(
+        this.locale.translate(row.hidden ? 'admin.list.shown' : 'admin.list.hidden', { title: row.title })
+      );
+    });
+  }
+
+  private run(row: AdminListRow, request: Observable<unknown>, done: () => void): void {
+    this.busyId = row.id;
+    this.actionError = false;
+    request.subscribe({
+      next: () => {
+        this.busyId = null;
+        done();
+      },
+      error: err => {
+        console.error(`Updating ${row.id} failed:`, err);
+        this.busyId = null;
+        this.actionError = true;
+      }
+    });
+  }
+}
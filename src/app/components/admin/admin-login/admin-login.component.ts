@@ -0,0 +1,63 @@
+import { Component, inject } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { AdminAuthService } from '../../../services/admin-auth.service';
+import { ADMIN_PATH } from '../../../app.routes';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+
+/**
+ * Admin sign-in page
+ * Returns to the page the guard sent the visitor away from, or the artwork list
+ */
+@Component({
+  selector: 'app-admin-login',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe],
+  templateUrl: './admin-login.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminLoginComponent {
+  private fb = inject(FormBuilder);
+  private auth = inject(AdminAuthService);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+
+  form = this.fb.nonNullable.group({
+    password: ['', Validators.required]
+  });
+
+  status: 'idle' | 'submitting' | 'wrongPassword' | 'error' = 'idle';
+
+  /**
+   * True when a control should show its errors
+   * @param name - Form control name
+   */
+  showErrors(name: keyof typeof this.form.controls): boolean {
+    const control = this.form.controls[name];
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  /**
+   * Sign in and continue to the requested admin page
+   */
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.status = 'submitting';
+    this.auth.login(this.form.controls.password.value).subscribe({
+      next: () => {
+        const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+        // only follow return URLs inside the admin area
+        this.router.navigateByUrl(returnUrl?.startsWith(`/${ADMIN_PATH}/`) ? returnUrl : `/${ADMIN_PATH}`);
+      },
+      error: (err: HttpErrorResponse) => {
+        this.status = err.status === 401 ? 'wrongPassword' : 'error';
+        this.form.controls.password.reset('');
+      }
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import { Component, inject } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { ServiceOffering, ServicePackage } from '../../../models/service.model';
+import { UploadedImage } from '../../../models/admin.model';
+import { AdminContentService } from '../../../services/admin-content.service';
+import { LiveAnnouncerService } from '../../../services/live-announcer.service';
+import { LocaleService } from '../../../services/locale.service';
+import { SLUG_PATTERN } from '../../../services/catalog';
+import { ADMIN_ID_PARAM, ADMIN_PATH } from '../../../app.routes';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+import { AdminImageFieldComponent } from '../admin-image-field/admin-image-field.component';
+import { priceRangeValidator } from '../admin.validators';
+
+/**
+ * Add or edit a commissionable service and its packages
+ * Add-ons and translations aren't edited here and are kept as they are
+ */
+@Component({
+  selector: 'app-admin-service-editor',
+  standalone: true,
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe, AdminImageFieldComponent],
+  templateUrl: './admin-service-editor.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminServiceEditorComponent {
+  private fb = inject(FormBuilder);
+  private router = inject(Router);
+  private contentService = inject(AdminContentService);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+  private locale = inject(LocaleService);
+
+  private readonly editId = inject(ActivatedRoute).snapshot.paramMap.get(ADMIN_ID_PARAM);
+
+  /** Service being edited; undefined when adding one, or when the id is unknown */
+  readonly service = this.editId ? this.contentService.find('services', this.editId) : undefined;
+  readonly isNew = !this.editId;
+  readonly listLink = ['/', ADMIN_PATH, 'services'];
+
+  form = this.fb.nonNullable.group({
+    id: ['', [Validators.required, Validators.pattern(SLUG_PATTERN)]],
+    title: ['', Validators.required],
+    description: ['', Validators.required],
+    image: ['', Validators.required],
+    alt: ['', Validators.required],
+    hidden: [false],
+    packages: this.fb.array([this.packageGroup()], Validators.required)
+  });
+
+  status: 'idle' | 'saving' | 'error' = 'idle';
+  /** Problems reported by the API, listed above the save button */
+  serverIssues: string[] = [];
+
+  constructor() {
+    const service = this.service;
+    if (service) {
+      this.form.controls.packages.clear();
+      service.packages.forEach(pkg => this.form.controls.packages.push(this.packageGroup(pkg)));
+      this.form.patchValue({
+        id: service.id,
+        title: service.title,
+        description: service.description,
+        image: service.image,
+        alt: service.alt,
+        hidden: !!service.hidden
+      });
+      // ids are referenced by commissions and testimonials, so they stay fixed
+      this.form.controls.id.disable();
+    }
+  }
+
+  get packages() {
+    return this.form.controls.packages;
+  }
+
+  addPackage(): void {
+    this.packages.push(this.packageGroup());
+  }
+
+  /**
+   * Remove a package; a service keeps at least one
+   * @param index - Position in the packages list
+   */
+  removePackage(index: number): void {
+    if (this.packages.length > 1) {
+      this.packages.removeAt(index);
+    }
+  }
+
+  /**
+   * Use a freshly uploaded image
+   * @param image - Upload result
+   */
+  onImageUploaded(image: UploadedImage): void {
+    this.form.controls.image.setValue(image.path);
+    this.form.controls.image.markAsTouched();
+  }
+
+  /**
+   * True when a control should show its errors
+   * @param name - Form control name
+   */
+  showErrors(name: keyof typeof this.form.controls): boolean {
+    const control = this.form.controls[name];
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  /**
+   * True when a package field should show its errors
+   * @param index - Position in the packages list
+   * @param name - Control name within the package, or null for the group's own errors
+   */
+  showPackageErrors(index: number, name: 'id' | 'label' | 'min' | 'max' | null): boolean {
+    const group = this.packages.at(index);
+    const control = name ? group.controls[name] : group;
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  /**
+   * Validate and save the service, then return to the list
+   */
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    const service: ServiceOffering = {
+      addOns: [],
+      ...this.service,
+      id: value.id,
+      title: value.title.trim(),
+      description: value.description.trim(),
+      image: value.image,
+      alt: value.alt.trim(),
+      hidden: value.hidden,
+      packages: value.packages.map(pkg => ({
+        id: pkg.id,
+        label: pkg.label.trim(),
+        price: { min: Number(pkg.min), max: Number(pkg.max) }
+      }))
+    };
+
+    this.status = 'saving';
+    this.serverIssues = [];
+    this.contentService.save('services', service, this.isNew).subscribe({
+      next: saved => {
+        this.liveAnnouncer.announce(this.locale.translate('admin.editor.saved', { title: saved.title }));
+        this.router.navigate(this.listLink);
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Saving the service failed:', err);
+        this.status = 'error';
+        if (err.status === 409) {
+          this.form.controls.id.setErrors({ taken: true });
+        }
+        this.serverIssues = err.error?.issues ?? [];
+      }
+    });
+  }
+
+  private packageGroup(pkg?: ServicePackage) {
+    return this.fb.nonNullable.group({
+      id: [pkg?.id ?? '', [Validators.required, Validators.pattern(SLUG_PATTERN)]],
+      label: [pkg?.label ?? '', Validators.required],
+      min: [pkg?.price.min ?? 0, [Validators.required, Validators.min(0)]],
+      max: [pkg?.price.max ?? 0, [Validators.required, Validators.min(0)]]
+    }, { validators: priceRangeValidator });
+  }
+}
@@ -0,0 +1,50 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { Router, RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { AdminAuthService } from '../../../services/admin-auth.service';
+import { AdminContentService } from '../../../services/admin-content.service';
+import { ADMIN_PATH } from '../../../app.routes';
+import { TranslatePipe } from '../../../i18n/translate.pipe';
+
+/**
+ * Admin layout: section navigation and sign-out around the admin pages
+ * Loads the content once so every page works from the same copy
+ */
+@Component({
+  selector: 'app-admin-shell',
+  standalone: true,
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, TranslatePipe],
+  templateUrl: './admin-shell.component.html',
+  styleUrls: ['../admin.css']
+})
+export class AdminShellComponent implements OnInit {
+  private auth = inject(AdminAuthService);
+  private router = inject(Router);
+  private contentService = inject(AdminContentService);
+
+  /** Loaded content; pages render once it arrives */
+  readonly content = this.contentService.content;
+
+  loadError = false;
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  /**
+   * Fetch the content, e.g. again after a failed attempt
+   */
+  load(): void {
+    this.loadError = false;
+    this.contentService.load().subscribe({
+      error: err => {
+        console.error('Loading admin content failed:', err);
+        this.loadError = true;
+      }
+    });
+  }
+
+  logout(): void {
+    this.auth.logout();
+    this.router.navigate(['/', ADMIN_PATH, 'login']);
+  }
+}
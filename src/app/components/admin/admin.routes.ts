@@ -0,0 +1,34 @@
+import { Routes } from '@angular/router';
+import { adminAuthGuard } from '../../services/admin-auth.service';
+import { ContentKind } from '../../models/admin.model';
+import { ADMIN_ID_PARAM } from '../../app.routes';
+import { AdminLoginComponent } from './admin-login/admin-login.component';
+import { AdminShellComponent } from './admin-shell/admin-shell.component';
+import { AdminListComponent } from './admin-list/admin-list.component';
+import { AdminArtworkEditorComponent } from './admin-artwork-editor/admin-artwork-editor.component';
+import { AdminServiceEditorComponent } from './admin-service-editor/admin-service-editor.component';
+import { AdminBundleComponent } from './admin-bundle/admin-bundle.component';
+
+/**
+ * Admin area, lazy loaded under /admin
+ * Everything but the login page needs a signed-in session; list screens get their
+ * collection from the route's "kind" data
+ */
+export const ADMIN_ROUTES: Routes = [
+  { path: 'login', component: AdminLoginComponent },
+  {
+    path: '',
+    component: AdminShellComponent,
+    canActivate: [adminAuthGuard],
+    children: [
+      { path: '', pathMatch: 'full', redirectTo: 'artworks' },
+      { path: 'artworks', component: AdminListComponent, data: { kind: 'artworks' satisfies ContentKind } },
+      { path: 'artworks/new', component: AdminArtworkEditorComponent },
+      { path: `artworks/:${ADMIN_ID_PARAM}`, component: AdminArtworkEditorComponent },
+      { path: 'services', component: AdminListComponent, data: { kind: 'services' satisfies ContentKind } },
+      { path: 'services/new', component: AdminServiceEditorComponent },
+      { path: `services/:${ADMIN_ID_PARAM}`, component: AdminServiceEditorComponent },
+      { path: 'bundle', component: AdminBundleComponent }
+    ]
+  }
+];
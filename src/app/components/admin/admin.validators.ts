@@ -0,0 +1,27 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Split a comma-separated tag field into tags: trimmed, lowercased and without repeats
+ * @param value - Text as typed, e.g. "Fan Art, chibi"
+ */
+export function parseTags(value: string): string[] {
+  const tags = value.split(',').map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Require at least one tag in a comma-separated tag field
+ */
+export const tagListValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null =>
+  parseTags(control.value ?? '').length ? null : { required: true };
+
+/**
+ * Reject package prices whose minimum is above the maximum
+ * Applied to a group with "min" and "max" controls; empty values are left to Validators.required
+ */
+export const priceRangeValidator: ValidatorFn = (group: AbstractControl): ValidationErrors | null => {
+  const min = group.get('min')?.value;
+  const max = group.get('max')?.value;
+  if (min === null || max === null || min === '' || max === '') return null;
+  return Number(min) > Number(max) ? { priceRange: true } : null;
+};
@@ -0,0 +1,133 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Artwork, ArtworkStage, ArtworkStageKind } from '../../models/artwork.model';
+import { ResponsiveImage } from '../../models/responsive-image.model';
+import { GALLERY_PATH } from '../../app.routes';
+import { compareStageIndex, processStages } from '../../services/artwork-process';
+import { PREVIEW_MAX_WIDTH, modalVariantWidth } from '../../services/artwork-protection';
+import { relatedArtworks } from '../../services/gallery-filter';
+import { renderMarkdown } from '../../services/markdown';
+import { variantUrl } from '../../services/responsive-image.service';
+import { LocaleService } from '../../services/locale.service';
+import { MessageKey } from '../../i18n/messages.en';
+import { ProtectedImageDirective } from '../../directives/protected-image.directive';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+import { CompareImage, CompareSliderComponent } from '../compare-slider/compare-slider.component';
+import { TimelapsePlayerComponent } from '../timelapse-player/timelapse-player.component';
+
+/**
+ * Message key naming each process stage
+ */
+export const STAGE_LABEL_KEYS: Record<ArtworkStageKind, MessageKey> = {
+  sketch: 'detail.stage.sketch',
+  lineart: 'detail.stage.lineart',
+  flats: 'detail.stage.flats',
+  final: 'detail.stage.final',
+  crop: 'detail.stage.crop'
+};
+
+/**
+ * Artwork detail
+ * Making-of material under the image in the gallery modal: a stepper through the process
+ * stages, a before/after slider, the timelapse, notes with tools, canvas size and time spent,
+ * and related pieces by shared tags. Each part only shows when the catalog has data for it
+ * Stage images of protected artworks are drawn to watermarked canvases like the artwork itself
+ */
+@Component({
+  selector: 'app-artwork-detail',
+  standalone: true,
+  imports: [CommonModule, ProtectedImageDirective, TranslatePipe, CompareSliderComponent, TimelapsePlayerComponent],
+  templateUrl: './artwork-detail.component.html',
+  styleUrls: ['./artwork-detail.component.css']
+})
+export class ArtworkDetailComponent {
+  private localeService = inject(LocaleService);
+
+  // inputs
+  /** Artwork in the active language */
+  artwork = input.required<Artwork>();
+  /** Gallery artworks in the active language, to suggest related ones from */
+  artworks = input<Artwork[]>([]);
+  /** Generated variants by source path, from ResponsiveImageService */
+  responsiveImages = input<Map<string, ResponsiveImage>>(new Map());
+
+  // outputs
+  /** Visitor picked a related artwork */
+  artworkSelected = output<string>();
+
+  readonly galleryPath = GALLERY_PATH;
+
+  readonly stages = computed(() => processStages(this.artwork()));
+
+  /** Index of the stage shown in the stepper */
+  readonly stageIndex = signal(0);
+
+  readonly currentStage = computed(() => this.stages()[this.stageIndex()]);
+
+  /** Work-in-progress stage on the "before" side of the slider and the final image on the other */
+  readonly comparison = computed<{ before: CompareImage; after: CompareImage } | null>(() => {
+    const stages = this.stages();
+    const before = stages[compareStageIndex(stages, this.stageIndex())];
+    const after = stages.find(stage => stage.kind === 'final');
+    return before && after ? { before: this.compareImage(before), after: this.compareImage(after) } : null;
+  });
+
+  readonly notesHtml = computed(() => {
+    const notes = this.artwork().process?.notes;
+    return notes ? renderMarkdown(notes) : '';
+  });
+
+  /** Working canvas, falling back to the exported size */
+  readonly canvas = computed(() => this.artwork().process?.canvas ?? this.artwork().dimensions);
+
+  readonly related = computed(() => relatedArtworks(this.artworks(), this.artwork()));
+
+  /** Widest a protected stage canvas may draw */
+  readonly maxWidth = computed(() => (this.artwork().downloadable ? Infinity : PREVIEW_MAX_WIDTH));
+
+  /**
+   * Show a stage in the stepper
+   * @param index - Position in stages(), clamped to the ends
+   */
+  selectStage(index: number): void {
+    this.stageIndex.set(Math.max(0, Math.min(index, this.stages().length - 1)));
+  }
+
+  stageLabel(stage: ArtworkStage): string {
+    return this.localeService.translate(STAGE_LABEL_KEYS[stage.kind]);
+  }
+
+  stageAlt(stage: ArtworkStage): string {
+    return stage.alt ?? this.localeService.translate('detail.stageAlt', { alt: this.artwork().alt, stage: this.stageLabel(stage) });
+  }
+
+  /**
+   * URL a stage image loads from
+   * Uses the same variant as the modal image when one was generated; otherwise the original
+   */
+  imageUrl(src: string): string {
+    const responsive = this.responsiveImages().get(src);
+    return responsive ? variantUrl(src, modalVariantWidth(this.artwork(), responsive.widths), 'webp') : src;
+  }
+
+  /**
+   * Smallest variant of a related artwork's thumbnail
+   */
+  thumbnailUrl(artwork: Artwork): string {
+    const src = artwork.sources.thumbnail ?? artwork.sources.full;
+    const responsive = this.responsiveImages().get(src);
+    return responsive ? variantUrl(src, responsive.smallestWidth, 'webp') : src;
+  }
+
+  /**
+   * Open a related artwork in the modal instead of following the link's href
+   */
+  openArtwork(event: Event, artworkId: string): void {
+    event.preventDefault();
+    this.artworkSelected.emit(artworkId);
+  }
+
+  private compareImage(stage: ArtworkStage): CompareImage {
+    return { src: this.imageUrl(stage.src), alt: this.stageAlt(stage), label: this.stageLabel(stage) };
+  }
+}
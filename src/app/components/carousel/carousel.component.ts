@@ -0,0 +1,163 @@
+import {
+  Component, OnDestroy, OnInit, PLATFORM_ID, TemplateRef, contentChild, effect, inject, input, model, signal, untracked
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { MotionPreferencesService } from '../../services/motion-preferences.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Context handed to the slide template
+ */
+export interface CarouselSlideContext<T> {
+  $implicit: T;
+  index: number;
+}
+
+/**
+ * Carousel
+ * Slides one item at a time with arrows, dots and auto-play. Auto-play stops while motion is
+ * reduced and resumes afterwards unless the visitor paused it themselves
+ * Slides are rendered from the projected template:
+ * <app-carousel [items]="services" [(index)]="current">
+ *   <ng-template let-service>...</ng-template>
+ * </app-carousel>
+ */
+@Component({
+  selector: 'app-carousel',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './carousel.component.html',
+  styleUrls: ['./carousel.component.css']
+})
+export class CarouselComponent<T> implements OnInit, OnDestroy {
+  // inputs
+  items = input.required<T[]>();
+  /** Accessible name of the carousel */
+  label = input.required<string>();
+  /** Name of a slide for its dot, e.g. the service title */
+  slideTitle = input<(item: T, index: number) => string>((_item, index) => `${index + 1}`);
+  /** Milliseconds between auto-play steps */
+  interval = input(4000);
+
+  // two-way binding
+  /** Index of the visible slide */
+  index = model(0);
+
+  // content
+  slideTemplate = contentChild.required<TemplateRef<CarouselSlideContext<T>>>(TemplateRef);
+
+  // services
+  private motionPreferences = inject(MotionPreferencesService);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  readonly isAutoPlay = signal(true);
+
+  /**
+   * True when auto-play was stopped by the reduced-motion preference rather than the visitor
+   */
+  private autoPlayPausedForMotion = false;
+  private autoPlayInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    effect(() => this.applyReducedMotion(this.motionPreferences.reducedMotion()));
+    // filtering can shrink the list under the visible slide
+    effect(() => {
+      const count = this.items().length;
+      if (untracked(this.index) >= count) {
+        this.index.set(0);
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    if (this.motionPreferences.reducedMotion()) {
+      this.isAutoPlay.set(false);
+      this.autoPlayPausedForMotion = true;
+    }
+    this.startAutoPlay();
+  }
+
+  ngOnDestroy(): void {
+    this.stopAutoPlay();
+  }
+
+  /**
+   * Show a specific slide
+   * @param index - Index of the slide
+   */
+  goTo(index: number): void {
+    this.index.set(index);
+    this.resetAutoPlay();
+  }
+
+  previous(): void {
+    const count = this.items().length;
+    this.goTo(this.index() > 0 ? this.index() - 1 : count - 1);
+  }
+
+  next(): void {
+    const count = this.items().length;
+    this.goTo(this.index() < count - 1 ? this.index() + 1 : 0);
+  }
+
+  /**
+   * Stop auto-play so the carousel doesn't move while the visitor is using something tied to it
+   */
+  pause(): void {
+    if (this.isAutoPlay()) {
+      this.toggleAutoPlay();
+    }
+  }
+
+  toggleAutoPlay(): void {
+    this.autoPlayPausedForMotion = false;
+    this.setAutoPlay(!this.isAutoPlay());
+  }
+
+  /**
+   * Follow the reduced-motion preference without overriding a visitor's own pause
+   * @param reduced - Whether motion is currently reduced
+   */
+  private applyReducedMotion(reduced: boolean): void {
+    if (reduced && untracked(this.isAutoPlay)) {
+      this.autoPlayPausedForMotion = true;
+      this.setAutoPlay(false);
+    } else if (!reduced && this.autoPlayPausedForMotion) {
+      this.autoPlayPausedForMotion = false;
+      this.setAutoPlay(true);
+    }
+  }
+
+  private setAutoPlay(enabled: boolean): void {
+    this.isAutoPlay.set(enabled);
+    if (enabled) {
+      this.resetAutoPlay();
+    } else {
+      this.stopAutoPlay();
+    }
+  }
+
+  /**
+   * Never runs on the server, where a pending interval would keep prerendering from finishing
+   */
+  private startAutoPlay(): void {
+    if (this.isAutoPlay() && this.isBrowser && !this.autoPlayInterval) {
+      this.autoPlayInterval = setInterval(() => this.next(), this.interval());
+    }
+  }
+
+  /**
+   * Restart the timer so a manual step gets the full interval
+   */
+  private resetAutoPlay(): void {
+    this.stopAutoPlay();
+    this.startAutoPlay();
+  }
+
+  private stopAutoPlay(): void {
+    if (this.autoPlayInterval) {
+      clearInterval(this.autoPlayInterval);
+      this.autoPlayInterval = null;
+    }
+  }
+}
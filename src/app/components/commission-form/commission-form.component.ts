@@ -0,0 +1,235 @@
+import { Component, effect, inject, input, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ServiceOffering, ServicePackage } from '../../models/service.model';
+import { CommissionReceipt } from '../../models/commission.model';
+import { CommissionService } from '../../services/commission.service';
+import { PricingService } from '../../services/pricing.service';
+import { AnalyticsService } from '../../services/analytics.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+import { QuoteEstimate } from '../../models/pricing.model';
+import {
+  MAX_REFERENCE_BYTES, MAX_REFERENCE_FILES, futureDateValidator, referenceFilesValidator
+} from './commission-form.validators';
+
+/**
+ * Commission request form
+ * Collects service, package, quantity, brief, reference images, deadline and contact email
+ * and submits them through CommissionService
+ */
+@Component({
+  selector: 'app-commission-form',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './commission-form.component.html',
+  styleUrls: ['./commission-form.component.css']
+})
+export class CommissionFormComponent {
+  // inputs
+  services = input.required<ServiceOffering[]>();
+  /** Service to preselect, e.g. from a "Commission this" button on a service panel */
+  serviceId = input<string | null>(null);
+  /** Estimate handed over from the quote estimator */
+  quote = input<QuoteEstimate | null>(null);
+
+  // services
+  private fb = inject(FormBuilder);
+  private commissionService = inject(CommissionService);
+  private pricing = inject(PricingService);
+  private analytics = inject(AnalyticsService);
+
+  readonly maxFiles = MAX_REFERENCE_FILES;
+  readonly maxFileMb = MAX_REFERENCE_BYTES / (1024 * 1024);
+
+  form = this.fb.nonNullable.group({
+    serviceId: ['', Validators.required],
+    packageId: ['', Validators.required],
+    quantity: [1, [Validators.required, Validators.min(1), Validators.max(50), Validators.pattern(/^\d+$/)]],
+    description: ['', [Validators.required, Validators.minLength(20), Validators.maxLength(2000)]],
+    references: this.fb.nonNullable.control<File[]>([], referenceFilesValidator),
+    deadline: ['', futureDateValidator],
+    email: ['', [Validators.required, Validators.email]]
+  });
+
+  status: 'idle' | 'submitting' | 'success' | 'error' = 'idle';
+  receipt: CommissionReceipt | null = null;
+  /** Message from the backend; the template falls back to a translated generic error */
+  submitError: string | null = null;
+
+  /**
+   * Estimate attached to this request; dropped once the order no longer matches it
+   */
+  attachedQuote: QuoteEstimate | null = null;
+
+  /**
+   * True once the visitor has edited this request, so it's counted as started only once
+   */
+  private started = false;
+
+  constructor() {
+    // preselect the requested service whenever the input changes
+    effect(() => {
+      const id = this.serviceId();
+      if (id) {
+        untracked(() => this.selectService(id));
+      }
+    });
+
+    // prefill from the estimator and keep the estimate with the request
+    effect(() => {
+      const quote = this.quote();
+      if (quote) {
+        untracked(() => this.applyQuote(quote));
+      }
+    });
+
+    // a package only makes sense for the service it belongs to
+    this.form.controls.serviceId.valueChanges.subscribe(() => {
+      this.form.controls.packageId.reset('');
+    });
+
+    // editing the order invalidates the estimate it came with
+    this.form.valueChanges.subscribe(value => {
+      const quote = this.attachedQuote;
+      if (quote && (value.serviceId !== quote.serviceId ||
+          value.packageId !== quote.packageId ||
+          Number(value.quantity) !== quote.quantity)) {
+        this.attachedQuote = null;
+      }
+    });
+
+    // only the visitor's own edits count; preselecting a service or applying a quote doesn't
+    this.form.valueChanges.subscribe(value => {
+      if (!this.started && this.form.dirty) {
+        this.started = true;
+        this.analytics.track({ type: 'commission-started', serviceId: value.serviceId || null });
+      }
+    });
+  }
+
+  /**
+   * Packages offered by the currently selected service
+   */
+  get packages(): ServicePackage[] {
+    const id = this.form.controls.serviceId.value;
+    return this.services().find(service => service.id === id)?.packages ?? [];
+  }
+
+  /**
+   * Select a service in the form
+   * @param id - Service id from the services array
+   */
+  selectService(id: string): void {
+    if (this.services().some(service => service.id === id)) {
+      this.form.controls.serviceId.setValue(id);
+    }
+  }
+
+  /**
+   * Formatted range of the attached estimate, e.g. "$60 – $100"
+   */
+  get quoteLabel(): string | null {
+    const quote = this.attachedQuote;
+    return quote ? this.pricing.formatRange(quote.range, quote.currency) : null;
+  }
+
+  /**
+   * Add-on labels of the attached estimate
+   */
+  get quoteAddOns(): string[] {
+    const quote = this.attachedQuote;
+    const service = this.services().find(s => s.id === quote?.serviceId);
+    return service?.addOns.filter(a => quote!.addOnIds.includes(a.id)).map(a => a.label) ?? [];
+  }
+
+  /**
+   * Prefill service, package and quantity from an estimate
+   * @param quote - Estimate from the quote estimator
+   */
+  applyQuote(quote: QuoteEstimate): void {
+    this.attachedQuote = null;
+    this.selectService(quote.serviceId);
+    this.form.patchValue({ packageId: quote.packageId, quantity: quote.quantity });
+    this.attachedQuote = quote;
+  }
+
+  /**
+   * Detach the estimate without touching the rest of the form
+   */
+  clearQuote(): void {
+    this.attachedQuote = null;
+  }
+
+  /**
+   * Copy the chosen files from the file input into the form
+   * @param event - Change event of the file input
+   */
+  onReferencesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const control = this.form.controls.references;
+    control.setValue(Array.from(input.files ?? []));
+    control.markAsTouched();
+  }
+
+  /**
+   * Remove one selected reference image
+   * @param index - Position in the references list
+   */
+  removeReference(index: number): void {
+    const control = this.form.controls.references;
+    control.setValue(control.value.filter((_, i) => i !== index));
+  }
+
+  /**
+   * True when a control should show its errors
+   * @param name - Form control name
+   */
+  showErrors(name: keyof typeof this.form.controls): boolean {
+    const control = this.form.controls[name];
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  /**
+   * Validate and submit the request
+   */
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    this.status = 'submitting';
+    this.submitError = null;
+
+    this.commissionService.submit({
+      ...value,
+      quantity: Number(value.quantity),
+      description: value.description.trim(),
+      deadline: value.deadline || null,
+      quote: this.attachedQuote
+    }).subscribe({
+      next: receipt => {
+        this.receipt = receipt;
+        this.status = 'success';
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Commission submission failed:', err);
+        this.submitError = err.error?.message ?? null;
+        this.status = 'error';
+      }
+    });
+  }
+
+  /**
+   * Clear the form to send another request
+   */
+  startOver(): void {
+    this.form.reset();
+    this.started = false;
+    this.attachedQuote = null;
+    this.receipt = null;
+    this.status = 'idle';
+  }
+}
@@ -0,0 +1,47 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/**
+ * Upload limits for reference images
+ */
+export const MAX_REFERENCE_FILES = 5;
+export const MAX_REFERENCE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Reject deadlines before today (dates compared as YYYY-MM-DD in local time)
+ * Empty values pass; combine with Validators.required when a deadline is mandatory
+ */
+export const futureDateValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const value: string | null = control.value;
+  if (!value) return null;
+
+  const now = new Date();
+  const today = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  ].join('-');
+
+  return value < today ? { pastDate: true } : null;
+};
+
+/**
+ * Validate a list of reference uploads: image types only, count and size limits
+ */
+export const referenceFilesValidator: ValidatorFn = (control: AbstractControl): ValidationErrors | null => {
+  const files: File[] = control.value ?? [];
+  const errors: ValidationErrors = {};
+
+  if (files.length > MAX_REFERENCE_FILES) {
+    errors['tooManyFiles'] = { max: MAX_REFERENCE_FILES, actual: files.length };
+  }
+  const notImages = files.filter(file => !file.type.startsWith('image/'));
+  if (notImages.length) {
+    errors['fileType'] = { files: notImages.map(file => file.name) };
+  }
+  const tooLarge = files.filter(file => file.size > MAX_REFERENCE_BYTES);
+  if (tooLarge.length) {
+    errors['fileSize'] = { files: tooLarge.map(file => file.name) };
+  }
+
+  return Object.keys(errors).length ? errors : null;
+};
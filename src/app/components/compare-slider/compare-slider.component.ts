@@ -0,0 +1,44 @@
+import { Component, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ArtworkWatermark } from '../../models/artwork.model';
+import { ProtectedImageDirective } from '../../directives/protected-image.directive';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * One side of the comparison
+ */
+export interface CompareImage {
+  src: string;
+  alt: string;
+  /** Shown in the corner of its side, e.g. "Sketch" */
+  label: string;
+}
+
+/**
+ * Before/after slider
+ * Stacks two same-sized images and reveals the "before" one up to the handle; a native range
+ * input drives the handle, so it works with arrow keys and screen readers out of the box
+ */
+@Component({
+  selector: 'app-compare-slider',
+  standalone: true,
+  imports: [CommonModule, ProtectedImageDirective, TranslatePipe],
+  templateUrl: './compare-slider.component.html',
+  styleUrls: ['./compare-slider.component.css']
+})
+export class CompareSliderComponent {
+  // inputs
+  before = input.required<CompareImage>();
+  after = input.required<CompareImage>();
+  /** Draw both images to watermarked canvases, as for protected artworks */
+  watermark = input<ArtworkWatermark | undefined>(undefined);
+  /** Widest the protected canvases may draw */
+  maxWidth = input<number>(Infinity);
+
+  /** Percentage of the width showing the "before" image */
+  readonly position = signal(50);
+
+  onInput(event: Event): void {
+    this.position.set(Number((event.target as HTMLInputElement).value));
+  }
+}
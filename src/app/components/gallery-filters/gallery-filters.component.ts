@@ -0,0 +1,66 @@
+import { Component, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { GalleryFilter, GallerySort } from '../../models/artwork.model';
+import { GALLERY_SORT_OPTIONS, formatTag } from '../../services/gallery-filter';
+import { LocaleService } from '../../services/locale.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Gallery toolbar with tag chips, free-text search and sort order
+ * Stateless: renders the filter it is given and emits a new one on every change
+ */
+@Component({
+  selector: 'app-gallery-filters',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe],
+  templateUrl: './gallery-filters.component.html',
+  styleUrls: ['./gallery-filters.component.css']
+})
+export class GalleryFiltersComponent {
+  // inputs
+  tags = input.required<string[]>();
+  filter = input.required<GalleryFilter>();
+  resultCount = input(0);
+
+  // outputs
+  filterChange = output<GalleryFilter>();
+
+  // services
+  private locale = inject(LocaleService);
+
+  readonly sortOptions = GALLERY_SORT_OPTIONS;
+
+  /**
+   * Chip label for a tag: its translation when there is one, otherwise the formatted slug
+   * @param tag - Tag slug from the catalog
+   */
+  tagLabel(tag: string): string {
+    return this.locale.lookup(`gallery.tag.${tag}`) ?? formatTag(tag);
+  }
+
+  /**
+   * Toggle a tag chip; selecting the active tag clears it
+   * @param tag - Tag slug, or null for "All"
+   */
+  selectTag(tag: string | null): void {
+    const current = this.filter().tag;
+    this.filterChange.emit({ ...this.filter(), tag: tag === current ? null : tag });
+  }
+
+  /**
+   * Update the free-text search
+   * @param query - Raw search text
+   */
+  onQueryChange(query: string): void {
+    this.filterChange.emit({ ...this.filter(), query });
+  }
+
+  /**
+   * Update the sort order
+   * @param sort - Selected sort option
+   */
+  onSortChange(sort: GallerySort): void {
+    this.filterChange.emit({ ...this.filter(), sort });
+  }
+}
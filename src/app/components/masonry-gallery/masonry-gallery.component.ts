@@ -0,0 +1,238 @@
+import {
+  AfterViewInit, Component, ElementRef, NgZone, OnDestroy, PLATFORM_ID, ViewChild, computed, effect, inject, input,
+  output, signal, untracked
+} from '@angular/core';
+import { CommonModule, DOCUMENT, NgOptimizedImage, isPlatformBrowser } from '@angular/common';
+import { Artwork } from '../../models/artwork.model';
+import { ResponsiveImage } from '../../models/responsive-image.model';
+import {
+  MASONRY_GAP, MasonryPlacement, masonryColumnWidth, masonryColumns, masonryHeight, masonryLayout, placementBounds
+} from '../../services/masonry-layout';
+import { LiveAnnouncerService } from '../../services/live-announcer.service';
+import { LocaleService } from '../../services/locale.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Artworks revealed per page of infinite scroll
+ */
+export const GALLERY_PAGE_SIZE = 12;
+
+/**
+ * Gallery width assumed until the real one is measured, e.g. when prerendering (three columns)
+ */
+const DEFAULT_WIDTH = 1160;
+
+/**
+ * Tiles within this distance of the viewport stay rendered, in viewport heights
+ */
+const OVERSCAN = 1;
+
+/**
+ * The next page loads once the end of the gallery is this close to the bottom of the viewport (px)
+ */
+const LOAD_AHEAD = 800;
+
+/**
+ * An artwork with its place in the masonry
+ */
+interface MasonryTile {
+  artwork: Artwork;
+  placement: MasonryPlacement;
+}
+
+/**
+ * Masonry gallery
+ * Lays artworks out in columns at their own aspect ratio, reveals them a page at a time as the
+ * visitor scrolls towards the end, and only renders tiles near the viewport
+ * Tiles are absolutely positioned in units of the column width, so the prerendered page already
+ * has the final geometry; each reserves its space with a skeleton until the image arrives
+ */
+@Component({
+  selector: 'app-masonry-gallery',
+  standalone: true,
+  imports: [CommonModule, NgOptimizedImage, TranslatePipe],
+  templateUrl: './masonry-gallery.component.html',
+  styleUrls: ['./masonry-gallery.component.css']
+})
+export class MasonryGalleryComponent implements AfterViewInit, OnDestroy {
+  // inputs
+  /** Artworks to show, in display order */
+  artworks = input.required<Artwork[]>();
+  /** Generated variants by source path, from ResponsiveImageService */
+  responsiveImages = input<Map<string, ResponsiveImage>>(new Map());
+
+  // outputs
+  /** Visitor wants to open an artwork in the modal */
+  artworkSelected = output<string>();
+
+  @ViewChild('masonry', { static: true }) masonry!: ElementRef<HTMLElement>;
+
+  // services
+  private document = inject(DOCUMENT);
+  private zone = inject(NgZone);
+  private liveAnnouncer = inject(LiveAnnouncerService);
+  private localeService = inject(LocaleService);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  readonly gap = MASONRY_GAP;
+
+  /** Pages of artworks revealed so far */
+  private pages = signal(1);
+  /** Inner width of the gallery; null until measured in the browser */
+  private width = signal<number | null>(null);
+  /** Rendered band in px from the top of the gallery; null renders every revealed tile */
+  private band = signal<{ top: number; bottom: number } | null>(null);
+  /** Artworks whose image has loaded, so their skeleton can go */
+  private loaded = signal(new Set<string>());
+
+  private resizeObserver: ResizeObserver | null = null;
+  private frame = 0;
+
+  readonly shownCount = computed(() => Math.min(this.pages() * GALLERY_PAGE_SIZE, this.artworks().length));
+
+  readonly hasMore = computed(() => this.shownCount() < this.artworks().length);
+
+  private columnWidth = computed(() => {
+    const width = this.width() ?? DEFAULT_WIDTH;
+    return masonryColumnWidth(width, masonryColumns(width));
+  });
+
+  readonly layout = computed(() => {
+    const width = this.width() ?? DEFAULT_WIDTH;
+    const ratios = this.artworks()
+      .slice(0, this.shownCount())
+      .map(artwork => artwork.dimensions.height / artwork.dimensions.width);
+    return masonryLayout(ratios, masonryColumns(width), this.columnWidth());
+  });
+
+  /**
+   * Height of the tallest column as a CSS length, so it follows the container width like the tiles
+   */
+  readonly height = computed(() => {
+    const columns = this.layout().columnHeights.filter(height => height.rows > 0);
+    if (!columns.length) return '0px';
+    return `max(${columns
+      .map(height => `calc(var(--column-width) * ${height.units} + var(--gap) * ${height.rows - 1})`)
+      .join(', ')})`;
+  });
+
+  /** Revealed tiles within the rendered band */
+  readonly tiles = computed<MasonryTile[]>(() => {
+    const band = this.band();
+    const columnWidth = this.columnWidth();
+    return this.layout().placements
+      .map((placement, index) => ({ artwork: this.artworks()[index], placement }))
+      .filter(({ placement }) => {
+        if (!band) return true;
+        const { top, bottom } = placementBounds(placement, columnWidth);
+        return bottom >= band.top && top <= band.bottom;
+      });
+  });
+
+  private onScroll = () => this.scheduleUpdate();
+
+  constructor() {
+    // a new filter or sort starts from the first page again; a language switch keeps the same pieces
+    const ids = computed(() => this.artworks().map(artwork => artwork.id).join());
+    effect(() => {
+      ids();
+      untracked(() => this.pages.set(1));
+    });
+  }
+
+  ngAfterViewInit(): void {
+    if (!this.isBrowser) return;
+
+    this.zone.runOutsideAngular(() => {
+      this.document.defaultView!.addEventListener('scroll', this.onScroll, { passive: true });
+      if (typeof ResizeObserver !== 'undefined') {
+        this.resizeObserver = new ResizeObserver(this.onScroll);
+        this.resizeObserver.observe(this.masonry.nativeElement);
+      }
+    });
+    this.scheduleUpdate();
+  }
+
+  ngOnDestroy(): void {
+    this.document.defaultView?.removeEventListener('scroll', this.onScroll);
+    this.resizeObserver?.disconnect();
+    if (this.frame) {
+      cancelAnimationFrame(this.frame);
+    }
+  }
+
+  /**
+   * Reveal the next page of artworks
+   * @param announce - Tell screen reader users how many are shown now, when they asked for more
+   */
+  showMore(announce = false): void {
+    if (!this.hasMore()) return;
+
+    this.pages.update(pages => pages + 1);
+    if (announce) {
+      this.liveAnnouncer.announce(this.localeService.translate('gallery.showing', {
+        shown: this.shownCount(), total: this.artworks().length
+      }));
+    }
+    this.scheduleUpdate();
+  }
+
+  isLoaded(artwork: Artwork): boolean {
+    return this.loaded().has(artwork.id);
+  }
+
+  onImageLoad(artwork: Artwork): void {
+    this.loaded.update(loaded => new Set(loaded).add(artwork.id));
+  }
+
+  open(artwork: Artwork): void {
+    this.artworkSelected.emit(artwork.id);
+  }
+
+  /**
+   * Measure on the next frame, at most once per frame
+   */
+  private scheduleUpdate(): void {
+    if (!this.isBrowser || this.frame) return;
+
+    this.zone.runOutsideAngular(() => {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = 0;
+        this.update();
+      });
+    });
+  }
+
+  /**
+   * Re-measure the gallery against the viewport: column width, which tiles to render and
+   * whether to reveal the next page. Only re-enters Angular when something changed
+   */
+  private update(): void {
+    const element = this.masonry.nativeElement;
+    const rect = element.getBoundingClientRect();
+    const viewportHeight = this.document.defaultView!.innerHeight;
+    const overscan = viewportHeight * OVERSCAN;
+
+    // snapped to half-viewport steps so scrolling within a step changes nothing
+    const step = Math.max(viewportHeight / 2, 1);
+    const band = {
+      top: Math.floor((-rect.top - overscan) / step) * step,
+      bottom: Math.ceil((viewportHeight - rect.top + overscan) / step) * step
+    };
+    const width = element.clientWidth;
+    const current = this.band();
+    const nearEnd = viewportHeight - rect.bottom + LOAD_AHEAD >= 0 && this.hasMore();
+
+    if (width === this.width() && current?.top === band.top && current.bottom === band.bottom && !nearEnd) {
+      return;
+    }
+
+    this.zone.run(() => {
+      this.width.set(width);
+      this.band.set(band);
+      if (nearEnd) {
+        this.showMore();
+      }
+    });
+  }
+}
@@ -1,30 +1,31 @@
-import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { AfterViewInit, Component, ElementRef, OnDestroy, PLATFORM_ID, ViewChild, inject } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { MotionPreferencesService } from '../../services/motion-preferences.service';
+import { LocaleService } from '../../services/locale.service';
+import { ThemeService } from '../../services/theme.service';
+import { ScrollSpySection, ScrollSpyService } from '../../services/scroll-spy.service';
+import { AnalyticsService } from '../../services/analytics.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+import { isLocaleCode } from '../../i18n/locales';
+
+/**
+ * Space left between the fixed navbar and content scrolled to from it
+ */
+const NAVBAR_GAP = 16;
 
 /**
  * Navigation component that displays the main navigation bar
- * Features: Navigation links with responsive design and simple active text coloring
+ * Features: Links to the sections registered with the scroll-spy, highlighted while they're read
  * Responsive design for mobile and desktop
  */
 @Component({
   selector: 'app-navigation',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, TranslatePipe],
   templateUrl: './navigation.component.html',
   styleUrls: ['./navigation.component.css']
 })
-export class NavigationComponent implements OnInit, OnDestroy {
-  /**
-   * Navigation menu items configuration
-   * Each item contains display text, route path, scroll target, and active state
-   */
-  navigationItems = [
-    { label: 'Home', path: '#home', scrollTarget: 'top', isActive: false },
-    { label: 'Gallery', path: '#gallery', scrollTarget: 'gallery-section', isActive: false },
-    { label: 'Services', path: '#services', scrollTarget: 'services-section', isActive: false },
-    { label: 'About Me', path: '#about-me', scrollTarget: 'about-me-section', isActive: false }
-  ];
-
+export class NavigationComponent implements AfterViewInit, OnDestroy {
   /**
    * Mobile menu toggle state
    * Controls visibility of navigation menu on mobile devices
@@ -32,47 +33,49 @@ export class NavigationComponent implements OnInit, OnDestroy {
   isMobileMenuOpen = false;
 
   /**
-   * Current active section for highlighting navigation
+   * Page sections (one nav link each) and the one being read
    */
-  currentActiveSection = 'top';
+  scrollSpy = inject(ScrollSpyService);
 
   /**
-   * Throttle timer for scroll event optimization
+   * Reduced-motion preference, toggled from the navbar
    */
-  private scrollThrottle: any;
+  motionPreferences = inject(MotionPreferencesService);
 
   /**
-   * Component initialization
-   * Sets up initial active section detection
+   * Site language, chosen from the navbar switcher
    */
-  ngOnInit(): void {
-    // Set initial active section
-    this.updateActiveSection();
-  }
+  localeService = inject(LocaleService);
 
   /**
-   * Component cleanup
+   * Color theme, chosen from the navbar switcher
    */
-  ngOnDestroy(): void {
-    if (this.scrollThrottle) {
-      clearTimeout(this.scrollThrottle);
-    }
+  themeService = inject(ThemeService);
+
+  @ViewChild('navbarBar', { static: true }) navbarBar!: ElementRef<HTMLElement>;
+
+  private analytics = inject(AnalyticsService);
+  private platformId = inject(PLATFORM_ID);
+  private resizeObserver: ResizeObserver | null = null;
+
+  /**
+   * Report the navbar's height to the scroll-spy so scrolled-to sections start below it
+   */
+  ngAfterViewInit(): void {
+    if (!isPlatformBrowser(this.platformId) || typeof ResizeObserver === 'undefined') return;
+
+    const bar = this.navbarBar.nativeElement;
+    this.resizeObserver = new ResizeObserver(() => {
+      this.scrollSpy.setOffset(bar.getBoundingClientRect().bottom + NAVBAR_GAP);
+    });
+    this.resizeObserver.observe(bar);
   }
 
   /**
-   * Handle window scroll events for active section detection
-   * Uses throttling for performance optimization
+   * Component cleanup
    */
-  @HostListener('window:scroll', ['$event'])
-  onWindowScroll(): void {
-    // Throttle scroll events for better performance
-    if (this.scrollThrottle) {
-      clearTimeout(this.scrollThrottle);
-    }
-    
-    this.scrollThrottle = setTimeout(() => {
-      this.updateActiveSection();
-    }, 100);
+  ngOnDestroy(): void {
+    this.resizeObserver?.disconnect();
   }
 
   /**
@@ -84,124 +87,43 @@ export class NavigationComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Handles navigation item clicks
-   * Implements smooth scrolling for all sections
-   * Special handling for Home button to scroll to top
+   * Switch between reduced and full motion (particles, auto-play and transitions)
    */
-  onNavigationClick(item: any, event?: Event): void {
-    console.log('Navigating to:', item.path);
-    
-    event?.preventDefault(); // Prevent default anchor behavior
-    
-    // Special handling for Home button - scroll to very top
-    if (item.scrollTarget === 'top') {
-      window.scrollTo({
-        top: 0,
-        behavior: 'smooth'
-      });
-    } else if (item.scrollTarget) {
-      // Handle other sections
-      this.scrollToSection(item.scrollTarget);
-    }
-    
-    // Close mobile menu if open
-    this.isMobileMenuOpen = false;
-    
-    // Immediately update active state for better UX
-    this.setActiveSection(item.scrollTarget);
+  toggleReducedMotion(): void {
+    this.motionPreferences.toggle();
   }
 
   /**
-   * Scrolls smoothly to a specific section on the page
-   * Enhanced to support multiple section types (class, id, or element)
-   * @param sectionTarget - CSS selector for the target section
+   * Switch the site language (remembered for later visits)
+   * @param locale - Selected language code
    */
-  private scrollToSection(sectionTarget: string): void {
-    // Try different selector approaches
-    let element = document.querySelector(`#${sectionTarget}`);
-    
-    // If ID selector doesn't work, try class selector
-    if (!element) {
-      element = document.querySelector(`.${sectionTarget}`);
-    }
-    
-    // If still not found, try direct element selector
-    if (!element) {
-      element = document.querySelector(sectionTarget);
-    }
-    
-    if (element) {
-      element.scrollIntoView({
-        behavior: 'smooth',
-        block: 'start',
-        inline: 'nearest'
-      });
-    } else {
-      console.warn(`Section with target '${sectionTarget}' not found`);
+  selectLocale(locale: string): void {
+    if (isLocaleCode(locale)) {
+      this.localeService.setLocale(locale);
     }
   }
 
   /**
-   * Updates the active section based on current scroll position
-   * Determines which section is currently in view
+   * Switch the color theme (remembered for later visits)
+   * @param preference - Selected theme id, or 'system'
    */
-  private updateActiveSection(): void {
-    const scrollPosition = window.scrollY;
-    
-    // If at the very top, set Home as active
-    if (scrollPosition < 100) {
-      this.setActiveSection('top');
-      return;
-    }
-
-    const sections = [
-      { id: 'gallery-section', element: document.querySelector('#gallery-section') },
-      { id: 'services-section', element: document.querySelector('#services-section') },
-      { id: 'about-me-section', element: document.querySelector('#about-me-section') }
-    ];
-
-    const viewportMiddle = window.scrollY + window.innerHeight / 2;
-    let activeSection = 'top'; // Default to top
-
-    // Find the section that's currently in view
-    for (const section of sections) {
-      if (section.element) {
-        const rect = section.element.getBoundingClientRect();
-        const elementTop = rect.top + window.scrollY;
-        const elementBottom = elementTop + rect.height;
-
-        if (viewportMiddle >= elementTop && viewportMiddle <= elementBottom) {
-          activeSection = section.id;
-          break;
-        }
-      }
+  selectTheme(preference: string): void {
+    const theme = this.themeService.themes.find(theme => theme.id === preference);
+    if (theme || preference === 'system') {
+      this.themeService.setPreference(theme?.id ?? 'system');
     }
-
-    // Update active section if it changed
-    if (activeSection !== this.currentActiveSection) {
-      this.setActiveSection(activeSection);
-    }
-  }
-
-  /**
-   * Sets the active section and updates navigation item states
-   * @param sectionId - ID of the section to mark as active
-   */
-  private setActiveSection(sectionId: string): void {
-    this.currentActiveSection = sectionId;
-    
-    // Update navigation items active state
-    this.navigationItems.forEach(item => {
-      item.isActive = item.scrollTarget === sectionId;
-    });
   }
 
   /**
-   * Checks if a navigation item is currently active
-   * @param item - Navigation item to check
-   * @returns boolean indicating if the item is active
+   * Handles navigation link clicks
+   * Scrolls to the section (Home to the very top) and closes the mobile menu
+   * @param section - Section the link points at
+   * @param event - Click event; the default jump to the fragment is replaced by scrolling
    */
-  isItemActive(item: any): boolean {
-    return item.isActive;
+  onNavigationClick(section: ScrollSpySection, event?: Event): void {
+    event?.preventDefault();
+    this.analytics.track({ type: 'nav-clicked', sectionId: section.id });
+    this.scrollSpy.scrollTo(section.id);
+    this.isMobileMenuOpen = false;
   }
-}
\ No newline at end of file
+}
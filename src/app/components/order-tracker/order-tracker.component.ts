@@ -0,0 +1,89 @@
+import { Component, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { OrderStage, OrderStatus } from '../../models/commission-status.model';
+import { ServiceOffering } from '../../models/service.model';
+import { CommissionStatusService } from '../../services/commission-status.service';
+import { LocaleService } from '../../services/locale.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+import { MessageKey } from '../../i18n/messages.en';
+
+/**
+ * Production stages shown in the tracker, in order
+ */
+export const ORDER_STAGES: { stage: OrderStage; labelKey: MessageKey }[] = [
+  { stage: 'queued', labelKey: 'tracker.stage.queued' },
+  { stage: 'sketch', labelKey: 'tracker.stage.sketch' },
+  { stage: 'lineart', labelKey: 'tracker.stage.lineart' },
+  { stage: 'color', labelKey: 'tracker.stage.color' },
+  { stage: 'delivered', labelKey: 'tracker.stage.delivered' }
+];
+
+/**
+ * Order tracker
+ * Lets a client enter their commission reference code and see its current stage
+ */
+@Component({
+  selector: 'app-order-tracker',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './order-tracker.component.html',
+  styleUrls: ['./order-tracker.component.css']
+})
+export class OrderTrackerComponent {
+  // inputs
+  /** Used to show the service name of the order */
+  services = input<ServiceOffering[]>([]);
+
+  // services
+  private statusService = inject(CommissionStatusService);
+  private locale = inject(LocaleService);
+
+  readonly stages = ORDER_STAGES;
+
+  reference = '';
+  order: OrderStatus | null = null;
+  isLoading = false;
+  /** Message key of the last lookup failure */
+  error: MessageKey | null = null;
+
+  /**
+   * Index of the order's stage in ORDER_STAGES
+   */
+  get stageIndex(): number {
+    return this.order ? this.stages.findIndex(s => s.stage === this.order!.stage) : -1;
+  }
+
+  /**
+   * When the order last changed, formatted for the site language
+   */
+  get updatedLabel(): string {
+    return this.order ? this.locale.formatDate(this.order.updatedAt) : '';
+  }
+
+  get serviceTitle(): string {
+    return this.services().find(service => service.id === this.order?.serviceId)?.title ?? '';
+  }
+
+  /**
+   * Look up the entered reference code
+   */
+  lookup(): void {
+    if (!this.reference.trim()) return;
+
+    this.isLoading = true;
+    this.error = null;
+    this.order = null;
+
+    this.statusService.lookupOrder(this.reference).subscribe({
+      next: order => {
+        this.order = order;
+        this.isLoading = false;
+      },
+      error: (err: HttpErrorResponse) => {
+        this.error = err.status === 404 ? 'tracker.notFound' : 'tracker.unavailable';
+        this.isLoading = false;
+      }
+    });
+  }
+}
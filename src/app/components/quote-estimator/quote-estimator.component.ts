@@ -0,0 +1,118 @@
+import { Component, computed, effect, inject, input, output, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ServiceOffering } from '../../models/service.model';
+import { CurrencyCode, QuoteEstimate, ServiceAddOn } from '../../models/pricing.model';
+import { PricingService, estimateQuote } from '../../services/pricing.service';
+import { LocaleService } from '../../services/locale.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Interactive quote estimator for one service
+ * Recalculates the price range as package, quantity, add-ons and currency change
+ * and can hand the configured estimate to the commission form
+ */
+@Component({
+  selector: 'app-quote-estimator',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './quote-estimator.component.html',
+  styleUrls: ['./quote-estimator.component.css']
+})
+export class QuoteEstimatorComponent {
+  // inputs
+  service = input.required<ServiceOffering>();
+  private serviceId = computed(() => this.service().id);
+
+  // outputs
+  /** Emitted when the client wants to commission the estimated order */
+  requestQuote = output<QuoteEstimate>();
+  /** Emitted on any user change, so the host can pause the slider auto-play */
+  interacted = output<void>();
+
+  // services
+  private pricing = inject(PricingService);
+  private locale = inject(LocaleService);
+
+  readonly currencies = this.pricing.currencies;
+
+  packageId = '';
+  quantity = 1;
+  addOnIds: string[] = [];
+  currency: CurrencyCode = 'USD';
+
+  constructor() {
+    // start each service from its first package with no extras
+    // (keyed by id, so a translated copy of the same service keeps the selection)
+    effect(() => {
+      this.serviceId();
+      untracked(() => {
+        this.packageId = this.service().packages[0]?.id ?? '';
+        this.quantity = 1;
+        this.addOnIds = [];
+      });
+    });
+  }
+
+  /**
+   * Formatted estimate for the current selection, or null without a package
+   */
+  get estimateLabel(): string | null {
+    const range = estimateQuote(this.service(), this.packageId, this.quantity, this.addOnIds);
+    return range ? this.pricing.formatRange(range, this.currency) : null;
+  }
+
+  /**
+   * Short price hint shown next to an add-on ("+50%", "+$20 – $40 each")
+   * @param addOn - Add-on to describe
+   */
+  addOnHint(addOn: ServiceAddOn): string {
+    if (addOn.pricing.kind === 'percent') {
+      return `+${addOn.pricing.percent}%`;
+    }
+    const price = this.pricing.formatRange(addOn.pricing.price, this.currency);
+    return addOn.pricing.perUnit ? this.locale.translate('estimator.each', { price }) : `+${price}`;
+  }
+
+  selectPackage(id: string): void {
+    this.packageId = id;
+    this.interacted.emit();
+  }
+
+  setQuantity(value: string): void {
+    const parsed = Math.floor(Number(value));
+    this.quantity = Number.isFinite(parsed) ? Math.min(50, Math.max(1, parsed)) : 1;
+    this.interacted.emit();
+  }
+
+  toggleAddOn(id: string): void {
+    this.addOnIds = this.addOnIds.includes(id)
+      ? this.addOnIds.filter(existing => existing !== id)
+      : [...this.addOnIds, id];
+    this.interacted.emit();
+  }
+
+  selectCurrency(currency: string): void {
+    const match = this.currencies.find(code => code === currency);
+    if (!match) return;
+
+    this.currency = match;
+    this.interacted.emit();
+  }
+
+  /**
+   * Emit the current configuration as a quote for the commission form
+   */
+  submitQuote(): void {
+    const range = estimateQuote(this.service(), this.packageId, this.quantity, this.addOnIds);
+    if (!range) return;
+
+    this.requestQuote.emit({
+      serviceId: this.service().id,
+      packageId: this.packageId,
+      quantity: this.quantity,
+      addOnIds: [...this.addOnIds],
+      range,
+      currency: this.currency
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ServiceStatus } from '../../models/commission-status.model';
+import { LocaleService } from '../../services/locale.service';
+
+/**
+ * Availability badge for a service panel ("Open · 3 slots", "Waitlist", "Closed")
+ * with the typical turnaround underneath
+ */
+@Component({
+  selector: 'app-status-badge',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './status-badge.component.html',
+  styleUrls: ['./status-badge.component.css']
+})
+export class StatusBadgeComponent {
+  // inputs
+  status = input.required<ServiceStatus>();
+
+  // services
+  private locale = inject(LocaleService);
+
+  readonly label = computed(() => {
+    const status = this.status();
+    switch (status.state) {
+      case 'open':
+        return this.locale.translate('status.open', { count: status.slotsRemaining });
+      case 'waitlist':
+        return this.locale.translate('status.waitlist');
+      default:
+        return this.locale.translate('status.closed');
+    }
+  });
+
+  readonly turnaround = computed(() => {
+    const { min, max } = this.status().turnaroundWeeks;
+    return min === max
+      ? this.locale.translate('status.turnaround', { weeks: min })
+      : this.locale.translate('status.turnaroundRange', { min, max });
+  });
+}
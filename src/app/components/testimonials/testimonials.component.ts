@@ -0,0 +1,92 @@
+import { Component, computed, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Testimonial } from '../../models/testimonial.model';
+import { ServiceOffering } from '../../models/service.model';
+import { Artwork } from '../../models/artwork.model';
+import { GALLERY_PATH } from '../../app.routes';
+import { clientInitials, filterTestimonials } from '../../services/testimonials';
+import { CarouselComponent } from '../carousel/carousel.component';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Testimonials section
+ * Client quotes in a carousel, filterable by service, with a showcase of the clients underneath
+ * Each quote links to the artwork or service it's about
+ */
+@Component({
+  selector: 'app-testimonials',
+  standalone: true,
+  imports: [CommonModule, CarouselComponent, TranslatePipe],
+  templateUrl: './testimonials.component.html',
+  styleUrls: ['./testimonials.component.css']
+})
+export class TestimonialsComponent {
+  // inputs
+  /** Testimonials in the active language */
+  testimonials = input.required<Testimonial[]>();
+  /** Services in the active language, for the filter and service links */
+  services = input.required<ServiceOffering[]>();
+  /** Catalog artworks, for artwork link titles */
+  artworks = input<Artwork[]>([]);
+
+  // outputs
+  /** Visitor wants to see a service in the services carousel */
+  serviceSelected = output<string>();
+  /** Visitor wants to open an artwork in the gallery modal */
+  artworkSelected = output<string>();
+
+  readonly galleryPath = GALLERY_PATH;
+  readonly initials = clientInitials;
+
+  /** Service the quotes are filtered to; null shows all */
+  readonly serviceFilter = signal<string | null>(null);
+
+  /** Index of the quote shown in the carousel */
+  readonly currentIndex = signal(0);
+
+  readonly visibleTestimonials = computed(() => filterTestimonials(this.testimonials(), this.serviceFilter()));
+
+  /** Only services with at least one testimonial get a filter chip */
+  readonly filterServices = computed(() =>
+    this.services().filter(service => this.testimonials().some(testimonial => testimonial.serviceId === service.id))
+  );
+
+  /** Every client once, in testimonial order */
+  readonly clients = computed(() => {
+    const seen = new Set<string>();
+    return this.testimonials()
+      .map(testimonial => testimonial.client)
+      .filter(client => !seen.has(client.name) && !!seen.add(client.name));
+  });
+
+  private serviceTitles = computed(() => new Map(this.services().map(service => [service.id, service.title])));
+  private artworkTitles = computed(() => new Map(this.artworks().map(artwork => [artwork.id, artwork.title])));
+
+  /** Dot label for a quote */
+  readonly slideTitle = (testimonial: Testimonial) => testimonial.client.name;
+
+  serviceTitle(serviceId: string): string | undefined {
+    return this.serviceTitles().get(serviceId);
+  }
+
+  artworkTitle(artworkId: string): string | undefined {
+    return this.artworkTitles().get(artworkId);
+  }
+
+  /**
+   * Show only quotes about one service
+   * @param serviceId - Service id, or null for all
+   */
+  setFilter(serviceId: string | null): void {
+    this.serviceFilter.set(serviceId);
+    this.currentIndex.set(0);
+  }
+
+  /**
+   * Open an artwork in the modal instead of following the link's href
+   */
+  openArtwork(event: Event, artworkId: string): void {
+    event.preventDefault();
+    this.artworkSelected.emit(artworkId);
+  }
+}
@@ -0,0 +1,31 @@
+import { Component, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ArtworkTimelapse } from '../../models/artwork.model';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Timelapse player
+ * Videos get the browser's own controls; animated images show their poster until the visitor
+ * presses play, since an animated WebP or GIF can't be paused once it's on screen
+ * Neither starts by itself, so nothing moves for visitors who prefer reduced motion
+ */
+@Component({
+  selector: 'app-timelapse-player',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './timelapse-player.component.html',
+  styleUrls: ['./timelapse-player.component.css']
+})
+export class TimelapsePlayerComponent {
+  // inputs
+  timelapse = input.required<ArtworkTimelapse>();
+  /** Artwork title, for the accessible name */
+  title = input.required<string>();
+
+  /** Whether an animated image is currently swapped in for its poster */
+  readonly playing = signal(false);
+
+  toggle(): void {
+    this.playing.update(playing => !playing);
+  }
+}
@@ -0,0 +1,20 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AppUpdateService } from '../../services/app-update.service';
+import { TranslatePipe } from '../../i18n/translate.pipe';
+
+/**
+ * Toast offering to reload when a new deploy has been downloaded
+ * (or when the cached version can no longer be served)
+ */
+@Component({
+  selector: 'app-update-prompt',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './update-prompt.component.html',
+  styleUrls: ['./update-prompt.component.css']
+})
+export class UpdatePromptComponent {
+  // services
+  readonly appUpdate = inject(AppUpdateService);
+}
@@ -0,0 +1,108 @@
+import { Profile } from '../models/profile.model';
+
+/**
+ * Artist profile shown in About Me and used for page metadata
+ */
+export const PROFILE: Profile = {
+  name: 'Sebby Ashan',
+  alternateName: 'SebbyAshan',
+  jobTitle: 'Freelance illustrator',
+  summary:
+    'Sebby Ashan is a talented, cool, hard-working, and humble freelance illustrator. ' +
+    'He also enjoys programming and creating digital art for backgrounds and illustrations.',
+  bio:
+    'Hi, I\'m **Sebby**! I draw cute characters, cozy backgrounds and a lot of ghosts.\n\n' +
+    'I\'ve been taking commissions since 2021, mostly for streamers and VTubers:\n\n' +
+    '- stickers and emotes\n' +
+    '- stream panels and overlays\n' +
+    '- illustrations and fan art\n\n' +
+    'When I\'m not drawing I\'m usually programming, which is how this site came to be. ' +
+    'Commissions open through [VGen](https://vgen.co/sebbyashan) or the form below.',
+  avatar: {
+    src: 'icons/icon-512.png',
+    alt: 'Sebby Ashan\'s ghost mascot'
+  },
+  contact: {
+    email: 'hello@sebbyashan.com',
+    discord: 'sebbyashan'
+  },
+  links: [
+    { platform: 'twitch', url: 'https://www.twitch.tv/sebbyashan', handle: 'sebbyashan' },
+    { platform: 'discord', url: 'https://discord.gg/sebbyashan', handle: 'Sebby\'s Haunt' },
+    { platform: 'kofi', url: 'https://ko-fi.com/sebbyashan', handle: 'sebbyashan' },
+    { platform: 'vgen', url: 'https://vgen.co/sebbyashan', handle: 'sebbyashan' }
+  ],
+  timeline: [
+    {
+      id: 'first-commission',
+      date: '2021',
+      kind: 'commission',
+      title: 'First commission',
+      description: 'A set of emotes for a friend\'s Twitch channel.'
+    },
+    {
+      id: 'stream-panels',
+      date: '2022',
+      kind: 'commission',
+      title: 'Stream panels and overlays',
+      description: 'Started designing full channel packages for streamers.'
+    },
+    {
+      id: 'game-assets',
+      date: '2023',
+      kind: 'career',
+      title: 'Game assets',
+      description: 'Backgrounds and sprites for an indie game jam team.'
+    },
+    {
+      id: 'full-time',
+      date: '2024',
+      kind: 'career',
+      title: 'Freelancing full time',
+      description: 'Opened regular commission slots and this website.'
+    }
+  ],
+  skills: [
+    { id: 'tools', label: 'Tools', items: ['Clip Studio Paint', 'Procreate', 'Photoshop', 'Aseprite'] },
+    { id: 'skills', label: 'Skills', items: ['Character design', 'Chibi art', 'Backgrounds', 'Emotes', 'Web development'] }
+  ],
+  translations: {
+    es: {
+      jobTitle: 'Ilustrador freelance',
+      summary:
+        'Sebby Ashan es un ilustrador freelance con talento, genial, trabajador y humilde. ' +
+        'También disfruta programando y creando arte digital para fondos e ilustraciones.',
+      bio:
+        '¡Hola, soy **Sebby**! Dibujo personajes adorables, fondos acogedores y muchos fantasmas.\n\n' +
+        'Acepto encargos desde 2021, sobre todo de streamers y VTubers:\n\n' +
+        '- stickers y emotes\n' +
+        '- paneles y overlays para directos\n' +
+        '- ilustraciones y fan art\n\n' +
+        'Cuando no dibujo suelo estar programando, y así nació esta web. ' +
+        'Los encargos se abren en [VGen](https://vgen.co/sebbyashan) o con el formulario de abajo.',
+      avatarAlt: 'La mascota fantasma de Sebby Ashan',
+      timeline: {
+        'first-commission': {
+          title: 'Primer encargo',
+          description: 'Un set de emotes para el canal de Twitch de un amigo.'
+        },
+        'stream-panels': {
+          title: 'Paneles y overlays',
+          description: 'Empecé a diseñar paquetes completos de canal para streamers.'
+        },
+        'game-assets': {
+          title: 'Recursos para videojuegos',
+          description: 'Fondos y sprites para un equipo indie en una game jam.'
+        },
+        'full-time': {
+          title: 'Freelance a tiempo completo',
+          description: 'Abrí plazas de encargo regulares y esta web.'
+        }
+      },
+      skills: {
+        tools: 'Herramientas',
+        skills: 'Habilidades'
+      }
+    }
+  }
+};
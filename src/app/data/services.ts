@@ -0,0 +1,97 @@
+import { ServiceOffering } from '../models/service.model';
+
+/**
+ * Services offered for commission, in slider order
+ * Prices are in the base currency (USD); see PricingService for conversion
+ */
+export const SERVICES: ServiceOffering[] = [
+  {
+    id: 'stickers',
+    title: 'Stickers',
+    description: 'Custom stickers and emoji designs for Discord/Twitch/Other platforms',
+    image: 'Image/StickerPanel.jpg',
+    alt: 'Sticker design panel',
+    packages: [
+      { id: 'single', label: 'Single sticker', price: { min: 15, max: 25 } },
+      { id: 'emote-pack-5', label: 'Emote pack (5)', price: { min: 60, max: 100 } },
+      { id: 'emote-pack-10', label: 'Emote pack (10)', price: { min: 110, max: 180 } }
+    ],
+    addOns: [
+      { id: 'extra-sizes', label: 'Extra emote sizes', pricing: { kind: 'flat', price: { min: 5, max: 5 }, perUnit: true } },
+      { id: 'animated', label: 'Animated', pricing: { kind: 'flat', price: { min: 20, max: 40 }, perUnit: true } },
+      { id: 'commercial', label: 'Commercial license', pricing: { kind: 'percent', percent: 50 } },
+      { id: 'rush', label: 'Rush delivery', pricing: { kind: 'percent', percent: 30 } }
+    ],
+    translations: {
+      es: {
+        title: 'Stickers',
+        description: 'Stickers y emojis personalizados para Discord, Twitch y otras plataformas',
+        alt: 'Panel de diseños de stickers',
+        packages: { 'single': 'Sticker suelto', 'emote-pack-5': 'Pack de emotes (5)', 'emote-pack-10': 'Pack de emotes (10)' },
+        addOns: {
+          'extra-sizes': 'Tamaños de emote extra',
+          'animated': 'Animado',
+          'commercial': 'Licencia comercial',
+          'rush': 'Entrega urgente'
+        }
+      }
+    }
+  },
+  {
+    id: 'game-assets',
+    title: 'Game Assets',
+    description: 'Tier designs, profile frames, and game artwork',
+    image: 'Image/GameAssets.jpg',
+    alt: 'Game assets panel',
+    packages: [
+      { id: 'profile-frame', label: 'Profile frame', price: { min: 40, max: 80 } },
+      { id: 'tier-set', label: 'Tier badge set', price: { min: 120, max: 250 } },
+      { id: 'key-art', label: 'Key artwork', price: { min: 200, max: 450 } }
+    ],
+    addOns: [
+      { id: 'animated', label: 'Animated', pricing: { kind: 'flat', price: { min: 60, max: 120 }, perUnit: true } },
+      { id: 'source-files', label: 'Layered source files', pricing: { kind: 'flat', price: { min: 20, max: 20 }, perUnit: false } },
+      { id: 'commercial', label: 'Commercial license', pricing: { kind: 'percent', percent: 50 } },
+      { id: 'rush', label: 'Rush delivery', pricing: { kind: 'percent', percent: 30 } }
+    ],
+    translations: {
+      es: {
+        title: 'Recursos para juegos',
+        description: 'Diseños de niveles, marcos de perfil e ilustraciones para juegos',
+        alt: 'Panel de recursos para juegos',
+        packages: { 'profile-frame': 'Marco de perfil', 'tier-set': 'Set de insignias de nivel', 'key-art': 'Ilustración principal' },
+        addOns: {
+          'animated': 'Animado',
+          'source-files': 'Archivos fuente por capas',
+          'commercial': 'Licencia comercial',
+          'rush': 'Entrega urgente'
+        }
+      }
+    }
+  },
+  {
+    id: 'websites',
+    title: 'Websites',
+    description: 'Web designs',
+    image: 'Image/WebsitePanel.jpg',
+    alt: 'Website design panel',
+    packages: [
+      { id: 'landing-page', label: 'Landing page', price: { min: 300, max: 600 } },
+      { id: 'portfolio', label: 'Portfolio site', price: { min: 600, max: 1200 } },
+      { id: 'custom', label: 'Custom project', price: { min: 1200, max: 3000 } }
+    ],
+    addOns: [
+      { id: 'cms', label: 'Content editing setup', pricing: { kind: 'flat', price: { min: 200, max: 400 }, perUnit: false } },
+      { id: 'rush', label: 'Rush delivery', pricing: { kind: 'percent', percent: 30 } }
+    ],
+    translations: {
+      es: {
+        title: 'Sitios web',
+        description: 'Diseño web',
+        alt: 'Panel de diseño web',
+        packages: { 'landing-page': 'Página de aterrizaje', 'portfolio': 'Sitio de portafolio', 'custom': 'Proyecto a medida' },
+        addOns: { 'cms': 'Configuración para editar contenido', 'rush': 'Entrega urgente' }
+      }
+    }
+  }
+];
@@ -0,0 +1,58 @@
+import { Testimonial } from '../models/testimonial.model';
+
+/**
+ * Client testimonials shown in the testimonials carousel and in linked artwork modals
+ * serviceId and artworkId must match data/services.ts and public/catalog.json
+ */
+export const TESTIMONIALS: Testimonial[] = [
+  {
+    id: 'mossy-emotes',
+    quote: 'My chat uses these emotes more than any others. Sebby nailed every expression on the first sketch.',
+    client: { name: 'MossyMage', title: 'Twitch streamer' },
+    serviceId: 'stickers',
+    translations: {
+      es: {
+        quote: 'Mi chat usa estos emotes más que cualquier otro. Sebby clavó cada expresión en el primer boceto.',
+        clientTitle: 'Streamer de Twitch'
+      }
+    }
+  },
+  {
+    id: 'spooky-store-owner',
+    quote: 'The Spooky Store piece made our Halloween campaign. Customers kept asking who drew it!',
+    client: { name: 'Lantern & Co.', title: 'Small business owner' },
+    serviceId: 'game-assets',
+    artworkId: 'spooky-store',
+    translations: {
+      es: {
+        quote: 'La ilustración de Spooky Store hizo nuestra campaña de Halloween. ¡Los clientes no paraban de preguntar quién la había dibujado!',
+        clientTitle: 'Dueña de un pequeño negocio'
+      }
+    }
+  },
+  {
+    id: 'tosh-background',
+    quote: 'Clear communication, regular progress updates and a background that feels cozy every single stream.',
+    client: { name: 'Tosh', title: 'VTuber' },
+    serviceId: 'game-assets',
+    artworkId: 'tosh-background',
+    translations: {
+      es: {
+        quote: 'Comunicación clara, avances frecuentes y un fondo que se siente acogedor en cada directo.',
+        clientTitle: 'VTuber'
+      }
+    }
+  },
+  {
+    id: 'pixel-hollow-site',
+    quote: 'Sebby designed and built our studio site. It looks like our game and loads fast on every phone we tried.',
+    client: { name: 'Pixel Hollow', title: 'Indie game studio' },
+    serviceId: 'websites',
+    translations: {
+      es: {
+        quote: 'Sebby diseñó y programó la web de nuestro estudio. Se parece a nuestro juego y carga rápido en todos los móviles que probamos.',
+        clientTitle: 'Estudio de videojuegos indie'
+      }
+    }
+  }
+];
@@ -0,0 +1,104 @@
+import { ThemeDefinition } from '../models/theme.model';
+
+/**
+ * Color themes offered in the navbar; the first one is the default
+ * 'system' resolves to the first theme with the matching color scheme
+ */
+export const THEMES: ThemeDefinition[] = [
+  {
+    id: 'light',
+    labelKey: 'theme.light',
+    colorScheme: 'light',
+    colors: {
+      'page': '#ffffff',
+      'surface': '#ffffff',
+      'surface-muted': '#f8f9fa',
+      'surface-sunken': '#f0f0f0',
+      'text': '#333333',
+      'text-muted': '#666666',
+      'text-subtle': '#999999',
+      'primary': '#649978',
+      'primary-deep': '#365c4a',
+      'accent': '#a48770',
+      'accent-soft': '#f0e8e1',
+      'neutral': '#e6e1dc',
+      'ink': '#1c1511',
+      'on-accent': '#ffffff',
+      'danger': '#b04a3a',
+      'nav-active': '#c0ff8d'
+    },
+    particles: { preset: 'auto', colors: ['#ffffff', '#f6e27a', '#a48770'] }
+  },
+  {
+    id: 'dark',
+    labelKey: 'theme.dark',
+    colorScheme: 'dark',
+    colors: {
+      'page': '#14110f',
+      'surface': '#1f1a17',
+      'surface-muted': '#1a1613',
+      'surface-sunken': '#2a2420',
+      'text': '#ece6df',
+      'text-muted': '#b9aea3',
+      'text-subtle': '#8a7f75',
+      'primary': '#7fb894',
+      'primary-deep': '#2b4a3b',
+      'accent': '#8a6f5a',
+      'accent-soft': '#3a2f27',
+      'neutral': '#3b342e',
+      'ink': '#f0e8e1',
+      'on-accent': '#ffffff',
+      'danger': '#e07a68',
+      'nav-active': '#c0ff8d'
+    },
+    particles: { preset: 'auto', colors: ['#f6e27a', '#d9f27a', '#f0e8e1'] }
+  },
+  {
+    id: 'halloween',
+    labelKey: 'theme.halloween',
+    colorScheme: 'dark',
+    colors: {
+      'page': '#17121f',
+      'surface': '#221a2c',
+      'surface-muted': '#1c1625',
+      'surface-sunken': '#2d2338',
+      'text': '#f3e9dc',
+      'text-muted': '#c4b3c9',
+      'text-subtle': '#8f7f96',
+      'primary': '#ff8c1a',
+      'primary-deep': '#8a3b00',
+      'accent': '#6b3fa0',
+      'accent-soft': '#3a2850',
+      'neutral': '#3a3044',
+      'ink': '#f3e9dc',
+      'on-accent': '#ffffff',
+      'danger': '#ff6b5a',
+      'nav-active': '#ffb347'
+    },
+    particles: { preset: 'spooky-ghosts', colors: ['#ff8c1a', '#b784f0', '#f3e9dc'] }
+  },
+  {
+    id: 'winter',
+    labelKey: 'theme.winter',
+    colorScheme: 'light',
+    colors: {
+      'page': '#f4f8fb',
+      'surface': '#ffffff',
+      'surface-muted': '#eaf1f7',
+      'surface-sunken': '#dde7ef',
+      'text': '#223140',
+      'text-muted': '#5a6b7b',
+      'text-subtle': '#8c9aa7',
+      'primary': '#3f7fa6',
+      'primary-deep': '#24506b',
+      'accent': '#5d89a8',
+      'accent-soft': '#e3eef6',
+      'neutral': '#d9e3ec',
+      'ink': '#16212b',
+      'on-accent': '#ffffff',
+      'danger': '#b04a3a',
+      'nav-active': '#e8f6ff'
+    },
+    particles: { preset: 'snow', colors: ['#ffffff', '#cfe3f2', '#a9c8e0'] }
+  }
+];
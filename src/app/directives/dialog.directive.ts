@@ -0,0 +1,126 @@
+import {
+  AfterViewInit, Directive, ElementRef, HostListener, OnDestroy, inject, output
+} from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { ScrollLockService } from '../services/scroll-lock.service';
+
+/**
+ * Elements that can receive keyboard focus
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+/**
+ * Modal dialog directive
+ * Put it on the element that is rendered while a dialog is open (typically under *ngIf)
+ * - moves focus into the dialog and keeps Tab / Shift+Tab inside it
+ * - emits dialogClose on Escape, wherever focus is
+ * - locks page scrolling while open without clobbering the body's overflow
+ * - returns focus to the element that opened the dialog when it is removed
+ */
+@Directive({
+  selector: '[appDialog]',
+  standalone: true,
+  host: {
+    role: 'dialog',
+    'aria-modal': 'true',
+    tabindex: '-1'
+  }
+})
+export class DialogDirective implements AfterViewInit, OnDestroy {
+  // outputs
+  dialogClose = output<void>();
+
+  // refs
+  private el = inject<ElementRef<HTMLElement>>(ElementRef);
+  private document = inject(DOCUMENT);
+
+  // services
+  private scrollLock = inject(ScrollLockService);
+
+  // internals
+  private previouslyFocused: HTMLElement | null;
+
+  constructor() {
+    // captured before the dialog steals focus, usually the thumbnail that opened it
+    const active = this.document.activeElement;
+    this.previouslyFocused = active instanceof HTMLElement && active !== this.document.body ? active : null;
+  }
+
+  ngAfterViewInit(): void {
+    this.scrollLock.lock();
+    this.el.nativeElement.focus({ preventScroll: true });
+  }
+
+  ngOnDestroy(): void {
+    this.scrollLock.unlock();
+    if (this.previouslyFocused?.isConnected) {
+      this.previouslyFocused.focus({ preventScroll: true });
+    }
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.dialogClose.emit();
+    } else if (event.key === 'Tab') {
+      this.trapTab(event);
+    }
+  }
+
+  /**
+   * Pull focus back if it escapes the dialog (e.g. via a mouse click on the page behind)
+   */
+  @HostListener('document:focusin', ['$event'])
+  onDocumentFocusIn(event: FocusEvent): void {
+    const host = this.el.nativeElement;
+    if (event.target instanceof Node && !host.contains(event.target)) {
+      (this.focusableElements()[0] ?? host).focus({ preventScroll: true });
+    }
+  }
+
+  /**
+   * Wrap Tab / Shift+Tab at the first and last focusable elements
+   * @param event - Tab keydown event
+   */
+  private trapTab(event: KeyboardEvent): void {
+    const host = this.el.nativeElement;
+    const focusable = this.focusableElements();
+
+    if (!focusable.length) {
+      event.preventDefault();
+      host.focus();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = this.document.activeElement;
+
+    if (event.shiftKey && (active === first || active === host || !host.contains(active))) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && (active === last || !host.contains(active))) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  /**
+   * Visible, focusable descendants in DOM order
+   */
+  private focusableElements(): HTMLElement[] {
+    return Array.from(this.el.nativeElement.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+      .filter(element => element.getClientRects().length > 0);
+  }
+}
@@ -0,0 +1,155 @@
+import { Component, viewChild } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ImageZoomDirective } from './image-zoom.directive';
+
+@Component({
+  standalone: true,
+  imports: [ImageZoomDirective],
+  template: `
+    <div class="stage" style="width: 400px; height: 300px"
+         [appImageZoom]="src"
+         (swipeLeft)="swipes.push('left')"
+         (swipeRight)="swipes.push('right')">
+      <img alt="" style="display: block; width: 400px; height: 300px">
+    </div>
+  `
+})
+class ZoomHostComponent {
+  src = 'first.jpg';
+  swipes: string[] = [];
+  zoom = viewChild.required(ImageZoomDirective);
+}
+
+describe('ImageZoomDirective', () => {
+  let fixture: ComponentFixture<ZoomHostComponent>;
+  let host: ZoomHostComponent;
+  let stage: HTMLElement;
+  let image: HTMLImageElement;
+  let centre: { x: number; y: number };
+
+  /**
+   * Offset and scale the directive last applied to the image; fit size has no transform
+   */
+  function transform(): { x: number; y: number; scale: number } {
+    const match = /translate\((-?[\d.]+)px, (-?[\d.]+)px\) scale\(([\d.]+)\)/.exec(image.style.transform);
+    return match ? { x: +match[1], y: +match[2], scale: +match[3] } : { x: 0, y: 0, scale: 1 };
+  }
+
+  function pointer(type: string, pointerId: number, x: number, y: number): void {
+    stage.dispatchEvent(new PointerEvent(type, {
+      pointerId, pointerType: 'touch', clientX: centre.x + x, clientY: centre.y + y, bubbles: true, cancelable: true
+    }));
+  }
+
+  function swipe(dx: number, dy: number): void {
+    pointer('pointerdown', 1, 0, 0);
+    pointer('pointermove', 1, dx, dy);
+    pointer('pointerup', 1, dx, dy);
+  }
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(ZoomHostComponent);
+    host = fixture.componentInstance;
+    fixture.detectChanges();
+
+    stage = fixture.nativeElement.querySelector('.stage');
+    image = stage.querySelector('img')!;
+    // synthetic pointers aren't active, so the browser would refuse to capture them
+    spyOn(stage, 'setPointerCapture');
+    const rect = stage.getBoundingClientRect();
+    centre = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  });
+
+  it('should keep the point under the cursor still when zooming with the wheel', () => {
+    stage.dispatchEvent(new WheelEvent('wheel', { deltaY: -100, clientX: centre.x + 100, clientY: centre.y + 60, cancelable: true }));
+    fixture.detectChanges();
+
+    // the image point 100px right of centre is still 100px right of centre: -25 + 100 * 1.25
+    expect(transform()).toEqual({ x: -25, y: -15, scale: 1.25 });
+    expect(stage.classList).toContain('zoomed');
+
+    stage.dispatchEvent(new WheelEvent('wheel', { deltaY: 100, clientX: centre.x + 100, clientY: centre.y + 60, cancelable: true }));
+    stage.dispatchEvent(new WheelEvent('wheel', { deltaY: 100, clientX: centre.x + 100, clientY: centre.y + 60, cancelable: true }));
+    fixture.detectChanges();
+
+    expect(image.style.transform).toBe('');
+    expect(stage.classList).not.toContain('zoomed');
+  });
+
+  it('should zoom around the container centre from the buttons and double-click', () => {
+    const zoom = host.zoom();
+    zoom.zoomIn();
+    expect(transform()).toEqual({ x: 0, y: 0, scale: 1.25 });
+    zoom.zoomOut();
+    expect(image.style.transform).toBe('');
+
+    stage.dispatchEvent(new MouseEvent('dblclick', { clientX: centre.x + 40, clientY: centre.y }));
+    expect(transform()).toEqual({ x: -40, y: 0, scale: 2 });
+    stage.dispatchEvent(new MouseEvent('dblclick', { clientX: centre.x + 40, clientY: centre.y }));
+    expect(image.style.transform).toBe('');
+  });
+
+  it('should keep the zoomed image covering the container while panning', () => {
+    host.zoom().zoomIn();
+
+    pointer('pointerdown', 1, 0, 0);
+    fixture.detectChanges();
+    expect(stage.classList).toContain('panning');
+
+    // at 1.25x the 400x300 image overhangs by 50px and 37.5px on each side
+    pointer('pointermove', 1, 200, 200);
+    expect(transform()).toEqual({ x: 50, y: 37.5, scale: 1.25 });
+    pointer('pointermove', 1, -400, -400);
+    expect(transform()).toEqual({ x: -50, y: -37.5, scale: 1.25 });
+
+    pointer('pointerup', 1, -400, -400);
+    fixture.detectChanges();
+    expect(stage.classList).not.toContain('panning');
+    expect(host.swipes).toEqual([]);
+  });
+
+  it('should pinch-zoom by the change in finger distance, within the zoom bounds', () => {
+    pointer('pointerdown', 1, -50, 0);
+    pointer('pointerdown', 2, 50, 0);
+    pointer('pointermove', 2, 150, 0);
+
+    expect(transform().scale).toBe(2);
+    expect(image.style.transition).toBe('none');
+
+    pointer('pointermove', 2, 5000, 0);
+    expect(transform().scale).toBe(8);
+
+    pointer('pointerup', 2, 5000, 0);
+    pointer('pointerup', 1, -50, 0);
+    expect(host.swipes).toEqual([]);
+  });
+
+  it('should report horizontal swipes past the threshold at fit size', () => {
+    swipe(-60, 10);
+    swipe(60, -10);
+    expect(host.swipes).toEqual(['left', 'right']);
+
+    // too short, too steep, or cancelled
+    swipe(-50, 0);
+    swipe(-60, 50);
+    pointer('pointerdown', 1, 0, 0);
+    pointer('pointercancel', 1, -100, 0);
+    expect(host.swipes).toEqual(['left', 'right']);
+
+    // a drag while zoomed pans instead
+    host.zoom().zoomIn();
+    swipe(-100, 0);
+    expect(host.swipes).toEqual(['left', 'right']);
+  });
+
+  it('should return to fit size when the image changes', () => {
+    host.zoom().zoomIn();
+    expect(host.zoom().isZoomed).toBeTrue();
+
+    host.src = 'second.jpg';
+    fixture.detectChanges();
+
+    expect(host.zoom().isZoomed).toBeFalse();
+    expect(image.style.transform).toBe('');
+  });
+});
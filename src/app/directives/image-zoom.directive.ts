@@ -0,0 +1,273 @@
+import {
+  Directive, ElementRef, HostListener, effect, inject, input, output, untracked
+} from '@angular/core';
+
+/**
+ * Zoom bounds relative to the fitted (constrained) image size
+ */
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+
+/**
+ * Multiplier applied per wheel notch / zoom button press
+ */
+const ZOOM_STEP = 1.25;
+
+/**
+ * Minimum horizontal travel (px) before a drag at fit size counts as a swipe
+ */
+const SWIPE_THRESHOLD = 50;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Lightbox zoom directive
+ * Applied to the modal image container; transforms the <img> (or protected <canvas>) inside it
+ * Supports wheel and double-click zoom, drag-to-pan while zoomed,
+ * pinch-zoom on touch devices and swipe left/right at fit size
+ * Zoom is relative to the fitted size, so scale 1 is "fit"
+ */
+@Directive({
+  selector: '[appImageZoom]',
+  standalone: true,
+  exportAs: 'imageZoom',
+  host: {
+    '[class.zoomed]': 'isZoomed',
+    '[class.panning]': 'isPanning',
+    '[style.touch-action]': '"none"',
+    '[style.overflow]': '"hidden"'
+  }
+})
+export class ImageZoomDirective {
+  // inputs
+  /** Image source currently shown; zoom resets whenever it changes */
+  src = input<string | undefined>(undefined, { alias: 'appImageZoom' });
+
+  // outputs
+  /** Finger/mouse moved left at fit size (show next image) */
+  swipeLeft = output<void>();
+  /** Finger/mouse moved right at fit size (show previous image) */
+  swipeRight = output<void>();
+
+  scale = MIN_SCALE;
+  isPanning = false;
+
+  // internals
+  private offset: Point = { x: 0, y: 0 };
+  private pointers = new Map<number, Point>();
+  private gestureStart: Point | null = null;
+  private lastPinch: { distance: number; mid: Point } | null = null;
+
+  // refs
+  private el = inject<ElementRef<HTMLElement>>(ElementRef);
+
+  constructor() {
+    effect(() => {
+      this.src();
+      untracked(() => this.reset());
+    });
+  }
+
+  get isZoomed(): boolean {
+    return this.scale > MIN_SCALE;
+  }
+
+  private get image(): HTMLImageElement | HTMLCanvasElement | null {
+    return this.el.nativeElement.querySelector<HTMLImageElement | HTMLCanvasElement>('img, canvas');
+  }
+
+  /**
+   * Zoom in one step around the container centre
+   */
+  zoomIn(): void {
+    this.zoomTo(this.scale * ZOOM_STEP, null, true);
+  }
+
+  /**
+   * Zoom out one step around the container centre
+   */
+  zoomOut(): void {
+    this.zoomTo(this.scale / ZOOM_STEP, null, true);
+  }
+
+  /**
+   * Toggle between fit-to-screen and 100% (one image pixel per CSS pixel)
+   */
+  toggleFit(): void {
+    if (this.isZoomed) {
+      this.reset(true);
+    } else {
+      this.zoomTo(this.actualSizeScale(), null, true);
+    }
+  }
+
+  /**
+   * Return to fit size and centre the image
+   * @param animate - Transition smoothly instead of snapping
+   */
+  reset(animate = false): void {
+    this.scale = MIN_SCALE;
+    this.offset = { x: 0, y: 0 };
+    this.pointers.clear();
+    this.gestureStart = null;
+    this.lastPinch = null;
+    this.isPanning = false;
+    this.applyTransform(animate);
+  }
+
+  @HostListener('wheel', ['$event'])
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+    this.zoomTo(this.scale * factor, { x: event.clientX, y: event.clientY }, true);
+  }
+
+  @HostListener('dblclick', ['$event'])
+  onDoubleClick(event: MouseEvent): void {
+    if (this.isZoomed) {
+      this.reset(true);
+    } else {
+      this.zoomTo(Math.max(this.actualSizeScale(), 2), { x: event.clientX, y: event.clientY }, true);
+    }
+  }
+
+  @HostListener('pointerdown', ['$event'])
+  onPointerDown(event: PointerEvent): void {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    // stop the browser's native image drag from hijacking the gesture
+    event.preventDefault();
+    this.el.nativeElement.setPointerCapture?.(event.pointerId);
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (this.pointers.size === 1) {
+      this.gestureStart = { x: event.clientX, y: event.clientY };
+      this.isPanning = this.isZoomed;
+    } else if (this.pointers.size === 2) {
+      // a second finger turns any swipe/pan into a pinch
+      this.gestureStart = null;
+      this.lastPinch = this.pinchState();
+    }
+  }
+
+  @HostListener('pointermove', ['$event'])
+  onPointerMove(event: PointerEvent): void {
+    const previous = this.pointers.get(event.pointerId);
+    if (!previous) return;
+
+    const current = { x: event.clientX, y: event.clientY };
+    this.pointers.set(event.pointerId, current);
+
+    if (this.pointers.size === 2 && this.lastPinch) {
+      const pinch = this.pinchState();
+      this.zoomTo(this.scale * (pinch.distance / this.lastPinch.distance), pinch.mid, false);
+      this.panBy(pinch.mid.x - this.lastPinch.mid.x, pinch.mid.y - this.lastPinch.mid.y);
+      this.lastPinch = pinch;
+    } else if (this.pointers.size === 1 && this.isZoomed) {
+      this.panBy(current.x - previous.x, current.y - previous.y);
+    }
+  }
+
+  @HostListener('pointerup', ['$event'])
+  @HostListener('pointercancel', ['$event'])
+  onPointerUp(event: PointerEvent): void {
+    if (!this.pointers.has(event.pointerId)) return;
+    this.pointers.delete(event.pointerId);
+
+    if (this.gestureStart && !this.isZoomed && event.type === 'pointerup') {
+      const dx = event.clientX - this.gestureStart.x;
+      const dy = event.clientY - this.gestureStart.y;
+      if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy) * 1.5) {
+        if (dx < 0) {
+          this.swipeLeft.emit();
+        } else {
+          this.swipeRight.emit();
+        }
+      }
+    }
+
+    if (this.pointers.size < 2) {
+      this.lastPinch = null;
+    }
+    if (this.pointers.size === 0) {
+      this.gestureStart = null;
+      this.isPanning = false;
+    }
+  }
+
+  /**
+   * Scale at which one image pixel maps to one CSS pixel
+   * Never below fit, so small images still "zoom" to fit
+   */
+  private actualSizeScale(): number {
+    const image = this.image;
+    if (!image || !image.offsetWidth) return MIN_SCALE;
+    const naturalWidth = image instanceof HTMLCanvasElement ? image.width : image.naturalWidth;
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, naturalWidth / image.offsetWidth));
+  }
+
+  /**
+   * Change the zoom level while keeping the point under the cursor still
+   * @param scale - Target scale, clamped to the allowed range
+   * @param focus - Viewport point to zoom around; null for the container centre
+   * @param animate - Transition smoothly instead of snapping
+   */
+  private zoomTo(scale: number, focus: Point | null, animate: boolean): void {
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+    const rect = this.el.nativeElement.getBoundingClientRect();
+    const px = focus ? focus.x - (rect.left + rect.width / 2) : 0;
+    const py = focus ? focus.y - (rect.top + rect.height / 2) : 0;
+    const ratio = next / this.scale;
+
+    this.offset = {
+      x: px - (px - this.offset.x) * ratio,
+      y: py - (py - this.offset.y) * ratio
+    };
+    this.scale = next;
+    this.clampOffset();
+    this.applyTransform(animate);
+  }
+
+  private panBy(dx: number, dy: number): void {
+    this.offset = { x: this.offset.x + dx, y: this.offset.y + dy };
+    this.clampOffset();
+    this.applyTransform(false);
+  }
+
+  /**
+   * Keep the zoomed image covering the container so it can't be dragged out of view
+   */
+  private clampOffset(): void {
+    const image = this.image;
+    if (!image) return;
+
+    const host = this.el.nativeElement;
+    const maxX = Math.max(0, (image.offsetWidth * this.scale - host.clientWidth) / 2);
+    const maxY = Math.max(0, (image.offsetHeight * this.scale - host.clientHeight) / 2);
+    this.offset = {
+      x: Math.min(maxX, Math.max(-maxX, this.offset.x)),
+      y: Math.min(maxY, Math.max(-maxY, this.offset.y))
+    };
+  }
+
+  private pinchState(): { distance: number; mid: Point } {
+    const [a, b] = [...this.pointers.values()];
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    };
+  }
+
+  private applyTransform(animate: boolean): void {
+    const image = this.image;
+    if (!image) return;
+
+    image.style.transition = animate ? 'transform 0.2s ease' : 'none';
+    image.style.transform = this.scale === MIN_SCALE
+      ? ''
+      : `translate(${this.offset.x}px, ${this.offset.y}px) scale(${this.scale})`;
+  }
+}
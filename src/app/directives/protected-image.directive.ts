@@ -0,0 +1,139 @@
+import {
+  Directive, ElementRef, HostListener, PLATFORM_ID, effect, inject, input, untracked
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { ArtworkWatermark } from '../models/artwork.model';
+import { ResolvedWatermark, resolveWatermark, watermarkPlacements } from '../services/artwork-protection';
+
+/**
+ * Watermark text height and logo width, relative to the canvas width
+ */
+const TEXT_SCALE = 0.035;
+const LOGO_SCALE = 0.15;
+
+/**
+ * Gap between the watermark and the canvas edges, relative to the canvas width
+ */
+const MARGIN_SCALE = 0.025;
+
+/**
+ * Protected image directive
+ * Applied to a <canvas> in place of an <img>: draws the image scaled down to maxWidth,
+ * stamps the watermark over it and blocks the context menu and dragging,
+ * so there is no image element to "Save as" or drag to the desktop
+ */
+@Directive({
+  selector: 'canvas[appProtectedImage]',
+  standalone: true,
+  host: {
+    role: 'img',
+    draggable: 'false'
+  }
+})
+export class ProtectedImageDirective {
+  // inputs
+  /** Image to draw */
+  src = input<string | undefined>(undefined, { alias: 'appProtectedImage' });
+  watermark = input<ArtworkWatermark | undefined>(undefined);
+  /** Widest the drawn image may be, in image pixels */
+  maxWidth = input<number>(Infinity);
+
+  // refs
+  private el = inject<ElementRef<HTMLCanvasElement>>(ElementRef);
+  private platformId = inject(PLATFORM_ID);
+
+  // internals
+  /** Bumped per render so a slow load can't paint over a newer image */
+  private renderId = 0;
+
+  constructor() {
+    effect(() => {
+      const src = this.src();
+      const watermark = this.watermark();
+      const maxWidth = this.maxWidth();
+      // canvases are only drawn in the browser; prerendered pages ship the empty element
+      if (src && isPlatformBrowser(this.platformId)) {
+        untracked(() => this.render(src, watermark && resolveWatermark(watermark), maxWidth));
+      }
+    });
+  }
+
+  @HostListener('contextmenu', ['$event'])
+  @HostListener('dragstart', ['$event'])
+  onBlockedEvent(event: Event): void {
+    event.preventDefault();
+  }
+
+  private async render(src: string, watermark: ResolvedWatermark | undefined, maxWidth: number): Promise<void> {
+    const renderId = ++this.renderId;
+    try {
+      const [image, logo] = await Promise.all([
+        loadImage(src),
+        watermark?.logo ? loadImage(watermark.logo) : Promise.resolve(null)
+      ]);
+      if (renderId !== this.renderId) return;
+
+      const canvas = this.el.nativeElement;
+      const scale = Math.min(1, maxWidth / image.naturalWidth);
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      if (watermark) {
+        this.drawWatermark(context, watermark, logo);
+      }
+    } catch (err) {
+      console.error(`Failed to draw protected image ${src}:`, err);
+    }
+  }
+
+  /**
+   * Stamp the watermark (logo above text) at every placement for its position
+   */
+  private drawWatermark(context: CanvasRenderingContext2D, watermark: ResolvedWatermark, logo: HTMLImageElement | null): void {
+    const { width, height } = context.canvas;
+    const fontSize = Math.max(12, Math.round(width * TEXT_SCALE));
+    const margin = Math.round(width * MARGIN_SCALE);
+
+    context.font = `600 ${fontSize}px sans-serif`;
+    context.textBaseline = 'top';
+    context.lineWidth = Math.max(1, fontSize / 12);
+
+    const logoWidth = logo ? Math.round(width * LOGO_SCALE) : 0;
+    const logoHeight = logo ? Math.round(logoWidth * logo.naturalHeight / logo.naturalWidth) : 0;
+    const textWidth = watermark.text ? context.measureText(watermark.text).width : 0;
+    const textHeight = watermark.text ? fontSize : 0;
+    const gap = logo && watermark.text ? Math.round(fontSize / 2) : 0;
+    const mark = { width: Math.max(logoWidth, textWidth), height: logoHeight + gap + textHeight };
+
+    context.globalAlpha = watermark.opacity;
+    for (const { x, y } of watermarkPlacements(watermark.position, { width, height }, mark, margin)) {
+      if (logo) {
+        context.drawImage(logo, x + (mark.width - logoWidth) / 2, y, logoWidth, logoHeight);
+      }
+      if (watermark.text) {
+        const textX = x + (mark.width - textWidth) / 2;
+        const textY = y + logoHeight + gap;
+        // dark outline keeps light text readable on bright artwork
+        context.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        context.strokeText(watermark.text, textX, textY);
+        context.fillStyle = '#fff';
+        context.fillText(watermark.text, textX, textY);
+      }
+    }
+    context.globalAlpha = 1;
+  }
+}
+
+/**
+ * Load and decode an image
+ * @param src - Image URL
+ */
+async function loadImage(src: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image;
+}
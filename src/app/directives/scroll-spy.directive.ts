@@ -0,0 +1,35 @@
+import { Directive, ElementRef, OnDestroy, OnInit, inject, input } from '@angular/core';
+import { MessageKey } from '../i18n/messages.en';
+import { ScrollSpyService } from '../services/scroll-spy.service';
+
+/**
+ * Scroll-spy section directive
+ * Registers the host element as a page section: it gets a navbar link,
+ * is highlighted while read and puts its id in the URL hash
+ * e.g. <section appScrollSpy="gallery" scrollSpyLabel="nav.gallery">
+ */
+@Directive({
+  selector: '[appScrollSpy]',
+  standalone: true
+})
+export class ScrollSpyDirective implements OnInit, OnDestroy {
+  // inputs
+  /** URL fragment for the section */
+  id = input.required<string>({ alias: 'appScrollSpy' });
+  /** Navbar label */
+  label = input.required<MessageKey>({ alias: 'scrollSpyLabel' });
+
+  // refs
+  private el = inject<ElementRef<HTMLElement>>(ElementRef);
+
+  // services
+  private scrollSpy = inject(ScrollSpyService);
+
+  ngOnInit(): void {
+    this.scrollSpy.register({ id: this.id(), labelKey: this.label(), element: this.el.nativeElement });
+  }
+
+  ngOnDestroy(): void {
+    this.scrollSpy.unregister(this.id());
+  }
+}
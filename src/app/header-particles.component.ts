@@ -1,29 +1,35 @@
-import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { CommonModule, DOCUMENT, isPlatformBrowser } from '@angular/common';
 import {
-  AfterViewInit, Component, ElementRef, HostListener, inject,
-  input, NgZone, OnDestroy, PLATFORM_ID, ViewChild
+  AfterViewInit, Component, computed, effect, ElementRef, HostListener, inject,
+  input, NgZone, OnDestroy, PLATFORM_ID, untracked, ViewChild
 } from '@angular/core';
-import { Container, IDelta, InteractivityDetect, IParticleUpdater, MoveDirection, Particle, tsParticles } from "@tsparticles/engine";
+import { Container, ISourceOptions, tsParticles } from "@tsparticles/engine";
 import { loadBasic } from "@tsparticles/basic";
 import { loadExternalPushInteraction } from "@tsparticles/interaction-external-push";
 import { loadParticlesLinksInteraction } from "@tsparticles/interaction-particles-links";
 import { loadExternalRepulseInteraction } from "@tsparticles/interaction-external-repulse";
-import { IImage, loadImageShape } from '@tsparticles/shape-image';
+import { loadImageShape } from '@tsparticles/shape-image';
+import {
+  PARTICLE_PRESETS, ParticlePresetName, scaleParticleOptions, seasonalPreset, withParticleColors
+} from './particles/particle-presets';
+import { loadRotationUpdaters } from './particles/rotation-updaters';
+import { FrameTimeMonitor } from './particles/frame-monitor';
+import { MotionPreferencesService } from './services/motion-preferences.service';
 
 
-// tell typescript that there's some new fields on that type so that we can actually configure stuff...
-declare module "@tsparticles/shape-image" {
-  interface IImage {
-    rockerSmooth?: { enabled?: boolean; minDeg?: number; maxDeg?: number; periodSec?: number };
-    rockerStep?: { enabled?: boolean; lowDeg?: number; highDeg?: number; holdSec?: number };
-  }
-}
+/**
+ * Plugins are registered on the shared tsParticles engine, so load them once per page
+ */
+let engineReady: Promise<void> | null = null;
 
 /**
  * Header particles component for TSParticles integration
  * Provides interactive particle effects with responsive design
  * Uses direct TSParticles engine API for maximum control
- * Features custom leaf image particles with enhanced visual appeal and custom rotation effects
+ * Renders a named preset (picked by date when 'auto', recolored for the theme) or explicit options, and
+ * reloads the container cleanly when either changes at runtime
+ * Stays off under reduced motion, pauses while off-screen or in a hidden tab, and
+ * scales itself down (then off) when frame times show the device can't keep up
  */
 @Component({
   selector: 'app-header-particles',
@@ -35,6 +41,12 @@ declare module "@tsparticles/shape-image" {
 export class HeaderParticlesComponent implements AfterViewInit, OnDestroy {
   // inputs
   class = input<string | string[] | { [classes: string]: boolean }>('');
+  /** Named preset to render; 'auto' picks one for the current date */
+  preset = input<ParticlePresetName | 'auto'>('auto');
+  /** Theme colors applied to the preset; null keeps the preset's own colors */
+  colors = input<string[] | null>(null);
+  /** Explicit tsParticles options; takes precedence over preset when set */
+  options = input<ISourceOptions | null>(null);
 
   // refs
   @ViewChild('tsparticles', { static: true }) tsparticles!: ElementRef<HTMLCanvasElement>;
@@ -44,227 +56,207 @@ export class HeaderParticlesComponent implements AfterViewInit, OnDestroy {
   private initPromise: Promise<Container | null> | null = null;
   private destroyed = false;
   private resizeRaf: number | null = null;
+  private viewReady = false;
+  private onScreen = true;
+  private visibilityObserver: IntersectionObserver | null = null;
+  private frameRaf: number | null = null;
+  private lastFrameTime = 0;
+  private frameMonitor = new FrameTimeMonitor();
+
+  /**
+   * Options that will actually be loaded
+   */
+  readonly resolvedOptions = computed<ISourceOptions>(() => {
+    const options = this.options();
+    if (options) return options;
+
+    const name = this.preset();
+    const preset = PARTICLE_PRESETS[name === 'auto' ? seasonalPreset(new Date()) : name];
+    const colors = this.colors();
+    return colors ? withParticleColors(preset, colors) : preset;
+  });
+
+  /**
+   * Resolved options adjusted for motion preferences and device speed; null renders nothing
+   */
+  private readonly effectiveOptions = computed<ISourceOptions | null>(() => {
+    if (!this.motion.particlesEnabled()) return null;
+    const options = this.resolvedOptions();
+    return this.motion.particleQuality() === 'reduced' ? scaleParticleOptions(options, 0.5, 60) : options;
+  });
 
   // values
   private platformId = inject(PLATFORM_ID);
 
   // services
   private zone = inject(NgZone);
+  private motion = inject(MotionPreferencesService);
+  private host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private document = inject(DOCUMENT);
+
+  constructor() {
+    // switch presets (or motion/quality settings) at runtime; the first load happens in ngAfterViewInit
+    effect(() => {
+      this.effectiveOptions();
+      if (this.viewReady) {
+        untracked(() => this.reload());
+      }
+    });
+  }
 
   /**
    * Enable custom particle updaters for enhanced rotation effects
-   * Adds smooth rocking motion and step-based rotation animations
+   * Registers the rotation motion plugin; repeated calls are no-ops
    */
   async enableFeatures() {
-    await tsParticles.addParticleUpdater("rockerSmooth", async () => {
-      return {
-        init() { },
-        isEnabled: (p: Particle) => !!(p.shapeData as IImage | undefined)?.rockerSmooth?.enabled,
-        update(p: Particle, delta: IDelta) {
-          if (!(this as IParticleUpdater).isEnabled(p)) return;
-          const img = p.shapeData as IImage | undefined;
-          const cfg = img?.rockerSmooth ?? {};
-          const a0 = cfg.minDeg ?? 0;
-          const a1 = cfg.maxDeg ?? 30;
-          const period = cfg.periodSec ?? 4;
-
-          const center = (a0 + a1) / 2;
-          const amp = (a1 - a0) / 2;
-
-          const st = ((p as any).__rock ??= { t: Math.random() * period });
-          st.t += delta.value / 1000;
-          const omega = (2 * Math.PI) / period;
-          const deg = center + amp * Math.sin(omega * st.t);
-
-          p.rotation = (deg * Math.PI) / 180;
-        }
-      };
-    });
-
-    await tsParticles.addParticleUpdater("rockerStep", async () => {
-      return {
-        init() { },
-        isEnabled: (p: Particle) => !!(p.shapeData as IImage | undefined)?.rockerStep?.enabled,
-        update(p: Particle, delta: IDelta) {
-          if (!(this as IParticleUpdater).isEnabled(p)) return;
-          const img = p.shapeData as IImage | undefined;
-          const cfg = img?.rockerStep ?? {};
-          const aLow = cfg.lowDeg ?? 0;
-          const aHigh = cfg.highDeg ?? 30;
-          const hold = cfg.holdSec ?? 2;
-
-          const st = ((p as any).__rockStep ??= { t: 0 });
-          st.t += delta.value / 1000;
-
-          const cycle = 2 * hold;
-          const phase = st.t % cycle;
-          const deg = phase < hold ? aLow : aHigh;
-
-          p.rotation = (deg * Math.PI) / 180;
-        }
-      };
-    });
+    await loadRotationUpdaters(tsParticles);
   }
 
   /**
    * Initialize TSParticles after view initialization
    * Runs outside Angular zone for optimal performance
-   * Includes comprehensive error handling and responsive configuration
-   * Features custom leaf image particles with interactive effects and enhanced rotation
    */
   async ngAfterViewInit(): Promise<void> {
     if (!isPlatformBrowser(this.platformId)) return;
 
     if (this.initPromise) return;
 
-    this.initPromise = this.zone.runOutsideAngular(async () => {
-      try {
+    this.viewReady = true;
+    this.observeVisibility();
+    await this.reload(); // awaiting should keep hook tidy
+  }
+
+  /**
+   * (Re)load the particle container with the current options
+   * Loads are chained on initPromise so a switch never races an in-flight load
+   */
+  private reload(): Promise<Container | null> {
+    const previous = this.initPromise ?? Promise.resolve(null);
+
+    this.initPromise = previous.then(() =>
+      this.zone.runOutsideAngular(() => this.loadContainer(this.effectiveOptions()))
+    );
+
+    return this.initPromise;
+  }
+
+  /**
+   * Load plugins once, replace any existing container and start the new one
+   * Includes comprehensive error handling and the destroyed guards
+   * @param options - tsParticles options to load; null only tears down the current container
+   */
+  private async loadContainer(options: ISourceOptions | null): Promise<Container | null> {
+    try {
+      engineReady ??= (async () => {
         await loadBasic(tsParticles);
         await loadImageShape(tsParticles);
         await loadExternalPushInteraction(tsParticles);
         await loadExternalRepulseInteraction(tsParticles);
         await loadParticlesLinksInteraction(tsParticles);
         await this.enableFeatures();
+      })();
+      await engineReady;
+
+      // abort early
+      if (this.destroyed) return null;
+
+      // tear down the previous preset before loading the next one into the same element
+      this.stopFrameMonitor();
+      this.container?.destroy();
+      this.container = null;
+
+      if (!options) return null;
+
+      const container = await tsParticles.load({
+        element: this.tsparticles.nativeElement,
+        options
+      });
 
-        // abort early
-        if (this.destroyed) return null;
-
-        const container = await tsParticles.load({
-          element: this.tsparticles.nativeElement,
-          options: {
-            background: {
-              color: {
-                value: 'transparent',
-              },
-            },
-            fpsLimit: 120,
-            interactivity: {
-              detectsOn: InteractivityDetect.window,
-              events: {
-                onClick: {
-                  enable: false,
-                  mode: 'push',
-                },
-                onHover: {
-                  enable: true,
-                  mode: 'repulse',
-                },
-                resize: {
-                  enable: true,
-                },
-              },
-              modes: {
-                push: {
-                  quantity: 4,
-                },
-                repulse: {
-                  distance: 200,
-                  duration: 0.4,
-                },
-              },
-            },
-            particles: {
-              color: {
-                value: ['#ffffff', '#a48770', '#1c1511'],
-              },
-              move: {
-                direction: MoveDirection.bottomLeft,
-                enable: true,
-                random: false,
-                speed: 1,
-                straight: false,
-              },
-              number: {
-                density: {
-                  enable: true,
-                },
-                value: 50,
-              },
-              shape: {
-                type: 'image',
-                options: {
-                  image: {
-                    src: '/Particles/Leaf-GIF.gif',
-                    width: 100,
-                    height: 100,
-                    rockerSmooth: {enabled: true, minDeg: 0, maxDeg: 25, periodSec: 3 }
-                  }
-                }
-              },
-              size: {
-                value: { min: 30, max: 60 },
-                animation: {
-                  enable: true,
-                  speed: 2,
-                  sync: false,
-                },
-              },
-              rotate: {
-                value: 0,
-                random: true,
-                direction: "clockwise",
-                animation: {
-                  enable: true,
-                  speed: 10,
-                  sync: false
-                }
-              }
-            },
-            detectRetina: true,
-            responsive: [
-              {
-                maxWidth: 768,
-                options: {
-                  particles: {
-                    number: {
-                      value: 25,
-                    },
-                    move: {
-                      speed: 0.5,
-                    },
-                    size: {
-                      value: { min: 8, max: 20 },
-                    },
-                  },
-                },
-              },
-              {
-                maxWidth: 480,
-                options: {
-                  particles: {
-                    number: {
-                      value: 15,
-                    },
-                    links: {
-                      enable: false,
-                    },
-                    size: {
-                      value: { min: 6, max: 15 },
-                    },
-                  },
-                },
-              },
-            ],
-          }
-        });
-
-        if (this.destroyed) {
-          // if somehow the component ends up already destroyed at this point, do immediate clean-up in hopes of preventing odd race conditions
-          container?.destroy();
-          return null;
-        }
-
-        this.container = container ?? null;
-        this.container?.play();
-
-        return this.container;
-      } catch (err) {
-        console.error('tsParticles init failed:', err);
+      if (this.destroyed) {
+        // if somehow the component ends up already destroyed at this point, do immediate clean-up in hopes of preventing odd race conditions
+        container?.destroy();
         return null;
       }
+
+      this.container = container ?? null;
+      this.updatePlayback();
+
+      return this.container;
+    } catch (err) {
+      console.error('tsParticles init failed:', err);
+      engineReady = null;
+      return null;
+    }
+  }
+
+  /**
+   * Pause while the tab is in the background
+   */
+  @HostListener('document:visibilitychange')
+  onVisibilityChange() {
+    this.updatePlayback();
+  }
+
+  /**
+   * Watch whether the canvas is on screen so it can pause once the hero scrolls away
+   */
+  private observeVisibility(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    this.visibilityObserver = new IntersectionObserver(([entry]) => {
+      this.onScreen = entry.isIntersecting;
+      this.updatePlayback();
+    });
+    this.visibilityObserver.observe(this.host.nativeElement);
+  }
+
+  /**
+   * Play only while visible; frame times are measured while playing
+   */
+  private updatePlayback(): void {
+    if (!this.container) return;
+
+    if (this.onScreen && !this.document.hidden) {
+      this.container.play();
+      this.startFrameMonitor();
+    } else {
+      this.container.pause();
+      this.stopFrameMonitor();
+    }
+  }
+
+  /**
+   * Sample frame times outside Angular and step particle quality down when they're too slow
+   * Stepping down changes effectiveOptions, which reloads the container
+   */
+  private startFrameMonitor(): void {
+    if (this.frameRaf !== null || this.motion.particleQuality() === 'off') return;
+
+    this.lastFrameTime = 0;
+    this.frameMonitor.reset();
+
+    const sample = (time: number) => {
+      const tooSlow = this.lastFrameTime > 0 && this.frameMonitor.record(time - this.lastFrameTime);
+      this.lastFrameTime = time;
+
+      if (tooSlow) {
+        this.frameRaf = null;
+        this.zone.run(() => this.motion.degradeParticles());
+        return;
+      }
+      this.frameRaf = requestAnimationFrame(sample);
+    };
+
+    this.zone.runOutsideAngular(() => {
+      this.frameRaf = requestAnimationFrame(sample);
     });
+  }
 
-    await this.initPromise; // awaiting should keep hook tidy
+  private stopFrameMonitor(): void {
+    if (this.frameRaf !== null) {
+      cancelAnimationFrame(this.frameRaf);
+      this.frameRaf = null;
+    }
   }
 
   /**
@@ -297,6 +289,9 @@ export class HeaderParticlesComponent implements AfterViewInit, OnDestroy {
       cancelAnimationFrame(this.resizeRaf);
       this.resizeRaf = null;
     }
+    this.stopFrameMonitor();
+    this.visibilityObserver?.disconnect();
+    this.visibilityObserver = null;
 
     // if container exists, stop and destroy it
     try {
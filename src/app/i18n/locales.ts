@@ -0,0 +1,53 @@
+/**
+ * Site languages
+ */
+export type LocaleCode = 'en' | 'es';
+
+/**
+ * A language offered in the navbar switcher
+ */
+export interface SupportedLocale {
+  code: LocaleCode;
+  /** Name in its own language, as shown in the switcher */
+  label: string;
+  /** BCP 47 tag used for Intl date, number and currency formatting */
+  intl: string;
+}
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+/**
+ * Languages in switcher order; the default comes first
+ */
+export const SUPPORTED_LOCALES: SupportedLocale[] = [
+  { code: 'en', label: 'English', intl: 'en-US' },
+  { code: 'es', label: 'Español', intl: 'es-ES' }
+];
+
+/**
+ * Translated text fields for one piece of content, per language
+ * The default language lives in the untranslated fields themselves
+ */
+export type Translations<T> = Partial<Record<LocaleCode, Partial<T>>>;
+
+/**
+ * Type guard for supported locale codes
+ * @param value - Candidate code (e.g. from storage or the catalog)
+ */
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return SUPPORTED_LOCALES.some(locale => locale.code === value);
+}
+
+/**
+ * Pick the first supported language from a browser preference list
+ * Region subtags are ignored, so "es-MX" selects Spanish
+ * @param languages - Preferred languages, most preferred first (navigator.languages)
+ * @returns The matching locale, or null when none is supported
+ */
+export function matchLocale(languages: readonly string[]): LocaleCode | null {
+  for (const language of languages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (isLocaleCode(code)) return code;
+  }
+  return null;
+}
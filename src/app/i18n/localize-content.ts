@@ -0,0 +1,76 @@
+import { Artwork } from '../models/artwork.model';
+import { Profile } from '../models/profile.model';
+import { ServiceOffering } from '../models/service.model';
+import { Testimonial } from '../models/testimonial.model';
+import { LocaleCode } from './locales';
+
+/**
+ * Overlay an artwork's translated title, alt text, description and process notes
+ * @param artwork - Artwork as written in the catalog
+ * @param locale - Language to show
+ * @returns A translated copy, or the artwork itself when there is nothing to translate
+ */
+export function localizeArtwork(artwork: Artwork, locale: LocaleCode): Artwork {
+  const translation = artwork.translations?.[locale];
+  if (!translation) return artwork;
+
+  const { notes, ...copy } = translation;
+  return {
+    ...artwork,
+    ...copy,
+    process: notes && artwork.process ? { ...artwork.process, notes } : artwork.process
+  };
+}
+
+/**
+ * Overlay a service's translated copy, including package and add-on labels
+ * @param service - Service as written in data/services.ts
+ * @param locale - Language to show
+ */
+export function localizeService(service: ServiceOffering, locale: LocaleCode): ServiceOffering {
+  const translation = service.translations?.[locale];
+  if (!translation) return service;
+
+  const { packages, addOns, ...copy } = translation;
+  return {
+    ...service,
+    ...copy,
+    packages: service.packages.map(pkg => ({ ...pkg, label: packages?.[pkg.id] ?? pkg.label })),
+    addOns: service.addOns.map(addOn => ({ ...addOn, label: addOns?.[addOn.id] ?? addOn.label }))
+  };
+}
+
+/**
+ * Overlay the profile's translated copy, including timeline entries and skill group labels
+ * @param profile - Profile from data/profile.ts
+ * @param locale - Language to show
+ */
+export function localizeProfile(profile: Profile, locale: LocaleCode): Profile {
+  const translation = profile.translations?.[locale];
+  if (!translation) return profile;
+
+  const { avatarAlt, timeline, skills, ...copy } = translation;
+  return {
+    ...profile,
+    ...copy,
+    avatar: { ...profile.avatar, alt: avatarAlt ?? profile.avatar.alt },
+    timeline: profile.timeline.map(entry => ({ ...entry, ...timeline?.[entry.id] })),
+    skills: profile.skills.map(group => ({ ...group, label: skills?.[group.id] ?? group.label }))
+  };
+}
+
+/**
+ * Overlay a testimonial's translated quote and client title
+ * @param testimonial - Testimonial from data/testimonials.ts
+ * @param locale - Language to show
+ */
+export function localizeTestimonial(testimonial: Testimonial, locale: LocaleCode): Testimonial {
+  const translation = testimonial.translations?.[locale];
+  if (!translation) return testimonial;
+
+  return {
+    ...testimonial,
+    quote: translation.quote ?? testimonial.quote,
+    client: { ...testimonial.client, title: translation.clientTitle ?? testimonial.client.title }
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * English UI strings; the source of truth for message keys
+ * {name} placeholders are filled from the params passed to the `t` pipe or LocaleService.translate
+ * Keys ending in .one/.other are plural forms, selected by the "count" param
+ */
+export const MESSAGES_EN = {
+  // navigation
+  'nav.label': 'Main navigation',
+  'nav.home': 'Home',
+  'nav.gallery': 'Gallery',
+  'nav.services': 'Services',
+  'nav.testimonials': 'Testimonials',
+  'nav.aboutMe': 'About Me',
+  'nav.pageLabel': '{label} page',
+  'nav.toggleMenu': 'Toggle mobile menu',
+  'nav.motionOn': 'Animations on',
+  'nav.motionOff': 'Animations off',
+  'nav.reduceMotion': 'Reduce motion',
+  'nav.restoreMotion': 'Turn animations back on',
+  'nav.language': 'Language',
+  'nav.theme': 'Color theme',
+
+  // themes
+  'theme.system': 'Match system',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.halloween': 'Halloween',
+  'theme.winter': 'Winter',
+
+  // hero
+  'hero.label': 'Hero section with background image and particle effects',
+  'hero.imageAlt': 'Hero background image - Swamp Crosswalk',
+  'hero.title': "Welcome to SebbyAshan's Page",
+  'hero.subtitle': 'Behold! my Cozy Swamp!',
+  'hero.commissionsOpen.one': 'Commissions open · {count} slot left',
+  'hero.commissionsOpen.other': 'Commissions open · {count} slots left',
+  'hero.commissionsWaitlist': 'Commissions full · waitlist open',
+  'hero.commissionsClosed': 'Commissions closed for now',
+
+  // gallery
+  'gallery.label': 'Image Gallery',
+  'gallery.title': 'Gallery',
+  'gallery.loadError': 'The gallery could not be loaded. Please try again later.',
+  'gallery.viewFullSize': 'View Full Size',
+  'gallery.viewFullSizeLabel': 'View image in full size',
+  'gallery.viewArtwork': 'View {title} in full size',
+  'gallery.showing': 'Showing {shown} of {total} artworks',
+  'gallery.showMore': 'Show more artworks',
+  'gallery.filters.label': 'Filter artworks',
+  'gallery.filters.tags': 'Filter by tag',
+  'gallery.filters.all': 'All',
+  'gallery.filters.search': 'Search artworks',
+  'gallery.filters.searchLabel': 'Search artworks by title or description',
+  'gallery.filters.sort': 'Sort artworks',
+  'gallery.filters.count.one': '{count} artwork',
+  'gallery.filters.count.other': '{count} artworks',
+  'gallery.sort.featured': 'Featured',
+  'gallery.sort.newest': 'Newest',
+  'gallery.sort.oldest': 'Oldest',
+  'gallery.sort.title': 'Title (A-Z)',
+  'gallery.tag.fan-art': 'Fan Art',
+  'gallery.tag.game-art': 'Game Art',
+  'gallery.tag.backgrounds': 'Backgrounds',
+  'gallery.tag.seasonal': 'Seasonal',
+
+  // image modal
+  'modal.label': 'Full size view of {title}',
+  'modal.close': 'Close modal',
+  'modal.previous': 'Previous image',
+  'modal.next': 'Next image',
+  'modal.zoom': 'Zoom',
+  'modal.zoomIn': 'Zoom in',
+  'modal.zoomOut': 'Zoom out',
+  'modal.fit': 'Fit',
+  'modal.fitLabel': 'Fit image to screen',
+  'modal.actualSize': '100%',
+  'modal.actualSizeLabel': 'View at 100%',
+  'modal.counter': '{index} of {total}',
+  'modal.announce': '{title}, image {index} of {total}',
+  'detail.process': 'Process',
+  'detail.stepper': 'Process stages',
+  'detail.stage.sketch': 'Sketch',
+  'detail.stage.lineart': 'Line art',
+  'detail.stage.flats': 'Flat colors',
+  'detail.stage.final': 'Final',
+  'detail.stage.crop': 'Close-up',
+  'detail.stageAlt': '{alt} ({stage})',
+  'detail.step': 'Step {index} of {total}: {stage}',
+  'detail.previousStage': 'Previous stage',
+  'detail.nextStage': 'Next stage',
+  'detail.compare': 'Before and after',
+  'detail.compareLabel': 'Compare {before} with {after}',
+  'detail.compareValue': '{percent}% {before}',
+  'detail.timelapse': 'Timelapse',
+  'detail.timelapseLabel': 'Timelapse of {title}',
+  'detail.play': 'Play timelapse',
+  'detail.pause': 'Pause timelapse',
+  'detail.makingOf': 'Making of',
+  'detail.tools': 'Tools',
+  'detail.canvas': 'Canvas',
+  'detail.canvasSize': '{width} × {height} px',
+  'detail.timeSpent': 'Time spent',
+  'detail.hours.one': '{count} hour',
+  'detail.hours.other': '{count} hours',
+  'detail.related': 'You might also like',
+
+  // services
+  'services.label': 'Services',
+  'services.title': 'Services',
+  'services.requestCommission': 'Request a commission',
+
+  // carousel
+  'carousel.slide': '{index} of {total}',
+  'carousel.goTo': 'Go to {title}',
+  'carousel.previous': 'Previous slide',
+  'carousel.next': 'Next slide',
+  'carousel.pauseAutoPlay': 'Pause auto-play',
+  'carousel.startAutoPlay': 'Start auto-play',
+
+  // testimonials
+  'testimonials.title': 'Kind Words',
+  'testimonials.label': 'Client testimonials',
+  'testimonials.filterLabel': 'Filter testimonials by service',
+  'testimonials.all': 'All',
+  'testimonials.viewArtwork': 'See {title}',
+  'testimonials.viewService': 'About {title}',
+  'testimonials.clients': "Clients I've worked with",
+
+  // status badge
+  'status.open.one': 'Open · {count} slot',
+  'status.open.other': 'Open · {count} slots',
+  'status.waitlist': 'Waitlist',
+  'status.closed': 'Closed',
+  'status.turnaround': '~{weeks} wk turnaround',
+  'status.turnaroundRange': '{min}–{max} wk turnaround',
+
+  // quote estimator
+  'estimator.label': '{title} price estimator',
+  'estimator.title': 'Estimate a {title} order',
+  'estimator.package': 'Package',
+  'estimator.quantity': 'Quantity',
+  'estimator.currency': 'Currency',
+  'estimator.each': '+{price} each',
+  'estimator.total': 'Estimated price:',
+  'estimator.note': 'Final price depends on complexity and is confirmed before work starts.',
+  'estimator.submit': 'Request this quote',
+
+  // commission form
+  'commission.label': 'Commission request',
+  'commission.title': 'Commission',
+  'commission.success.title': 'Thank you!',
+  'commission.success.before': 'Your request was received. Your reference code is',
+  'commission.success.after': 'Keep it handy for any follow-up questions.',
+  'commission.success.again': 'Send another request',
+  'commission.quote': 'Estimated price:',
+  'commission.quoteAddOns': '(with {addOns})',
+  'commission.removeQuote': 'Remove estimate',
+  'commission.service': 'Service',
+  'commission.chooseService': 'Choose a service',
+  'commission.serviceError': 'Please choose a service.',
+  'commission.package': 'Package',
+  'commission.choosePackage': 'Choose a package',
+  'commission.chooseServiceFirst': 'Choose a service first',
+  'commission.packageError': 'Please choose a package.',
+  'commission.quantity': 'Quantity',
+  'commission.quantityError': 'Enter a whole number from 1 to 50.',
+  'commission.deadline': 'Deadline',
+  'commission.optional': '(optional)',
+  'commission.deadlineError': "The deadline can't be in the past.",
+  'commission.description': 'Describe your idea',
+  'commission.descriptionPlaceholder': 'Characters, poses, colors, where it will be used...',
+  'commission.descriptionTooLong': 'Please keep it under 2000 characters.',
+  'commission.descriptionTooShort': 'Please give at least a couple of sentences (20+ characters).',
+  'commission.references': 'Reference images',
+  'commission.referencesHint': '(optional, up to {count}, {size} MB each)',
+  'commission.removeReference': 'Remove {name}',
+  'commission.tooManyFiles': 'Please attach at most {count} images.',
+  'commission.fileType': 'Only image files can be attached.',
+  'commission.fileSize': 'Each image must be {size} MB or smaller.',
+  'commission.email': 'Contact email',
+  'commission.emailError': 'Please enter a valid email address.',
+  'commission.submitError': 'Something went wrong. Please try again or reach out directly.',
+  'commission.sending': 'Sending...',
+  'commission.send': 'Send request',
+
+  // order tracker
+  'tracker.title': 'Track your commission',
+  'tracker.reference': 'Reference code',
+  'tracker.lookingUp': 'Looking up...',
+  'tracker.check': 'Check status',
+  'tracker.queuePosition': '#{position} in queue',
+  'tracker.updated': 'Last updated {date}',
+  'tracker.notFound': "We couldn't find a commission with that reference code. Please double-check it.",
+  'tracker.unavailable': 'The order status is unavailable right now. Please try again later.',
+  'tracker.stage.queued': 'In queue',
+  'tracker.stage.sketch': 'Sketch',
+  'tracker.stage.lineart': 'Lineart',
+  'tracker.stage.color': 'Color',
+  'tracker.stage.delivered': 'Delivered',
+
+  // about me
+  'about.label': 'About Me',
+  'about.title': 'About Me',
+  'about.links': 'Find me online',
+  'about.linkLabel': '{platform}: {handle} (opens in a new tab)',
+  'about.contact': 'Contact',
+  'about.email': 'Email',
+  'about.discord': 'Discord',
+  'about.copy': 'Copy',
+  'about.copiedShort': 'Copied!',
+  'about.copyEmail': 'Copy email address',
+  'about.copyDiscord': 'Copy Discord handle',
+  'about.copied': 'Copied {value} to the clipboard',
+  'about.copyFailed': "Couldn't copy to the clipboard",
+  'about.showMore': 'Timeline & skills',
+  'about.showLess': 'Show less',
+  'about.timeline': 'Timeline',
+  'about.kind.career': 'Career',
+  'about.kind.commission': 'Commissions',
+  'about.skills': 'Tools & skills',
+
+  // update prompt
+  'update.available': 'A new version of the site is available.',
+  'update.broken': 'This page is out of date and needs a reload.',
+  'update.reload': 'Reload',
+  'update.dismiss': 'Later',
+
+  // admin
+  'admin.title': 'Content admin',
+  'admin.nav': 'Admin sections',
+  'admin.artworks': 'Artworks',
+  'admin.services': 'Services',
+  'admin.backToSite': 'Back to the site',
+  'admin.signOut': 'Sign out',
+  'admin.loading': 'Loading content…',
+  'admin.loadError': 'The content could not be loaded.',
+  'admin.retry': 'Try again',
+  'admin.login.password': 'Password',
+  'admin.login.passwordRequired': 'Please enter the admin password.',
+  'admin.login.wrongPassword': 'That password is not right.',
+  'admin.login.error': 'Signing in failed. Please try again.',
+  'admin.login.signIn': 'Sign in',
+  'admin.login.signingIn': 'Signing in…',
+  'admin.list.addArtwork': 'Add artwork',
+  'admin.list.addService': 'Add service',
+  'admin.list.empty': 'Nothing here yet.',
+  'admin.list.error': 'That change could not be saved. Please try again.',
+  'admin.list.hiddenBadge': 'Hidden',
+  'admin.list.moveUp': 'Move {title} up',
+  'admin.list.moveDown': 'Move {title} down',
+  'admin.list.moved': '{title} moved to position {position}',
+  'admin.list.hide': 'Hide',
+  'admin.list.show': 'Show',
+  'admin.list.hideLabel': 'Hide {title} from the site',
+  'admin.list.showLabel': 'Show {title} on the site',
+  'admin.list.hidden': '{title} is now hidden',
+  'admin.list.shown': '{title} is now shown',
+  'admin.list.edit': 'Edit',
+  'admin.list.editLabel': 'Edit {title}',
+  'admin.editor.newArtwork': 'New artwork',
+  'admin.editor.editArtwork': 'Edit artwork',
+  'admin.editor.newService': 'New service',
+  'admin.editor.editService': 'Edit service',
+  'admin.editor.backToList': 'Back to the list',
+  'admin.editor.notFound': 'There is nothing with that id.',
+  'admin.editor.image': 'Image',
+  'admin.editor.dimensions': '{width} × {height} px',
+  'admin.editor.id': 'Id',
+  'admin.editor.idHint': 'Used in links; lowercase words joined by dashes. It cannot be changed later.',
+  'admin.editor.idError': 'Use lowercase letters, numbers and single dashes, e.g. "city-rain-walk".',
+  'admin.editor.idTaken': 'That id is already taken.',
+  'admin.editor.title': 'Title',
+  'admin.editor.alt': 'Alt text',
+  'admin.editor.description': 'Description',
+  'admin.editor.required': 'This field is required.',
+  'admin.editor.createdAt': 'Finished on',
+  'admin.editor.createdAtError': 'Please pick a date.',
+  'admin.editor.tags': 'Tags',
+  'admin.editor.tagsHint': '(comma-separated)',
+  'admin.editor.tagsError': 'Add at least one tag.',
+  'admin.editor.downloadable': 'Full resolution in the viewer',
+  'admin.editor.hidden': 'Hidden from the site',
+  'admin.editor.packages': 'Packages',
+  'admin.editor.packageId': 'Id',
+  'admin.editor.packageLabel': 'Label',
+  'admin.editor.priceMin': 'From',
+  'admin.editor.priceMax': 'To',
+  'admin.editor.addPackage': 'Add package',
+  'admin.editor.removePackage': 'Remove package {index}',
+  'admin.editor.packageError': 'Each package needs an id, a label and prices of 0 or more.',
+  'admin.editor.priceRangeError': 'The starting price cannot be above the top price.',
+  'admin.editor.save': 'Save',
+  'admin.editor.saving': 'Saving…',
+  'admin.editor.saved': '{title} saved',
+  'admin.editor.saveError': 'Saving failed.',
+  'admin.image.hint': 'JPEG, PNG, WebP or GIF, up to {size} MB.',
+  'admin.image.fileType': 'Please pick a JPEG, PNG, WebP or GIF image.',
+  'admin.image.fileSize': 'Images can be up to {size} MB.',
+  'admin.image.required': 'Please upload an image.',
+  'admin.image.uploading': 'Uploading…',
+  'admin.image.uploaded': 'Image uploaded.',
+  'admin.image.uploadError': 'The image could not be uploaded.',
+  'admin.bundle.title': 'Export & import',
+  'admin.bundle.export': 'Export',
+  'admin.bundle.exportHint': 'Download every artwork and service, hidden ones included, as a JSON file.',
+  'admin.bundle.download': 'Download content',
+  'admin.bundle.exportError': 'The export failed. Please try again.',
+  'admin.bundle.import': 'Import',
+  'admin.bundle.importHint': 'Content file (.json)',
+  'admin.bundle.ready': 'Ready to import {artworks} artworks and {services} services.',
+  'admin.bundle.replace': 'Replace all content',
+  'admin.bundle.cancel': 'Cancel',
+  'admin.bundle.invalid': 'This file cannot be imported:',
+  'admin.bundle.notJson': 'The file is not valid JSON.',
+  'admin.bundle.importError': 'The import failed.',
+  'admin.bundle.imported': 'Imported {artworks} artworks and {services} services'
+} as const;
+
+/**
+ * Every UI message key
+ */
+export type MessageKey = keyof typeof MESSAGES_EN;
+
+/**
+ * Base keys of plural messages ("gallery.filters.count" for ".one"/".other")
+ */
+export type PluralMessageKey = MessageKey extends infer K ? K extends `${infer Base}.other` ? Base : never : never;
+
+/**
+ * A complete set of UI strings for one language
+ */
+export type Messages = Record<MessageKey, string>;
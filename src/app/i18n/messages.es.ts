@@ -0,0 +1,317 @@
+import { Messages } from './messages.en';
+
+/**
+ * Spanish UI strings
+ */
+export const MESSAGES_ES: Messages = {
+  // navigation
+  'nav.label': 'Navegación principal',
+  'nav.home': 'Inicio',
+  'nav.gallery': 'Galería',
+  'nav.services': 'Servicios',
+  'nav.testimonials': 'Opiniones',
+  'nav.aboutMe': 'Sobre mí',
+  'nav.pageLabel': 'Página {label}',
+  'nav.toggleMenu': 'Abrir o cerrar el menú',
+  'nav.motionOn': 'Animaciones activadas',
+  'nav.motionOff': 'Animaciones desactivadas',
+  'nav.reduceMotion': 'Reducir movimiento',
+  'nav.restoreMotion': 'Volver a activar las animaciones',
+  'nav.language': 'Idioma',
+  'nav.theme': 'Tema de color',
+
+  // themes
+  'theme.system': 'Según el sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.halloween': 'Halloween',
+  'theme.winter': 'Invierno',
+
+  // hero
+  'hero.label': 'Portada con imagen de fondo y efectos de partículas',
+  'hero.imageAlt': 'Imagen de fondo de la portada - Paso de cebra en el pantano',
+  'hero.title': 'Bienvenidos a la página de SebbyAshan',
+  'hero.subtitle': '¡Contemplad mi acogedor pantano!',
+  'hero.commissionsOpen.one': 'Encargos abiertos · queda {count} plaza',
+  'hero.commissionsOpen.other': 'Encargos abiertos · quedan {count} plazas',
+  'hero.commissionsWaitlist': 'Encargos completos · lista de espera abierta',
+  'hero.commissionsClosed': 'Encargos cerrados por ahora',
+
+  // gallery
+  'gallery.label': 'Galería de imágenes',
+  'gallery.title': 'Galería',
+  'gallery.loadError': 'No se pudo cargar la galería. Inténtalo de nuevo más tarde.',
+  'gallery.viewFullSize': 'Ver a tamaño completo',
+  'gallery.viewFullSizeLabel': 'Ver la imagen a tamaño completo',
+  'gallery.viewArtwork': 'Ver {title} a tamaño completo',
+  'gallery.showing': 'Mostrando {shown} de {total} obras',
+  'gallery.showMore': 'Ver más obras',
+  'gallery.filters.label': 'Filtrar obras',
+  'gallery.filters.tags': 'Filtrar por etiqueta',
+  'gallery.filters.all': 'Todas',
+  'gallery.filters.search': 'Buscar obras',
+  'gallery.filters.searchLabel': 'Buscar obras por título o descripción',
+  'gallery.filters.sort': 'Ordenar obras',
+  'gallery.filters.count.one': '{count} obra',
+  'gallery.filters.count.other': '{count} obras',
+  'gallery.sort.featured': 'Destacadas',
+  'gallery.sort.newest': 'Más recientes',
+  'gallery.sort.oldest': 'Más antiguas',
+  'gallery.sort.title': 'Título (A-Z)',
+  'gallery.tag.fan-art': 'Fan art',
+  'gallery.tag.game-art': 'Arte de videojuegos',
+  'gallery.tag.backgrounds': 'Fondos',
+  'gallery.tag.seasonal': 'De temporada',
+
+  // image modal
+  'modal.label': 'Vista a tamaño completo de {title}',
+  'modal.close': 'Cerrar',
+  'modal.previous': 'Imagen anterior',
+  'modal.next': 'Imagen siguiente',
+  'modal.zoom': 'Zoom',
+  'modal.zoomIn': 'Acercar',
+  'modal.zoomOut': 'Alejar',
+  'modal.fit': 'Ajustar',
+  'modal.fitLabel': 'Ajustar la imagen a la pantalla',
+  'modal.actualSize': '100%',
+  'modal.actualSizeLabel': 'Ver al 100%',
+  'modal.counter': '{index} de {total}',
+  'modal.announce': '{title}, imagen {index} de {total}',
+  'detail.process': 'Proceso',
+  'detail.stepper': 'Etapas del proceso',
+  'detail.stage.sketch': 'Boceto',
+  'detail.stage.lineart': 'Entintado',
+  'detail.stage.flats': 'Colores base',
+  'detail.stage.final': 'Final',
+  'detail.stage.crop': 'Detalle',
+  'detail.stageAlt': '{alt} ({stage})',
+  'detail.step': 'Paso {index} de {total}: {stage}',
+  'detail.previousStage': 'Etapa anterior',
+  'detail.nextStage': 'Etapa siguiente',
+  'detail.compare': 'Antes y después',
+  'detail.compareLabel': 'Comparar {before} con {after}',
+  'detail.compareValue': '{percent}% {before}',
+  'detail.timelapse': 'Timelapse',
+  'detail.timelapseLabel': 'Timelapse de {title}',
+  'detail.play': 'Reproducir timelapse',
+  'detail.pause': 'Pausar timelapse',
+  'detail.makingOf': 'Cómo se hizo',
+  'detail.tools': 'Herramientas',
+  'detail.canvas': 'Lienzo',
+  'detail.canvasSize': '{width} × {height} px',
+  'detail.timeSpent': 'Tiempo dedicado',
+  'detail.hours.one': '{count} hora',
+  'detail.hours.other': '{count} horas',
+  'detail.related': 'También te puede gustar',
+
+  // services
+  'services.label': 'Servicios',
+  'services.title': 'Servicios',
+  'services.requestCommission': 'Solicitar un encargo',
+
+  // carousel
+  'carousel.slide': '{index} de {total}',
+  'carousel.goTo': 'Ir a {title}',
+  'carousel.previous': 'Diapositiva anterior',
+  'carousel.next': 'Diapositiva siguiente',
+  'carousel.pauseAutoPlay': 'Pausar la reproducción automática',
+  'carousel.startAutoPlay': 'Iniciar la reproducción automática',
+
+  // testimonials
+  'testimonials.title': 'Opiniones',
+  'testimonials.label': 'Opiniones de clientes',
+  'testimonials.filterLabel': 'Filtrar opiniones por servicio',
+  'testimonials.all': 'Todas',
+  'testimonials.viewArtwork': 'Ver {title}',
+  'testimonials.viewService': 'Sobre {title}',
+  'testimonials.clients': 'Clientes con los que he trabajado',
+
+  // status badge
+  'status.open.one': 'Abierto · {count} plaza',
+  'status.open.other': 'Abierto · {count} plazas',
+  'status.waitlist': 'Lista de espera',
+  'status.closed': 'Cerrado',
+  'status.turnaround': 'Entrega en ~{weeks} sem.',
+  'status.turnaroundRange': 'Entrega en {min}–{max} sem.',
+
+  // quote estimator
+  'estimator.label': 'Calculadora de precio de {title}',
+  'estimator.title': 'Calcula un pedido de {title}',
+  'estimator.package': 'Paquete',
+  'estimator.quantity': 'Cantidad',
+  'estimator.currency': 'Moneda',
+  'estimator.each': '+{price} c/u',
+  'estimator.total': 'Precio estimado:',
+  'estimator.note': 'El precio final depende de la complejidad y se confirma antes de empezar.',
+  'estimator.submit': 'Solicitar este presupuesto',
+
+  // commission form
+  'commission.label': 'Solicitud de encargo',
+  'commission.title': 'Encargos',
+  'commission.success.title': '¡Gracias!',
+  'commission.success.before': 'Hemos recibido tu solicitud. Tu código de referencia es',
+  'commission.success.after': 'Guárdalo para cualquier consulta posterior.',
+  'commission.success.again': 'Enviar otra solicitud',
+  'commission.quote': 'Precio estimado:',
+  'commission.quoteAddOns': '(con {addOns})',
+  'commission.removeQuote': 'Quitar el presupuesto',
+  'commission.service': 'Servicio',
+  'commission.chooseService': 'Elige un servicio',
+  'commission.serviceError': 'Elige un servicio.',
+  'commission.package': 'Paquete',
+  'commission.choosePackage': 'Elige un paquete',
+  'commission.chooseServiceFirst': 'Elige primero un servicio',
+  'commission.packageError': 'Elige un paquete.',
+  'commission.quantity': 'Cantidad',
+  'commission.quantityError': 'Introduce un número entero del 1 al 50.',
+  'commission.deadline': 'Fecha límite',
+  'commission.optional': '(opcional)',
+  'commission.deadlineError': 'La fecha límite no puede estar en el pasado.',
+  'commission.description': 'Describe tu idea',
+  'commission.descriptionPlaceholder': 'Personajes, poses, colores, dónde se usará...',
+  'commission.descriptionTooLong': 'Usa menos de 2000 caracteres.',
+  'commission.descriptionTooShort': 'Escribe al menos un par de frases (20 caracteres o más).',
+  'commission.references': 'Imágenes de referencia',
+  'commission.referencesHint': '(opcional, hasta {count}, {size} MB cada una)',
+  'commission.removeReference': 'Quitar {name}',
+  'commission.tooManyFiles': 'Adjunta como máximo {count} imágenes.',
+  'commission.fileType': 'Solo se pueden adjuntar imágenes.',
+  'commission.fileSize': 'Cada imagen debe ocupar {size} MB o menos.',
+  'commission.email': 'Correo de contacto',
+  'commission.emailError': 'Introduce un correo electrónico válido.',
+  'commission.submitError': 'Algo salió mal. Inténtalo de nuevo o escríbenos directamente.',
+  'commission.sending': 'Enviando...',
+  'commission.send': 'Enviar solicitud',
+
+  // order tracker
+  'tracker.title': 'Sigue tu encargo',
+  'tracker.reference': 'Código de referencia',
+  'tracker.lookingUp': 'Buscando...',
+  'tracker.check': 'Consultar estado',
+  'tracker.queuePosition': 'n.º {position} en la cola',
+  'tracker.updated': 'Última actualización: {date}',
+  'tracker.notFound': 'No encontramos ningún encargo con ese código de referencia. Revísalo, por favor.',
+  'tracker.unavailable': 'El estado del pedido no está disponible ahora mismo. Inténtalo más tarde.',
+  'tracker.stage.queued': 'En cola',
+  'tracker.stage.sketch': 'Boceto',
+  'tracker.stage.lineart': 'Líneas',
+  'tracker.stage.color': 'Color',
+  'tracker.stage.delivered': 'Entregado',
+
+  // about me
+  'about.label': 'Sobre mí',
+  'about.title': 'Sobre mí',
+  'about.links': 'Encuéntrame en',
+  'about.linkLabel': '{platform}: {handle} (se abre en una pestaña nueva)',
+  'about.contact': 'Contacto',
+  'about.email': 'Correo',
+  'about.discord': 'Discord',
+  'about.copy': 'Copiar',
+  'about.copiedShort': '¡Copiado!',
+  'about.copyEmail': 'Copiar correo electrónico',
+  'about.copyDiscord': 'Copiar usuario de Discord',
+  'about.copied': 'Se copió {value} al portapapeles',
+  'about.copyFailed': 'No se pudo copiar al portapapeles',
+  'about.showMore': 'Trayectoria y habilidades',
+  'about.showLess': 'Mostrar menos',
+  'about.timeline': 'Trayectoria',
+  'about.kind.career': 'Carrera',
+  'about.kind.commission': 'Encargos',
+  'about.skills': 'Herramientas y habilidades',
+
+  // update prompt
+  'update.available': 'Hay una nueva versión del sitio disponible.',
+  'update.broken': 'Esta página está desactualizada y hay que recargarla.',
+  'update.reload': 'Recargar',
+  'update.dismiss': 'Más tarde',
+
+  // admin
+  'admin.title': 'Administración de contenido',
+  'admin.nav': 'Secciones de administración',
+  'admin.artworks': 'Obras',
+  'admin.services': 'Servicios',
+  'admin.backToSite': 'Volver al sitio',
+  'admin.signOut': 'Cerrar sesión',
+  'admin.loading': 'Cargando contenido…',
+  'admin.loadError': 'No se pudo cargar el contenido.',
+  'admin.retry': 'Reintentar',
+  'admin.login.password': 'Contraseña',
+  'admin.login.passwordRequired': 'Introduce la contraseña de administración.',
+  'admin.login.wrongPassword': 'La contraseña no es correcta.',
+  'admin.login.error': 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+  'admin.login.signIn': 'Iniciar sesión',
+  'admin.login.signingIn': 'Iniciando sesión…',
+  'admin.list.addArtwork': 'Añadir obra',
+  'admin.list.addService': 'Añadir servicio',
+  'admin.list.empty': 'Aún no hay nada aquí.',
+  'admin.list.error': 'No se pudo guardar el cambio. Inténtalo de nuevo.',
+  'admin.list.hiddenBadge': 'Oculto',
+  'admin.list.moveUp': 'Subir {title}',
+  'admin.list.moveDown': 'Bajar {title}',
+  'admin.list.moved': '{title} movido a la posición {position}',
+  'admin.list.hide': 'Ocultar',
+  'admin.list.show': 'Mostrar',
+  'admin.list.hideLabel': 'Ocultar {title} del sitio',
+  'admin.list.showLabel': 'Mostrar {title} en el sitio',
+  'admin.list.hidden': '{title} ahora está oculto',
+  'admin.list.shown': '{title} ahora se muestra',
+  'admin.list.edit': 'Editar',
+  'admin.list.editLabel': 'Editar {title}',
+  'admin.editor.newArtwork': 'Nueva obra',
+  'admin.editor.editArtwork': 'Editar obra',
+  'admin.editor.newService': 'Nuevo servicio',
+  'admin.editor.editService': 'Editar servicio',
+  'admin.editor.backToList': 'Volver a la lista',
+  'admin.editor.notFound': 'No hay nada con ese id.',
+  'admin.editor.image': 'Imagen',
+  'admin.editor.dimensions': '{width} × {height} px',
+  'admin.editor.id': 'Id',
+  'admin.editor.idHint': 'Se usa en los enlaces; palabras en minúscula unidas por guiones. No se puede cambiar después.',
+  'admin.editor.idError': 'Usa minúsculas, números y guiones sueltos, p. ej. "city-rain-walk".',
+  'admin.editor.idTaken': 'Ese id ya está en uso.',
+  'admin.editor.title': 'Título',
+  'admin.editor.alt': 'Texto alternativo',
+  'admin.editor.description': 'Descripción',
+  'admin.editor.required': 'Este campo es obligatorio.',
+  'admin.editor.createdAt': 'Terminada el',
+  'admin.editor.createdAtError': 'Elige una fecha.',
+  'admin.editor.tags': 'Etiquetas',
+  'admin.editor.tagsHint': '(separadas por comas)',
+  'admin.editor.tagsError': 'Añade al menos una etiqueta.',
+  'admin.editor.downloadable': 'Resolución completa en el visor',
+  'admin.editor.hidden': 'Oculto en el sitio',
+  'admin.editor.packages': 'Paquetes',
+  'admin.editor.packageId': 'Id',
+  'admin.editor.packageLabel': 'Nombre',
+  'admin.editor.priceMin': 'Desde',
+  'admin.editor.priceMax': 'Hasta',
+  'admin.editor.addPackage': 'Añadir paquete',
+  'admin.editor.removePackage': 'Quitar el paquete {index}',
+  'admin.editor.packageError': 'Cada paquete necesita un id, un nombre y precios de 0 o más.',
+  'admin.editor.priceRangeError': 'El precio inicial no puede superar al precio máximo.',
+  'admin.editor.save': 'Guardar',
+  'admin.editor.saving': 'Guardando…',
+  'admin.editor.saved': '{title} guardado',
+  'admin.editor.saveError': 'No se pudo guardar.',
+  'admin.image.hint': 'JPEG, PNG, WebP o GIF, hasta {size} MB.',
+  'admin.image.fileType': 'Elige una imagen JPEG, PNG, WebP o GIF.',
+  'admin.image.fileSize': 'Las imágenes pueden ocupar hasta {size} MB.',
+  'admin.image.required': 'Sube una imagen.',
+  'admin.image.uploading': 'Subiendo…',
+  'admin.image.uploaded': 'Imagen subida.',
+  'admin.image.uploadError': 'No se pudo subir la imagen.',
+  'admin.bundle.title': 'Exportar e importar',
+  'admin.bundle.export': 'Exportar',
+  'admin.bundle.exportHint': 'Descarga todas las obras y servicios, incluidos los ocultos, en un archivo JSON.',
+  'admin.bundle.download': 'Descargar contenido',
+  'admin.bundle.exportError': 'No se pudo exportar. Inténtalo de nuevo.',
+  'admin.bundle.import': 'Importar',
+  'admin.bundle.importHint': 'Archivo de contenido (.json)',
+  'admin.bundle.ready': 'Listo para importar {artworks} obras y {services} servicios.',
+  'admin.bundle.replace': 'Reemplazar todo el contenido',
+  'admin.bundle.cancel': 'Cancelar',
+  'admin.bundle.invalid': 'Este archivo no se puede importar:',
+  'admin.bundle.notJson': 'El archivo no es un JSON válido.',
+  'admin.bundle.importError': 'No se pudo importar.',
+  'admin.bundle.imported': 'Importadas {artworks} obras y {services} servicios'
+};
@@ -0,0 +1,20 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { LocaleService, MessageParams } from '../services/locale.service';
+import { MessageKey, PluralMessageKey } from './messages.en';
+
+/**
+ * Translate a UI message in templates: {{ 'nav.home' | t }}, {{ 'gallery.filters.count' | t: { count: n } }}
+ * Impure so text follows the language switcher; each call is a map lookup
+ */
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  private locale = inject(LocaleService);
+
+  transform(key: MessageKey | PluralMessageKey, params?: MessageParams): string {
+    return this.locale.translate(key, params);
+  }
+}
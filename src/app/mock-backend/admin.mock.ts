@@ -0,0 +1,288 @@
+import { HttpEvent, HttpHandlerFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, filter, from, map, of, switchMap, take } from 'rxjs';
+import { ContentBundle, ContentKind, UploadedImage } from '../models/admin.model';
+import { SERVICES } from '../data/services';
+import { CATALOG_URL, parseCatalog, validateArtwork } from '../services/catalog';
+import { CONTENT_BUNDLE_VERSION, ContentValidationError, parseContentBundle, validateService } from '../services/content-bundle';
+import { ADMIN_IMAGE_MAX_BYTES, ADMIN_IMAGE_TYPES } from '../services/admin-content.service';
+import { MockRoute, fail, ok } from './mock-responses';
+
+/**
+ * Password the mock accepts on POST /admin/session
+ */
+export const MOCK_ADMIN_PASSWORD = 'admin';
+
+/**
+ * How long mock sessions last (ms)
+ */
+const MOCK_SESSION_TTL = 8 * 60 * 60 * 1000;
+
+/**
+ * localStorage key the in-app mock keeps edited content under, so edits survive reloads
+ */
+const STORAGE_KEY = 'sebbyashan.mock-admin-content';
+
+/**
+ * Mock tokens carry their own expiry so they stay valid across reloads: "mock-<expiry ms>"
+ */
+const TOKEN = /^Bearer mock-(\d+)$/;
+
+const VALIDATORS: Record<ContentKind, (entry: unknown, label: string) => string[]> = {
+  artworks: validateArtwork,
+  services: validateService
+};
+
+/**
+ * Where the mock keeps edited content and uploaded images
+ * The app uses localStorage and object URLs; scripts/mock-api-server.mjs swaps in files on disk
+ */
+export interface MockContentStore {
+  /** Saved content, or null when there is none yet (or it can't be read) and the mock should seed it */
+  read(): ContentBundle | null;
+  /** Save the content, or forget it when null */
+  write(bundle: ContentBundle | null): void;
+  /** Keep an image that passed the type and size checks, and say where it's served from */
+  upload(file: File): Promise<UploadedImage>;
+}
+
+/**
+ * In-browser store: content in localStorage, uploads as object URLs for the rest of the session
+ */
+export const browserContentStore: MockContentStore = {
+  read() {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? parseContentBundle(JSON.parse(stored)) : null;
+    } catch {
+      // unreadable or outdated content is reseeded
+      return null;
+    }
+  },
+  write(bundle) {
+    try {
+      if (bundle) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bundle));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch {
+      // storage can be disabled or full; edits then last until reload
+    }
+  },
+  async upload(file) {
+    const bitmap = await createImageBitmap(file);
+    const image = { path: URL.createObjectURL(file), width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return image;
+  }
+};
+
+let contentStore = browserContentStore;
+let store: ContentBundle | null = null;
+
+/**
+ * Keep the mock's content somewhere else from now on
+ * @param next - Store to read, write and upload through
+ */
+export function useMockContentStore(next: MockContentStore): void {
+  contentStore = next;
+  store = null;
+}
+
+/**
+ * Replace the mock's content, or pass null to reseed it from catalog.json and SERVICES on next use
+ * @param bundle - Content to start from
+ */
+export function resetMockAdminContent(bundle: ContentBundle | null): void {
+  store = bundle ? structuredClone(bundle) : null;
+  contentStore.write(store);
+}
+
+/**
+ * Save the current content through the store
+ */
+function persist(): void {
+  contentStore.write(store);
+}
+
+/**
+ * Stored content, seeded on first use from the published catalog and the built-in services
+ * @param next - Handler that fetches catalog.json
+ */
+function content(next: HttpHandlerFn): Observable<ContentBundle> {
+  store ??= contentStore.read();
+  if (store) return of(store);
+
+  return next(new HttpRequest('GET', CATALOG_URL)).pipe(
+    filter((event): event is HttpResponse<unknown> => event instanceof HttpResponse),
+    take(1),
+    map(response => {
+      store = {
+        version: CONTENT_BUNDLE_VERSION,
+        artworks: parseCatalog(response.body),
+        services: structuredClone(SERVICES)
+      };
+      persist();
+      return store;
+    })
+  );
+}
+
+/**
+ * Run a handler against the stored content once the request's token checks out
+ */
+function authorized(
+  request: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  handle: (bundle: ContentBundle) => Observable<HttpEvent<unknown>>
+): Observable<HttpEvent<unknown>> {
+  const token = request.headers.get('Authorization')?.match(TOKEN);
+  if (!token || Number(token[1]) < Date.now()) {
+    return fail(401, 'Sign in to manage content');
+  }
+  return content(next).pipe(switchMap(handle));
+}
+
+function items(bundle: ContentBundle, kind: ContentKind): { id: string }[] {
+  return bundle[kind];
+}
+
+/**
+ * Validate a posted artwork or service, answering 422 with the issues when it's malformed
+ */
+function invalid(kind: ContentKind, entry: unknown): Observable<never> | null {
+  const issues = VALIDATORS[kind](entry, kind === 'artworks' ? 'artwork' : 'service');
+  return issues.length ? fail(422, 'Invalid content', { issues }) : null;
+}
+
+/**
+ * Admin endpoints, backed by the current MockContentStore
+ * GET /content is public and returns what the site shows: the content without hidden entries
+ * POST /admin/session exchanges MOCK_ADMIN_PASSWORD for a token; everything under /admin requires it
+ * GET and PUT /admin/content read and replace the whole bundle
+ * POST /admin/:kind adds, PUT /admin/:kind/:id updates and PUT /admin/:kind/order reorders artworks or services
+ * POST /admin/uploads checks an image and hands it to the store
+ */
+export const adminRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: /^\/content$/,
+    handle(_request, _match, next) {
+      return content(next).pipe(switchMap(bundle => ok({
+        version: bundle.version,
+        artworks: bundle.artworks.filter(artwork => !artwork.hidden),
+        services: bundle.services.filter(service => !service.hidden)
+      })));
+    }
+  },
+  {
+    method: 'POST',
+    path: /^\/admin\/session$/,
+    handle(request) {
+      const body = request.body as { password?: unknown } | null;
+      if (body?.password !== MOCK_ADMIN_PASSWORD) {
+        return fail(401, 'Wrong password');
+      }
+      const expiresAt = Date.now() + MOCK_SESSION_TTL;
+      return ok({ token: `mock-${expiresAt}`, expiresAt: new Date(expiresAt).toISOString() }, 201);
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/admin\/content$/,
+    handle(request, _match, next) {
+      return authorized(request, next, bundle => ok(bundle));
+    }
+  },
+  {
+    method: 'PUT',
+    path: /^\/admin\/content$/,
+    handle(request, _match, next) {
+      return authorized(request, next, () => {
+        try {
+          store = parseContentBundle({ ...(request.body as object), version: CONTENT_BUNDLE_VERSION });
+        } catch (error) {
+          if (!(error instanceof ContentValidationError)) throw error;
+          return fail(422, 'Invalid content bundle', { issues: error.issues });
+        }
+        persist();
+        return ok(store);
+      });
+    }
+  },
+  {
+    method: 'POST',
+    path: /^\/admin\/uploads$/,
+    handle(request, _match, next) {
+      return authorized(request, next, () => {
+        const file = request.body instanceof FormData ? request.body.get('image') : null;
+        if (!(file instanceof File)) {
+          return fail(400, 'Expected an "image" file');
+        }
+        if (!ADMIN_IMAGE_TYPES.includes(file.type) || file.size > ADMIN_IMAGE_MAX_BYTES) {
+          return fail(422, 'Unsupported image type or size');
+        }
+        return from(contentStore.upload(file)).pipe(switchMap(image => ok(image, 201)));
+      });
+    }
+  },
+  {
+    method: 'PUT',
+    path: /^\/admin\/(artworks|services)\/order$/,
+    handle(request, match, next) {
+      const kind = match[1] as ContentKind;
+      return authorized(request, next, bundle => {
+        const ids = (request.body as { ids?: unknown } | null)?.ids;
+        const current = items(bundle, kind);
+        const byId = new Map(current.map(item => [item.id, item]));
+        if (!Array.isArray(ids) || ids.length !== current.length || !ids.every(id => byId.has(id)) ||
+            new Set(ids).size !== ids.length) {
+          return fail(422, `"ids" must list every ${kind === 'artworks' ? 'artwork' : 'service'} once`);
+        }
+        store = { ...bundle, [kind]: ids.map(id => byId.get(id)) };
+        persist();
+        return ok(store[kind]);
+      });
+    }
+  },
+  {
+    method: 'POST',
+    path: /^\/admin\/(artworks|services)$/,
+    handle(request, match, next) {
+      const kind = match[1] as ContentKind;
+      return authorized(request, next, bundle => {
+        const entry = request.body as { id: string };
+        const rejected = invalid(kind, entry);
+        if (rejected) return rejected;
+        if (items(bundle, kind).some(item => item.id === entry.id)) {
+          return fail(409, `The id "${entry.id}" is already taken`);
+        }
+        store = { ...bundle, [kind]: [...bundle[kind], entry] };
+        persist();
+        return ok(entry, 201);
+      });
+    }
+  },
+  {
+    method: 'PUT',
+    path: /^\/admin\/(artworks|services)\/([a-z0-9-]+)$/,
+    handle(request, match, next) {
+      const kind = match[1] as ContentKind;
+      const id = match[2];
+      return authorized(request, next, bundle => {
+        const entry = request.body as { id: string };
+        if (!items(bundle, kind).some(item => item.id === id)) {
+          return fail(404, `No ${kind === 'artworks' ? 'artwork' : 'service'} with the id "${id}"`);
+        }
+        const rejected = invalid(kind, entry);
+        if (rejected) return rejected;
+        if (entry.id !== id) {
+          return fail(422, 'Ids cannot be changed');
+        }
+        store = { ...bundle, [kind]: items(bundle, kind).map(item => item.id === id ? entry : item) };
+        persist();
+        return ok(entry);
+      });
+    }
+  }
+];
@@ -0,0 +1,30 @@
+import { environment } from '../../environments/environment';
+import { AnalyticsBatch } from '../models/analytics.model';
+import { AnalyticsTransport, beaconTransport } from '../services/analytics.service';
+
+/**
+ * Batches received by the mock collector, oldest first
+ */
+export const mockAnalyticsBatches: AnalyticsBatch[] = [];
+
+/**
+ * Forget the batches received so far
+ */
+export function resetMockAnalytics(): void {
+  mockAnalyticsBatches.length = 0;
+}
+
+/**
+ * In-app stand-in for the analytics collector
+ * Beacons bypass HttpClient and its interceptors, so this replaces the transport instead:
+ * batches for environment.apiUrl are kept in mockAnalyticsBatches,
+ * anything else goes out as a real beacon
+ */
+export const mockAnalyticsTransport: AnalyticsTransport = (url, body) => {
+  if (!url.startsWith(environment.apiUrl)) {
+    return beaconTransport(url, body);
+  }
+
+  mockAnalyticsBatches.push(JSON.parse(body) as AnalyticsBatch);
+  return true;
+};
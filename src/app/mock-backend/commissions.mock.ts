@@ -0,0 +1,66 @@
+import { CommissionReceipt } from '../models/commission.model';
+import { OrderStatus } from '../models/commission-status.model';
+import { MockRoute, fail, ok, referenceCode } from './mock-responses';
+
+/**
+ * Fields the real API requires on POST /commissions
+ */
+const REQUIRED_FIELDS = ['serviceId', 'packageId', 'quantity', 'description', 'email'];
+
+/**
+ * In-memory order store, seeded with a demo order for trying the tracker
+ */
+const orders = new Map<string, OrderStatus>([
+  ['SA-DEMO01', {
+    reference: 'SA-DEMO01',
+    serviceId: 'stickers',
+    stage: 'lineart',
+    queuePosition: null,
+    updatedAt: '2025-09-01T00:00:00Z'
+  }]
+]);
+
+/**
+ * Commission endpoints
+ * POST /commissions validates the multipart body like the real API, stores the order and issues a reference code
+ * GET /commissions/:reference returns the order's progress
+ */
+export const commissionRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: /^\/commissions$/,
+    handle(request) {
+      const body = request.body;
+      if (!(body instanceof FormData)) {
+        return fail(400, 'Expected multipart form data');
+      }
+
+      const missing = REQUIRED_FIELDS.filter(field => !body.get(field));
+      if (missing.length) {
+        return fail(422, `Missing fields: ${missing.join(', ')}`);
+      }
+
+      const receipt: CommissionReceipt = {
+        reference: referenceCode(),
+        receivedAt: new Date().toISOString()
+      };
+      const queued = [...orders.values()].filter(order => order.stage === 'queued').length;
+      orders.set(receipt.reference, {
+        reference: receipt.reference,
+        serviceId: String(body.get('serviceId')),
+        stage: 'queued',
+        queuePosition: queued + 1,
+        updatedAt: receipt.receivedAt
+      });
+      return ok(receipt, 201);
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/commissions\/([A-Z0-9-]+)$/,
+    handle(_request, match) {
+      const order = orders.get(decodeURIComponent(match[1]));
+      return order ? ok(order) : fail(404, 'No commission found with that reference code');
+    }
+  }
+];
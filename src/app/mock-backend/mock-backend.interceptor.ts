@@ -0,0 +1,44 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { environment } from '../../environments/environment';
+import { MockRoute } from './mock-responses';
+import { commissionRoutes } from './commissions.mock';
+import { adminRoutes } from './admin.mock';
+
+/**
+ * Every endpoint the mock backend answers
+ */
+const MOCK_ROUTES: MockRoute[] = [
+  ...commissionRoutes,
+  ...adminRoutes
+];
+
+/**
+ * Find the mock endpoint for a request
+ * Also used by scripts/mock-api-server.mjs, which serves the same endpoints from files
+ * @param method - HTTP method
+ * @param path - Request path with environment.apiUrl and the query string stripped
+ * @returns The route and its path match, or null when no endpoint matches
+ */
+export function findMockRoute(method: string, path: string): { route: MockRoute; match: RegExpMatchArray } | null {
+  for (const route of MOCK_ROUTES) {
+    const match = method === route.method ? path.match(route.path) : null;
+    if (match) {
+      return { route, match };
+    }
+  }
+  return null;
+}
+
+/**
+ * Mock backend interceptor
+ * Answers requests to environment.apiUrl in-app so features work offline
+ * and in tests; anything it doesn't know is passed through untouched
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (request, next) => {
+  if (!request.url.startsWith(environment.apiUrl)) {
+    return next(request);
+  }
+
+  const found = findMockRoute(request.method, request.url.slice(environment.apiUrl.length).split('?')[0]);
+  return found ? found.route.handle(request, found.match, next) : next(request);
+};
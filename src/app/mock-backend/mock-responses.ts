@@ -0,0 +1,51 @@
+import { HttpErrorResponse, HttpEvent, HttpHandlerFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, delay, mergeMap, of, throwError, timer } from 'rxjs';
+
+/**
+ * A single fake API endpoint
+ * path is matched against the request URL with environment.apiUrl stripped
+ * next forwards requests the mock can't answer itself, e.g. static files it seeds data from
+ */
+export interface MockRoute {
+  method: string;
+  path: RegExp;
+  handle(request: HttpRequest<unknown>, match: RegExpMatchArray, next: HttpHandlerFn): Observable<HttpEvent<unknown>>;
+}
+
+/**
+ * Simulated network latency for mock responses (ms)
+ */
+export const MOCK_LATENCY = 400;
+
+/**
+ * Successful JSON response after the simulated latency
+ * @param body - Response body
+ * @param status - HTTP status code
+ */
+export function ok<T>(body: T, status = 200): Observable<HttpEvent<T>> {
+  return of(new HttpResponse({ status, body })).pipe(delay(MOCK_LATENCY));
+}
+
+/**
+ * Error response after the simulated latency
+ * @param status - HTTP status code
+ * @param message - Error message placed in the body
+ * @param details - Extra body fields, e.g. a list of validation issues
+ */
+export function fail(status: number, message: string, details: object = {}): Observable<never> {
+  return timer(MOCK_LATENCY).pipe(
+    mergeMap(() => throwError(() => new HttpErrorResponse({ status, error: { message, ...details } })))
+  );
+}
+
+/**
+ * Random reference code in the same shape the real API issues ("SA-7K2Q9P")
+ */
+export function referenceCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return `SA-${code}`;
+}
@@ -0,0 +1,46 @@
+import { Artwork } from './artwork.model';
+import { ServiceOffering } from './service.model';
+
+/**
+ * Everything the admin panel edits, as returned by GET /admin/content
+ * and exchanged as JSON through export and import
+ */
+export interface ContentBundle {
+  version: number;
+  /** Set on exported files */
+  exportedAt?: string;
+  /** In gallery order, hidden ones included */
+  artworks: Artwork[];
+  /** In slider order, hidden ones included */
+  services: ServiceOffering[];
+}
+
+/**
+ * Content collections the admin panel manages
+ */
+export type ContentKind = 'artworks' | 'services';
+
+/**
+ * A single artwork or service, by collection
+ */
+export type ContentItem<K extends ContentKind> = ContentBundle[K][number];
+
+/**
+ * Signed-in admin session, from POST /admin/session
+ */
+export interface AdminSession {
+  /** Sent as a bearer token on admin requests */
+  token: string;
+  /** ISO 8601 timestamp after which the token is rejected */
+  expiresAt: string;
+}
+
+/**
+ * An image stored by POST /admin/uploads
+ */
+export interface UploadedImage {
+  /** Path under public/ or an absolute URL, ready for an artwork's sources or a service image */
+  path: string;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,33 @@
+/**
+ * Where an artwork was opened from: the grid, the modal's prev/next, or a shared /gallery/:slug link
+ */
+export type ArtworkOpenSource = 'gallery' | 'lightbox' | 'link';
+
+/**
+ * Something a visitor did that's worth counting
+ * Events name content by id only; nothing identifies the visitor
+ */
+export type AnalyticsEvent =
+  | { type: 'artwork-opened'; artworkId: string; source: ArtworkOpenSource }
+  | { type: 'artwork-viewed'; artworkId: string; durationMs: number }
+  | { type: 'service-viewed'; serviceId: string }
+  | { type: 'section-reached'; sectionId: string }
+  | { type: 'nav-clicked'; sectionId: string }
+  | { type: 'commission-started'; serviceId: string | null };
+
+/**
+ * An event as queued, stamped with when it happened
+ */
+export type TrackedEvent = AnalyticsEvent & {
+  /** ISO 8601 timestamp */
+  at: string;
+};
+
+/**
+ * Body of a beacon sent to environment.analyticsUrl
+ */
+export interface AnalyticsBatch {
+  /** ISO 8601 timestamp */
+  sentAt: string;
+  events: TrackedEvent[];
+}
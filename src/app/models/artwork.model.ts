@@ -0,0 +1,144 @@
+import { Translations } from '../i18n/locales';
+
+/**
+ * Pixel dimensions of an artwork's original file
+ */
+export interface ArtworkDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Image sources for an artwork, as paths relative to public/ (e.g. "Image/Anya.jpg") or absolute URLs
+ * Full is shown in the modal, thumbnail in the gallery grid (falls back to full)
+ * Local paths are served through the responsive image pipeline (see ResponsiveImageService)
+ */
+export interface ArtworkSources {
+  full: string;
+  thumbnail?: string;
+}
+
+/**
+ * Where a watermark is drawn; "tiled" repeats it across the whole image
+ */
+export type WatermarkPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'tiled';
+
+/**
+ * Watermark drawn over a protected artwork
+ * Needs text, a logo, or both (logo first, text underneath)
+ */
+export interface ArtworkWatermark {
+  text?: string;
+  /** Logo path relative to public/ or an absolute URL */
+  logo?: string;
+  /** 0-1, defaults to DEFAULT_WATERMARK_OPACITY */
+  opacity?: number;
+  /** Defaults to "bottom-right" */
+  position?: WatermarkPosition;
+}
+
+/**
+ * Protection mode for an artwork
+ * The modal renders it to a canvas with the watermark and blocks the context menu and dragging
+ */
+export interface ArtworkProtection {
+  watermark: ArtworkWatermark;
+}
+
+/**
+ * Stages of making an artwork, in the order they're usually shown
+ * "crop" is a close-up of the finished piece
+ */
+export type ArtworkStageKind = 'sketch' | 'lineart' | 'flats' | 'final' | 'crop';
+
+/**
+ * One image from the making of an artwork
+ */
+export interface ArtworkStage {
+  kind: ArtworkStageKind;
+  /** Path relative to public/ or an absolute URL */
+  src: string;
+  /** Defaults to the artwork's alt text followed by the stage name */
+  alt?: string;
+}
+
+/**
+ * Recording of an artwork being painted
+ * "video" plays in a <video> element; "image" is an animated WebP or GIF
+ */
+export interface ArtworkTimelapse {
+  type: 'video' | 'image';
+  /** Path relative to public/ or an absolute URL */
+  src: string;
+  /** Still shown before playback; required for "image" so nothing moves until the visitor presses play */
+  poster?: string;
+}
+
+/**
+ * Making-of material shown in the artwork's detail view
+ */
+export interface ArtworkProcess {
+  /** In the order they were made; the artwork's own image stands in for "final" when none is listed */
+  stages?: ArtworkStage[];
+  timelapse?: ArtworkTimelapse;
+  /** Markdown (see renderMarkdown) */
+  notes?: string;
+  /** Software and brushes, e.g. "Clip Studio Paint" */
+  tools?: string[];
+  /** Working canvas size when it differs from the exported dimensions */
+  canvas?: ArtworkDimensions;
+  hoursSpent?: number;
+}
+
+/**
+ * A single gallery artwork as described by public/catalog.json
+ */
+export interface Artwork {
+  /** Stable, URL-safe identifier (e.g. "city-rain-walk") */
+  id: string;
+  title: string;
+  alt: string;
+  description: string;
+  tags: string[];
+  /** ISO 8601 date (YYYY-MM-DD) the piece was finished */
+  createdAt: string;
+  dimensions: ArtworkDimensions;
+  sources: ArtworkSources;
+  /** Serve the full resolution in the modal; otherwise it shows a preview capped at PREVIEW_MAX_WIDTH */
+  downloadable?: boolean;
+  protection?: ArtworkProtection;
+  /** Process shots, timelapse and making-of notes */
+  process?: ArtworkProcess;
+  /** Kept in the catalog but left out of the gallery, prerendering and the sitemap */
+  hidden?: boolean;
+  /** Title, alt text, description and process notes in other languages; missing fields fall back to the fields above */
+  translations?: Translations<ArtworkTranslation>;
+}
+
+/**
+ * Artwork fields that can be translated
+ */
+export type ArtworkTranslation = Pick<Artwork, 'title' | 'alt' | 'description'> & Pick<ArtworkProcess, 'notes'>;
+
+/**
+ * Root shape of public/catalog.json
+ */
+export interface ArtworkCatalog {
+  version: number;
+  artworks: Artwork[];
+}
+
+/**
+ * Gallery sort orders
+ * "featured" keeps the hand-curated catalog order
+ */
+export type GallerySort = 'featured' | 'newest' | 'oldest' | 'title';
+
+/**
+ * Active gallery filter state, mirrored in the ?tag, ?q and ?sort query params
+ */
+export interface GalleryFilter {
+  tag: string | null;
+  query: string;
+  sort: GallerySort;
+}
@@ -0,0 +1,44 @@
+/**
+ * Whether a service is taking new commissions
+ */
+export type CommissionState = 'open' | 'waitlist' | 'closed';
+
+/**
+ * Availability of a single service
+ */
+export interface ServiceStatus {
+  serviceId: string;
+  state: CommissionState;
+  /** Slots left in the current round; 0 when closed */
+  slotsRemaining: number;
+  /** Typical turnaround from start to delivery */
+  turnaroundWeeks: { min: number; max: number };
+}
+
+/**
+ * Root shape of the commission status file / endpoint
+ */
+export interface CommissionStatusBoard {
+  version: number;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+  services: ServiceStatus[];
+}
+
+/**
+ * Production stages of an order, in order
+ */
+export type OrderStage = 'queued' | 'sketch' | 'lineart' | 'color' | 'delivered';
+
+/**
+ * Progress of a single commission, looked up by reference code
+ */
+export interface OrderStatus {
+  reference: string;
+  serviceId: string;
+  stage: OrderStage;
+  /** Position in the queue while stage is 'queued' (1 = next up), otherwise null */
+  queuePosition: number | null;
+  /** ISO timestamp of the last stage change */
+  updatedAt: string;
+}
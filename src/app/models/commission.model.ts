@@ -0,0 +1,27 @@
+import { QuoteEstimate } from './pricing.model';
+
+/**
+ * A commission request as entered in the commission form
+ */
+export interface CommissionRequest {
+  serviceId: string;
+  packageId: string;
+  quantity: number;
+  description: string;
+  /** ISO date (YYYY-MM-DD), or null when the client has no deadline */
+  deadline: string | null;
+  email: string;
+  references: File[];
+  /** Estimate from the quote estimator, if the client started there */
+  quote: QuoteEstimate | null;
+}
+
+/**
+ * Confirmation returned by the API once a request is stored
+ */
+export interface CommissionReceipt {
+  /** Reference code the client can quote in follow-ups (e.g. "SA-7K2Q9P") */
+  reference: string;
+  /** ISO timestamp */
+  receivedAt: string;
+}
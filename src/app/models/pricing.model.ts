@@ -0,0 +1,43 @@
+/**
+ * Currencies prices can be shown in (ISO 4217)
+ */
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
+
+/**
+ * Inclusive price range in the base currency (USD)
+ */
+export interface PriceRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * How an add-on affects the price
+ * flat adds a fixed range (optionally per unit ordered), percent scales the subtotal
+ */
+export type AddOnPricing =
+  | { kind: 'flat'; price: PriceRange; perUnit: boolean }
+  | { kind: 'percent'; percent: number };
+
+/**
+ * Optional extra that can be added to any package of a service
+ */
+export interface ServiceAddOn {
+  id: string;
+  label: string;
+  pricing: AddOnPricing;
+}
+
+/**
+ * A price estimate for a configured order, ready to attach to a commission request
+ */
+export interface QuoteEstimate {
+  serviceId: string;
+  packageId: string;
+  quantity: number;
+  addOnIds: string[];
+  /** Estimated range in the base currency */
+  range: PriceRange;
+  /** Currency the client viewed the estimate in */
+  currency: CurrencyCode;
+}
@@ -0,0 +1,81 @@
+import { Translations } from '../i18n/locales';
+
+/**
+ * Sites the artist can link to; each has an icon in the About Me section
+ */
+export type SocialPlatform = 'twitch' | 'discord' | 'kofi' | 'vgen' | 'twitter' | 'instagram';
+
+/**
+ * A social profile or storefront
+ */
+export interface SocialLink {
+  platform: SocialPlatform;
+  url: string;
+  /** Handle shown next to the icon, e.g. "@sebbyashan" */
+  handle: string;
+}
+
+/**
+ * A milestone in the About Me timeline
+ */
+export interface TimelineEntry {
+  id: string;
+  /** Year or ISO month, e.g. "2021" or "2023-06" */
+  date: string;
+  kind: 'career' | 'commission';
+  title: string;
+  description?: string;
+}
+
+/**
+ * A labelled list of tools or skills
+ */
+export interface SkillGroup {
+  id: string;
+  label: string;
+  items: string[];
+}
+
+/**
+ * The artist behind the site, as shown in About Me and described to search engines
+ */
+export interface Profile {
+  name: string;
+  /** Handle used across social sites */
+  alternateName: string;
+  jobTitle: string;
+  /** One or two sentence bio, also used as the default page description */
+  summary: string;
+  /** Longer bio in Markdown (paragraphs, lists, **bold**, *italic* and links) */
+  bio: string;
+  avatar: {
+    /** Path under public/ or an absolute URL */
+    src: string;
+    alt: string;
+  };
+  /** Details visitors can copy from the contact card; omit any that shouldn't be shown */
+  contact: {
+    email?: string;
+    discord?: string;
+  };
+  /** Social profiles and storefronts, in display order; also listed as sameAs in structured data */
+  links: SocialLink[];
+  /** Oldest first */
+  timeline: TimelineEntry[];
+  skills: SkillGroup[];
+  /** Copy in other languages; missing fields fall back to the fields above */
+  translations?: Translations<ProfileTranslation>;
+}
+
+/**
+ * Profile copy that can be translated
+ * Timeline entries and skill group labels are keyed by their id
+ */
+export interface ProfileTranslation {
+  jobTitle: string;
+  summary: string;
+  bio: string;
+  avatarAlt: string;
+  timeline: Record<string, Partial<Pick<TimelineEntry, 'title' | 'description'>>>;
+  skills: Record<string, string>;
+}
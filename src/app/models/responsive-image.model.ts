@@ -0,0 +1,44 @@
+/**
+ * Encoded formats the image pipeline writes, best compression first
+ */
+export type ImageFormat = 'avif' | 'webp';
+
+/**
+ * A source image as listed in public/responsive/manifest.json
+ * Written by scripts/generate-responsive-images.mjs
+ */
+export interface ImageManifestEntry {
+  /** Pixel dimensions of the original file */
+  width: number;
+  height: number;
+  /** Generated variant widths, ascending */
+  widths: number[];
+  formats: ImageFormat[];
+  /** Tiny blurred preview as a data: URL */
+  placeholder: string;
+}
+
+/**
+ * Root shape of public/responsive/manifest.json, keyed by source path (e.g. "Image/Anya.jpg")
+ */
+export interface ImageManifest {
+  version: number;
+  images: Record<string, ImageManifestEntry>;
+}
+
+/**
+ * Everything a template needs to render one source through <picture> and NgOptimizedImage
+ */
+export interface ResponsiveImage {
+  width: number;
+  height: number;
+  /** Width descriptors for ngSrcset ("320w, 640w, ..."); the loader turns them into WebP URLs */
+  ngSrcset: string;
+  /** Full AVIF srcset for the <source> element */
+  avifSrcset: string;
+  /** Generated variant widths, ascending */
+  widths: number[];
+  smallestWidth: number;
+  largestWidth: number;
+  placeholder: string;
+}
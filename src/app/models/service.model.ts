@@ -0,0 +1,42 @@
+import { Translations } from '../i18n/locales';
+import { PriceRange, ServiceAddOn } from './pricing.model';
+
+/**
+ * A package (tier) clients can order within a service
+ */
+export interface ServicePackage {
+  id: string;
+  label: string;
+  /** Price per unit in the base currency */
+  price: PriceRange;
+}
+
+/**
+ * A commissionable service shown in the Services slider
+ */
+export interface ServiceOffering {
+  id: string;
+  title: string;
+  description: string;
+  /** Path relative to public/ (e.g. "Image/StickerPanel.jpg"), served through the responsive image pipeline */
+  image: string;
+  alt: string;
+  packages: ServicePackage[];
+  addOns: ServiceAddOn[];
+  /** Kept in the content but left out of the slider, e.g. while a service is on break */
+  hidden?: boolean;
+  /** Copy in other languages; missing fields and labels fall back to the fields above */
+  translations?: Translations<ServiceTranslation>;
+}
+
+/**
+ * Service copy that can be translated
+ * Package and add-on labels are keyed by their id
+ */
+export interface ServiceTranslation {
+  title: string;
+  description: string;
+  alt: string;
+  packages: Record<string, string>;
+  addOns: Record<string, string>;
+}
@@ -0,0 +1,32 @@
+import { Translations } from '../i18n/locales';
+
+/**
+ * A client's quote about a commission
+ */
+export interface Testimonial {
+  id: string;
+  quote: string;
+  client: {
+    name: string;
+    /** Who they are, e.g. "Twitch streamer" */
+    title?: string;
+    /** Path under public/ or an absolute URL; initials are shown without one */
+    avatar?: string;
+    /** Client's own site or channel */
+    url?: string;
+  };
+  /** Service the work was for, by id from data/services.ts */
+  serviceId?: string;
+  /** Artwork the quote is about, by catalog slug; shown in that artwork's modal */
+  artworkId?: string;
+  /** Copy in other languages; missing fields fall back to the fields above */
+  translations?: Translations<TestimonialTranslation>;
+}
+
+/**
+ * Testimonial copy that can be translated (client names stay as written)
+ */
+export interface TestimonialTranslation {
+  quote: string;
+  clientTitle: string;
+}
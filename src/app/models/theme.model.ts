@@ -0,0 +1,38 @@
+import { MessageKey } from '../i18n/messages.en';
+import { ParticlePresetName } from '../particles/particle-presets';
+
+/**
+ * Built-in color themes
+ */
+export type ThemeId = 'light' | 'dark' | 'halloween' | 'winter';
+
+/**
+ * Visitor's theme choice; 'system' follows the OS prefers-color-scheme setting
+ */
+export type ThemePreference = 'system' | ThemeId;
+
+/**
+ * Color tokens every theme defines, applied as --color-<token> custom properties
+ */
+export type ThemeToken =
+  | 'page' | 'surface' | 'surface-muted' | 'surface-sunken'
+  | 'text' | 'text-muted' | 'text-subtle'
+  | 'primary' | 'primary-deep' | 'accent' | 'accent-soft' | 'neutral'
+  | 'ink' | 'on-accent' | 'danger' | 'nav-active';
+
+/**
+ * A named set of CSS custom properties plus the header particles that match it
+ */
+export interface ThemeDefinition {
+  id: ThemeId;
+  labelKey: MessageKey;
+  /** Scheme for native controls and scrollbars; also decides which theme 'system' maps to */
+  colorScheme: 'light' | 'dark';
+  colors: Record<ThemeToken, string>;
+  particles: {
+    /** Preset to render; 'auto' picks one for the current date */
+    preset: ParticlePresetName | 'auto';
+    /** Colors for particles drawn as shapes (image particles keep their artwork) */
+    colors: string[];
+  };
+}
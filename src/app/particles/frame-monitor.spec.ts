@@ -0,0 +1,36 @@
+import { DOWNGRADE, FrameTimeMonitor } from './frame-monitor';
+
+describe('FrameTimeMonitor', () => {
+  it('should only decide once the window is full', () => {
+    const monitor = new FrameTimeMonitor(20, 5);
+    const results = [50, 50, 50, 50, 50].map(ms => monitor.record(ms));
+    expect(results).toEqual([false, false, false, false, true]);
+  });
+
+  it('should accept devices that keep within budget', () => {
+    const monitor = new FrameTimeMonitor(20, 4);
+    expect([16, 17, 16, 18].map(ms => monitor.record(ms))).not.toContain(true);
+  });
+
+  it('should ignore stalls and invalid samples', () => {
+    const monitor = new FrameTimeMonitor(20, 3);
+    expect([1000, 0, NaN, 16, 16].map(ms => monitor.record(ms))).not.toContain(true);
+    expect(monitor.record(16)).toBeFalse();
+  });
+
+  it('should start a new window after a decision or reset', () => {
+    const monitor = new FrameTimeMonitor(20, 2);
+    monitor.record(40);
+    expect(monitor.record(40)).toBeTrue();
+    expect(monitor.record(40)).toBeFalse();
+    monitor.reset();
+    expect(monitor.record(40)).toBeFalse();
+    expect(monitor.record(40)).toBeTrue();
+  });
+
+  it('should step quality down to off', () => {
+    expect(DOWNGRADE.full).toBe('reduced');
+    expect(DOWNGRADE.reduced).toBe('off');
+    expect(DOWNGRADE.off).toBe('off');
+  });
+});
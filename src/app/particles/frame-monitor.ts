@@ -0,0 +1,59 @@
+/**
+ * How much particle work the device can afford
+ * full renders presets as-is, reduced halves the particle count and frame rate, off skips the canvas
+ */
+export type ParticleQuality = 'full' | 'reduced' | 'off';
+
+/**
+ * Next step down when the current quality is still too slow
+ */
+export const DOWNGRADE: Record<ParticleQuality, ParticleQuality> = {
+  full: 'reduced',
+  reduced: 'off',
+  off: 'off'
+};
+
+/**
+ * Frames longer than this are treated as stalls (tab switch, GC, debugger) and ignored
+ */
+const STALL_MS = 250;
+
+/**
+ * Rolling frame time monitor
+ * Collects a window of frame durations and reports when their average blows the budget
+ */
+export class FrameTimeMonitor {
+  private samples: number[] = [];
+
+  /**
+   * @param budgetMs - Slowest acceptable average frame time (default 30fps)
+   * @param windowSize - Frames to average before deciding
+   */
+  constructor(
+    private readonly budgetMs = 1000 / 30,
+    private readonly windowSize = 90
+  ) {}
+
+  /**
+   * Record one frame
+   * @param frameMs - Time since the previous frame
+   * @returns True once a full window averaged slower than the budget; the window then starts over
+   */
+  record(frameMs: number): boolean {
+    if (!(frameMs > 0) || frameMs > STALL_MS) return false;
+
+    this.samples.push(frameMs);
+    if (this.samples.length < this.windowSize) return false;
+
+    const average = this.samples.reduce((sum, ms) => sum + ms, 0) / this.samples.length;
+    this.samples = [];
+    return average > this.budgetMs;
+  }
+
+  /**
+   * Forget collected samples, e.g. after the canvas was paused
+   */
+  reset(): void {
+    this.samples = [];
+  }
+}
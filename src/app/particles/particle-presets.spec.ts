@@ -0,0 +1,39 @@
+import { PARTICLE_PRESETS, scaleParticleOptions, seasonalPreset, withParticleColors } from './particle-presets';
+
+describe('particle presets', () => {
+  it('should pick a preset for each season', () => {
+    expect(seasonalPreset(new Date(2025, 9, 31))).toBe('spooky-ghosts');
+    expect(seasonalPreset(new Date(2025, 11, 24))).toBe('snow');
+    expect(seasonalPreset(new Date(2026, 1, 14))).toBe('snow');
+    expect(seasonalPreset(new Date(2025, 3, 1))).toBe('rain');
+    expect(seasonalPreset(new Date(2025, 6, 4))).toBe('fireflies');
+    expect(seasonalPreset(new Date(2025, 8, 22))).toBe('autumn-leaves');
+    expect(seasonalPreset(new Date(2025, 10, 5))).toBe('autumn-leaves');
+  });
+
+  it('should register every seasonal pick', () => {
+    for (let month = 0; month < 12; month++) {
+      expect(PARTICLE_PRESETS[seasonalPreset(new Date(2025, month, 15))]).toBeDefined();
+    }
+  });
+
+  it('should scale particle counts and cap the frame rate without touching the preset', () => {
+    const preset = PARTICLE_PRESETS['autumn-leaves'];
+    const scaled = scaleParticleOptions(preset, 0.5, 60);
+
+    expect(scaled.particles?.number?.value).toBe(25);
+    expect(scaled.responsive?.map(r => r.options?.particles?.number?.value)).toEqual([13, 8]);
+    expect(scaled.fpsLimit).toBe(60);
+    expect(preset.particles?.number?.value).toBe(50);
+    expect(preset.fpsLimit).toBe(120);
+  });
+
+  it('should recolor particles and their glow without touching the preset', () => {
+    const preset = PARTICLE_PRESETS.fireflies;
+    const recolored = withParticleColors(preset, ['#ff8c1a', '#b784f0']);
+
+    expect(recolored.particles?.color?.value).toEqual(['#ff8c1a', '#b784f0']);
+    expect(recolored.particles?.shadow?.color).toBe('#ff8c1a');
+    expect(preset.particles?.color?.value).toEqual(['#f6e27a', '#d9f27a']);
+  });
+});
@@ -0,0 +1,358 @@
+import { ISourceOptions, InteractivityDetect, MoveDirection } from '@tsparticles/engine';
+
+/**
+ * Names of the built-in particle presets
+ */
+export type ParticlePresetName = 'autumn-leaves' | 'spooky-ghosts' | 'snow' | 'fireflies' | 'rain';
+
+/**
+ * Default particle colors (cream, bark, ink) used where a preset doesn't pick its own
+ */
+export const DEFAULT_PARTICLE_COLORS = ['#ffffff', '#a48770', '#1c1511'];
+
+/**
+ * Settings shared by every preset: transparent canvas, hover repulse and small-screen overrides
+ * @param particles - Preset-specific particle options
+ * @param tablet - Particle overrides for screens up to 768px wide
+ * @param phone - Particle overrides for screens up to 480px wide (links are always disabled there)
+ */
+function withDefaults(
+  particles: ISourceOptions['particles'],
+  tablet: ISourceOptions['particles'],
+  phone: ISourceOptions['particles']
+): ISourceOptions {
+  return {
+    background: {
+      color: {
+        value: 'transparent',
+      },
+    },
+    fpsLimit: 120,
+    interactivity: {
+      detectsOn: InteractivityDetect.window,
+      events: {
+        onClick: {
+          enable: false,
+          mode: 'push',
+        },
+        onHover: {
+          enable: true,
+          mode: 'repulse',
+        },
+        resize: {
+          enable: true,
+        },
+      },
+      modes: {
+        push: {
+          quantity: 4,
+        },
+        repulse: {
+          distance: 200,
+          duration: 0.4,
+        },
+      },
+    },
+    particles,
+    detectRetina: true,
+    responsive: [
+      {
+        maxWidth: 768,
+        options: {
+          particles: tablet,
+        },
+      },
+      {
+        maxWidth: 480,
+        options: {
+          particles: {
+            ...phone,
+            links: {
+              enable: false,
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Built-in presets by name
+ */
+export const PARTICLE_PRESETS: Record<ParticlePresetName, ISourceOptions> = {
+  /** Falling leaves that rock gently as they drift bottom-left (the original header effect) */
+  'autumn-leaves': withDefaults({
+    color: {
+      value: DEFAULT_PARTICLE_COLORS,
+    },
+    move: {
+      direction: MoveDirection.bottomLeft,
+      enable: true,
+      random: false,
+      speed: 1,
+      straight: false,
+    },
+    number: {
+      density: {
+        enable: true,
+      },
+      value: 50,
+    },
+    shape: {
+      type: 'image',
+      options: {
+        image: {
+          src: '/Particles/Leaf-GIF.gif',
+          width: 100,
+          height: 100,
+          rockerSmooth: { enabled: true, minDeg: 0, maxDeg: 25, periodSec: 3 }
+        }
+      }
+    },
+    size: {
+      value: { min: 30, max: 60 },
+      animation: {
+        enable: true,
+        speed: 2,
+        sync: false,
+      },
+    },
+    rotate: {
+      value: 0,
+      random: true,
+      direction: 'clockwise',
+      animation: {
+        enable: true,
+        speed: 10,
+        sync: false
+      }
+    }
+  }, {
+    number: { value: 25 },
+    move: { speed: 0.5 },
+    size: { value: { min: 8, max: 20 } },
+  }, {
+    number: { value: 15 },
+    size: { value: { min: 6, max: 15 } },
+  }),
+
+  /** Little ghosts floating upwards for the Halloween pieces */
+  'spooky-ghosts': withDefaults({
+    move: {
+      direction: MoveDirection.top,
+      enable: true,
+      random: true,
+      speed: 0.6,
+      straight: false,
+    },
+    number: {
+      density: {
+        enable: true,
+      },
+      value: 18,
+    },
+    opacity: {
+      value: { min: 0.3, max: 0.9 },
+      animation: {
+        enable: true,
+        speed: 0.5,
+        sync: false,
+      },
+    },
+    shape: {
+      type: 'image',
+      options: {
+        image: {
+          src: '/Particles/Ghost.svg',
+          width: 64,
+          height: 72,
+          rockerSmooth: { enabled: true, minDeg: -12, maxDeg: 12, periodSec: 4 }
+        }
+      }
+    },
+    size: {
+      value: { min: 18, max: 36 },
+    },
+  }, {
+    number: { value: 10 },
+  }, {
+    number: { value: 6 },
+  }),
+
+  /** Soft snowfall */
+  snow: withDefaults({
+    color: {
+      value: '#ffffff',
+    },
+    move: {
+      direction: MoveDirection.bottom,
+      enable: true,
+      random: false,
+      speed: { min: 0.5, max: 1.5 },
+      straight: false,
+    },
+    number: {
+      density: {
+        enable: true,
+      },
+      value: 120,
+    },
+    opacity: {
+      value: { min: 0.4, max: 0.9 },
+    },
+    shape: {
+      type: 'circle',
+    },
+    size: {
+      value: { min: 1, max: 5 },
+    },
+  }, {
+    number: { value: 60 },
+  }, {
+    number: { value: 35 },
+  }),
+
+  /** Warm, blinking fireflies wandering around the swamp */
+  fireflies: withDefaults({
+    color: {
+      value: ['#f6e27a', '#d9f27a'],
+    },
+    move: {
+      direction: MoveDirection.none,
+      enable: true,
+      random: true,
+      speed: 0.4,
+      straight: false,
+    },
+    number: {
+      density: {
+        enable: true,
+      },
+      value: 40,
+    },
+    opacity: {
+      value: { min: 0.1, max: 1 },
+      animation: {
+        enable: true,
+        speed: 1.2,
+        sync: false,
+      },
+    },
+    shadow: {
+      enable: true,
+      color: '#f6e27a',
+      blur: 8,
+    },
+    shape: {
+      type: 'circle',
+    },
+    size: {
+      value: { min: 1.5, max: 3.5 },
+    },
+  }, {
+    number: { value: 20 },
+  }, {
+    number: { value: 12 },
+  }),
+
+  /** Slanted rain, as in "City Rain Walk" */
+  rain: withDefaults({
+    move: {
+      direction: MoveDirection.bottom,
+      angle: {
+        offset: -10,
+        value: 0,
+      },
+      enable: true,
+      random: false,
+      speed: { min: 15, max: 22 },
+      straight: true,
+    },
+    number: {
+      density: {
+        enable: true,
+      },
+      value: 90,
+    },
+    shape: {
+      type: 'image',
+      options: {
+        image: {
+          src: '/Particles/Raindrop.svg',
+          width: 8,
+          height: 48,
+        }
+      }
+    },
+    rotate: {
+      value: 10,
+    },
+    size: {
+      value: { min: 8, max: 14 },
+    },
+  }, {
+    number: { value: 45 },
+  }, {
+    number: { value: 25 },
+  }),
+};
+
+/**
+ * Pick a preset for the time of year
+ * October is spooky, winter snows, spring rains, summer has fireflies and the rest of autumn has leaves
+ * @param date - Date to pick for (usually today)
+ */
+export function seasonalPreset(date: Date): ParticlePresetName {
+  const month = date.getMonth() + 1;
+  if (month === 10) return 'spooky-ghosts';
+  if (month === 12 || month <= 2) return 'snow';
+  if (month <= 5) return 'rain';
+  if (month <= 8) return 'fireflies';
+  return 'autumn-leaves';
+}
+
+/**
+ * Recolor a preset for the active theme
+ * Sets the particle colors and, where the preset glows, the glow color; image particles keep their artwork
+ * @param options - Preset or custom options; not modified
+ * @param colors - Colors to pick from, the first also used for the glow
+ * @returns A recolored copy of the options
+ */
+export function withParticleColors(options: ISourceOptions, colors: string[]): ISourceOptions {
+  const particles = options.particles ?? {};
+  return {
+    ...options,
+    particles: {
+      ...particles,
+      color: { ...particles.color, value: colors },
+      ...(particles.shadow?.enable ? { shadow: { ...particles.shadow, color: colors[0] } } : {})
+    }
+  };
+}
+
+/**
+ * Scale down a preset for slower devices
+ * Multiplies every particle count (including responsive overrides) and caps the frame rate
+ * @param options - Preset or custom options; not modified
+ * @param countFactor - Multiplier applied to particles.number.value
+ * @param fpsLimit - Frame rate cap for the scaled options
+ * @returns A scaled copy of the options
+ */
+export function scaleParticleOptions(options: ISourceOptions, countFactor: number, fpsLimit: number): ISourceOptions {
+  const scaleParticles = (particles: ISourceOptions['particles']): ISourceOptions['particles'] => {
+    const count = particles?.number?.value;
+    if (typeof count !== 'number') return particles;
+    return { ...particles, number: { ...particles!.number, value: Math.max(1, Math.round(count * countFactor)) } };
+  };
+
+  return {
+    ...options,
+    fpsLimit: Math.min(options.fpsLimit ?? fpsLimit, fpsLimit),
+    particles: scaleParticles(options.particles),
+    responsive: options.responsive?.map(breakpoint => ({
+      ...breakpoint,
+      options: { ...breakpoint.options, particles: scaleParticles(breakpoint.options?.particles) }
+    }))
+  };
+}
@@ -0,0 +1,27 @@
+import type { Engine } from '@tsparticles/engine';
+import { ROTATION_MOTIONS } from './rotation-motions';
+import { RotationMotionUpdater } from './rotation-updater';
+
+export * from './rotation-motions';
+export { RotationMotionUpdater } from './rotation-updater';
+
+/**
+ * Engines that already have the updaters, so repeated loads are no-ops
+ */
+const loadedEngines = new WeakSet<Engine>();
+
+/**
+ * Register every rotation motion updater on a tsParticles engine
+ * Safe to call more than once; only the first call per engine registers anything
+ * @param engine - Engine to register on (usually the global tsParticles)
+ * @param refresh - Refresh running containers after registering
+ */
+export async function loadRotationUpdaters(engine: Engine, refresh = false): Promise<void> {
+  if (loadedEngines.has(engine)) return;
+
+  for (const motion of ROTATION_MOTIONS) {
+    await engine.addParticleUpdater(motion.key, async () => new RotationMotionUpdater(motion), refresh);
+  }
+  // only once everything registered, so a failed load is retried next time
+  loadedEngines.add(engine);
+}
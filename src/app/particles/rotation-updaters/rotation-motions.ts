@@ -0,0 +1,213 @@
+/**
+ * Rotation motion curves for image particles
+ * Each motion is a pure function of its config, per-particle state and elapsed time,
+ * so it can be driven (and tested) without a running tsParticles container
+ */
+import type { IShapeValues } from '@tsparticles/engine';
+
+/** Fields every motion config shares */
+export interface MotionConfigBase {
+  enabled?: boolean;
+}
+
+/** Sine rocking between two angles */
+export interface SmoothRockConfig extends MotionConfigBase {
+  minDeg?: number;
+  maxDeg?: number;
+  periodSec?: number;
+}
+
+/** Hard flip between two angles */
+export interface StepRockConfig extends MotionConfigBase {
+  lowDeg?: number;
+  highDeg?: number;
+  holdSec?: number;
+}
+
+/** Hold at each angle, then ease to the other */
+export interface EasedStepRockConfig extends StepRockConfig {
+  transitionSec?: number;
+  easing?: EasingName;
+}
+
+/** Swing that loses energy over time, optionally re-kicked at an interval */
+export interface PendulumConfig extends MotionConfigBase {
+  restDeg?: number;
+  amplitudeDeg?: number;
+  periodSec?: number;
+  /** Exponential decay rate per second (0 = no damping) */
+  damping?: number;
+  /** Restart the swing every N seconds; 0 never re-kicks */
+  rekickSec?: number;
+}
+
+/** Gentle sway that is pushed over by gusts of varying strength */
+export interface WindConfig extends MotionConfigBase {
+  baseDeg?: number;
+  /** Extra lean at the peak of the strongest gust */
+  gustDeg?: number;
+  gustPeriodSec?: number;
+  swayDeg?: number;
+  swayPeriodSec?: number;
+}
+
+/** Fast, irregular flapping around a centre angle */
+export interface FlutterConfig extends MotionConfigBase {
+  centerDeg?: number;
+  amplitudeDeg?: number;
+  frequencyHz?: number;
+  /** 0..1, how much the amplitude wobbles between flaps */
+  jitter?: number;
+}
+
+export type EasingName = 'linear' | 'inOutSine' | 'inOutCubic';
+
+/**
+ * Easing curves mapping progress 0..1 to 0..1
+ */
+export const EASINGS: Record<EasingName, (x: number) => number> = {
+  linear: x => x,
+  inOutSine: x => -(Math.cos(Math.PI * x) - 1) / 2,
+  inOutCubic: x => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2)
+};
+
+/**
+ * Per-particle state: elapsed seconds plus a random phase so particles don't move in lockstep
+ */
+export interface MotionState {
+  t: number;
+  seed: number;
+}
+
+/**
+ * A rotation motion curve
+ * @typeParam TConfig - Options read from the particle's image shape data
+ */
+export interface RotationMotion<TConfig extends MotionConfigBase> {
+  /** Updater name and the image shape option key that configures it */
+  key: keyof RotationMotionOptions;
+  /** This motion's config from a particle's shape options */
+  config(shape: IShapeValues): TConfig | undefined;
+  /** Initial state for a new particle; random is 0..1 */
+  initState(config: TConfig, random: number): MotionState;
+  /** Angle in degrees at the state's current time */
+  angle(config: TConfig, state: MotionState): number;
+}
+
+const TAU = 2 * Math.PI;
+
+export const smoothRock: RotationMotion<SmoothRockConfig> = {
+  key: 'rockerSmooth',
+  config: shape => shape.rockerSmooth,
+  initState: (config, random) => ({ t: random * (config.periodSec ?? 4), seed: random }),
+  angle(config, { t }) {
+    const a0 = config.minDeg ?? 0;
+    const a1 = config.maxDeg ?? 30;
+    const period = config.periodSec ?? 4;
+    return (a0 + a1) / 2 + ((a1 - a0) / 2) * Math.sin((TAU / period) * t);
+  }
+};
+
+export const stepRock: RotationMotion<StepRockConfig> = {
+  key: 'rockerStep',
+  config: shape => shape.rockerStep,
+  initState: (_config, random) => ({ t: 0, seed: random }),
+  angle(config, { t }) {
+    const hold = config.holdSec ?? 2;
+    return t % (2 * hold) < hold ? config.lowDeg ?? 0 : config.highDeg ?? 30;
+  }
+};
+
+export const easedStepRock: RotationMotion<EasedStepRockConfig> = {
+  key: 'rockerEasedStep',
+  config: shape => shape.rockerEasedStep,
+  initState: (_config, random) => ({ t: 0, seed: random }),
+  angle(config, { t }) {
+    const low = config.lowDeg ?? 0;
+    const high = config.highDeg ?? 30;
+    const hold = config.holdSec ?? 2;
+    const transition = Math.max(0.001, config.transitionSec ?? 0.5);
+    const ease = EASINGS[config.easing ?? 'inOutSine'];
+
+    // hold low -> ease up -> hold high -> ease down
+    const phase = t % (2 * (hold + transition));
+    if (phase < hold) return low;
+    if (phase < hold + transition) return low + (high - low) * ease((phase - hold) / transition);
+    if (phase < 2 * hold + transition) return high;
+    return high + (low - high) * ease((phase - 2 * hold - transition) / transition);
+  }
+};
+
+export const pendulum: RotationMotion<PendulumConfig> = {
+  key: 'rockerPendulum',
+  config: shape => shape.rockerPendulum,
+  initState: (_config, random) => ({ t: 0, seed: random }),
+  angle(config, { t }) {
+    const rest = config.restDeg ?? 0;
+    const amplitude = config.amplitudeDeg ?? 30;
+    const period = config.periodSec ?? 2;
+    const damping = config.damping ?? 0.3;
+    const rekick = config.rekickSec ?? 0;
+
+    const local = rekick > 0 ? t % rekick : t;
+    return rest + amplitude * Math.exp(-damping * local) * Math.cos((TAU / period) * local);
+  }
+};
+
+export const wind: RotationMotion<WindConfig> = {
+  key: 'rockerWind',
+  config: shape => shape.rockerWind,
+  initState: (_config, random) => ({ t: random * 10, seed: random * TAU }),
+  angle(config, { t, seed }) {
+    const base = config.baseDeg ?? 0;
+    const gustDeg = config.gustDeg ?? 25;
+    const gustPeriod = config.gustPeriodSec ?? 6;
+    const swayDeg = config.swayDeg ?? 5;
+    const swayPeriod = config.swayPeriodSec ?? 1.5;
+
+    // gusts come and go (squared half-sine) and their peaks vary on a slower, incommensurate cycle
+    const gust = Math.pow(Math.max(0, Math.sin((TAU / gustPeriod) * t + seed)), 2);
+    const strength = 0.6 + 0.4 * Math.sin((TAU / (gustPeriod * 2.7)) * t + seed * 2);
+    const lean = gust * strength;
+
+    // leaves sway harder while a gust is blowing
+    return base + gustDeg * lean + swayDeg * (0.3 + lean) * Math.sin((TAU / swayPeriod) * t);
+  }
+};
+
+export const flutter: RotationMotion<FlutterConfig> = {
+  key: 'rockerFlutter',
+  config: shape => shape.rockerFlutter,
+  initState: (_config, random) => ({ t: random, seed: random * TAU }),
+  angle(config, { t, seed }) {
+    const center = config.centerDeg ?? 0;
+    const amplitude = config.amplitudeDeg ?? 15;
+    const frequency = config.frequencyHz ?? 3;
+    const jitter = Math.min(1, Math.max(0, config.jitter ?? 0.3));
+
+    const envelope = 1 - jitter + jitter * Math.sin(TAU * 0.37 * t + seed);
+    return center + amplitude * envelope * Math.sin(TAU * frequency * t);
+  }
+};
+
+/**
+ * Image shape options read by the motions, keyed by updater name
+ */
+export interface RotationMotionOptions {
+  rockerSmooth?: SmoothRockConfig;
+  rockerStep?: StepRockConfig;
+  rockerEasedStep?: EasedStepRockConfig;
+  rockerPendulum?: PendulumConfig;
+  rockerWind?: WindConfig;
+  rockerFlutter?: FlutterConfig;
+}
+
+// typed shape options, so presets and updaters can configure the motions without casts
+declare module '@tsparticles/engine' {
+  interface IShapeValues extends RotationMotionOptions {}
+}
+
+/**
+ * Every motion the plugin registers
+ */
+export const ROTATION_MOTIONS = [smoothRock, stepRock, easedStepRock, pendulum, wind, flutter];
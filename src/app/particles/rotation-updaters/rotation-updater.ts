@@ -0,0 +1,57 @@
+import type { IDelta, IParticleUpdater, Particle } from '@tsparticles/engine';
+import { MotionConfigBase, MotionState, RotationMotion } from './rotation-motions';
+
+/**
+ * Particle updater driving one rotation motion
+ * Reads its config from the particle's shape options (e.g. image.rockerWind)
+ * and keeps per-particle state in a WeakMap instead of on the particle itself
+ */
+export class RotationMotionUpdater<TConfig extends MotionConfigBase> implements IParticleUpdater {
+  private states = new WeakMap<Particle, MotionState>();
+
+  /**
+   * @param motion - Motion curve to apply
+   * @param random - Source of per-particle phase, injectable for tests
+   */
+  constructor(
+    private readonly motion: RotationMotion<TConfig>,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  init(particle: Particle): void {
+    const config = this.config(particle);
+    if (config?.enabled) {
+      this.states.set(particle, this.motion.initState(config, this.random()));
+    }
+  }
+
+  isEnabled(particle: Particle): boolean {
+    return !!this.config(particle)?.enabled;
+  }
+
+  update(particle: Particle, delta: IDelta): void {
+    const config = this.config(particle);
+    if (!config?.enabled) return;
+
+    let state = this.states.get(particle);
+    if (!state) {
+      state = this.motion.initState(config, this.random());
+      this.states.set(particle, state);
+    }
+
+    state.t += delta.value / 1000;
+    particle.rotation = (this.motion.angle(config, state) * Math.PI) / 180;
+  }
+
+  reset(particle: Particle): void {
+    this.states.delete(particle);
+  }
+
+  particleDestroyed(particle: Particle): void {
+    this.states.delete(particle);
+  }
+
+  private config(particle: Particle): TConfig | undefined {
+    return particle.shapeData && this.motion.config(particle.shapeData);
+  }
+}
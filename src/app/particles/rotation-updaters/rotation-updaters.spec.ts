@@ -0,0 +1,152 @@
+import type { Engine, IDelta, IShapeValues, Particle } from '@tsparticles/engine';
+import {
+  easedStepRock, flutter, loadRotationUpdaters, pendulum, ROTATION_MOTIONS,
+  MotionConfigBase, RotationMotion, RotationMotionUpdater, smoothRock, stepRock, wind
+} from './index';
+
+/** Minimal stand-in for a tsParticles particle */
+function fakeParticle(shape: IShapeValues): Particle {
+  return { shapeData: shape, rotation: 0 } as unknown as Particle;
+}
+
+/** Synthetic frame tick of the given length */
+function tick(ms: number): IDelta {
+  return { value: ms, factor: ms / (1000 / 60) };
+}
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Run a motion for a number of equal ticks and collect the angle after each one
+ */
+function run<T extends MotionConfigBase>(motion: RotationMotion<T>, config: T, ticks: number, ms = 100, random = 0): number[] {
+  const updater = new RotationMotionUpdater(motion, () => random);
+  const particle = fakeParticle({ [motion.key]: config });
+  updater.init(particle);
+
+  const angles: number[] = [];
+  for (let i = 0; i < ticks; i++) {
+    updater.update(particle, tick(ms));
+    angles.push(toDeg(particle.rotation));
+  }
+  return angles;
+}
+
+describe('rotation updaters', () => {
+  it('should only enable motions configured on the particle', () => {
+    const updater = new RotationMotionUpdater(wind);
+    expect(updater.isEnabled(fakeParticle({ rockerWind: { enabled: true } }))).toBeTrue();
+    expect(updater.isEnabled(fakeParticle({ rockerWind: { enabled: false } }))).toBeFalse();
+    expect(updater.isEnabled(fakeParticle({ rockerSmooth: { enabled: true } }))).toBeFalse();
+  });
+
+  it('should leave disabled particles untouched', () => {
+    const updater = new RotationMotionUpdater(smoothRock);
+    const particle = fakeParticle({ rockerSmooth: { enabled: false } });
+    updater.update(particle, tick(500));
+    expect(particle.rotation).toBe(0);
+  });
+
+  it('should rock smoothly between min and max', () => {
+    const angles = run(smoothRock, { enabled: true, minDeg: -10, maxDeg: 20, periodSec: 2 }, 40);
+    expect(Math.min(...angles)).toBeCloseTo(-10, 5);
+    expect(Math.max(...angles)).toBeCloseTo(20, 5);
+    // a quarter period in from t=0
+    expect(angles[4]).toBeCloseTo(20, 5);
+  });
+
+  it('should flip between two angles on each hold', () => {
+    const angles = run(stepRock, { enabled: true, lowDeg: 5, highDeg: 15, holdSec: 1 }, 20, 100);
+    expect(angles[3]).toBeCloseTo(5);
+    expect(angles[12]).toBeCloseTo(15);
+    expect(new Set(angles.map(a => Math.round(a)))).toEqual(new Set([5, 15]));
+  });
+
+  it('should ease between angles instead of jumping', () => {
+    const config = { enabled: true, lowDeg: 0, highDeg: 30, holdSec: 1, transitionSec: 1 };
+    const angles = run(easedStepRock, config, 40, 100);
+    // holding low, halfway through the ease up, holding high, halfway back down
+    expect(angles[4]).toBeCloseTo(0);
+    expect(angles[14]).toBeCloseTo(15);
+    expect(angles[24]).toBeCloseTo(30);
+    expect(angles[34]).toBeCloseTo(15);
+    // steps never exceed what a one second ease allows
+    for (let i = 1; i < angles.length; i++) {
+      expect(Math.abs(angles[i] - angles[i - 1])).toBeLessThan(30 * 0.2);
+    }
+  });
+
+  it('should damp the pendulum swing over time', () => {
+    const angles = run(pendulum, { enabled: true, amplitudeDeg: 40, periodSec: 1, damping: 0.5 }, 100, 50);
+    const firstSecond = Math.max(...angles.slice(0, 20).map(Math.abs));
+    const lastSecond = Math.max(...angles.slice(80).map(Math.abs));
+    expect(firstSecond).toBeLessThanOrEqual(40);
+    expect(lastSecond).toBeLessThan(firstSecond * 0.2);
+  });
+
+  it('should re-kick the pendulum on its interval', () => {
+    const angles = run(pendulum, { enabled: true, amplitudeDeg: 40, periodSec: 1, damping: 1, rekickSec: 2 }, 40, 50);
+    expect(Math.abs(angles[38])).toBeLessThan(10);
+    // t = 2s lands exactly on a re-kick
+    expect(angles[39]).toBeCloseTo(40);
+  });
+
+  it('should lean with gusts of varying strength', () => {
+    const config = { enabled: true, baseDeg: 0, gustDeg: 30, gustPeriodSec: 2, swayDeg: 0 };
+    const angles = run(wind, config, 400, 50);
+    expect(Math.min(...angles)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...angles)).toBeLessThanOrEqual(30);
+
+    // gust peaks are not all the same height
+    const peaks = angles.filter((a, i) => i > 0 && i < angles.length - 1 && a > angles[i - 1] && a >= angles[i + 1]);
+    expect(peaks.length).toBeGreaterThan(3);
+    expect(Math.max(...peaks) - Math.min(...peaks)).toBeGreaterThan(3);
+  });
+
+  it('should flutter quickly within its amplitude', () => {
+    const config = { enabled: true, amplitudeDeg: 10, frequencyHz: 4, jitter: 0.5 };
+    const angles = run(flutter, config, 100, 20);
+    expect(Math.max(...angles.map(Math.abs))).toBeLessThanOrEqual(10);
+
+    const crossings = angles.filter((a, i) => i > 0 && Math.sign(a) !== Math.sign(angles[i - 1])).length;
+    // 2 seconds at 4Hz crosses zero about 16 times
+    expect(crossings).toBeGreaterThanOrEqual(14);
+  });
+
+  it('should give each particle its own state', () => {
+    let next = 0;
+    const updater = new RotationMotionUpdater(smoothRock, () => (next += 0.25));
+    const a = fakeParticle({ rockerSmooth: { enabled: true } });
+    const b = fakeParticle({ rockerSmooth: { enabled: true } });
+    updater.init(a);
+    updater.init(b);
+    updater.update(a, tick(16));
+    updater.update(b, tick(16));
+    expect(a.rotation).not.toBeCloseTo(b.rotation, 3);
+    expect(Object.keys(a)).toEqual(['shapeData', 'rotation']);
+  });
+
+  it('should register each motion once per engine', async () => {
+    const engine = jasmine.createSpyObj<Engine>('Engine', ['addParticleUpdater']);
+    engine.addParticleUpdater.and.resolveTo();
+
+    await loadRotationUpdaters(engine);
+    await loadRotationUpdaters(engine);
+
+    expect(engine.addParticleUpdater).toHaveBeenCalledTimes(ROTATION_MOTIONS.length);
+    expect(engine.addParticleUpdater.calls.allArgs().map(args => args[0]))
+      .toEqual(ROTATION_MOTIONS.map(motion => motion.key));
+  });
+
+  it('should retry registering after a failed load', async () => {
+    const engine = jasmine.createSpyObj<Engine>('Engine', ['addParticleUpdater']);
+    engine.addParticleUpdater.and.rejectWith(new Error('engine not ready'));
+    await expectAsync(loadRotationUpdaters(engine)).toBeRejected();
+
+    engine.addParticleUpdater.calls.reset();
+    engine.addParticleUpdater.and.resolveTo();
+    await loadRotationUpdaters(engine);
+
+    expect(engine.addParticleUpdater).toHaveBeenCalledTimes(ROTATION_MOTIONS.length);
+  });
+});
@@ -0,0 +1,60 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { ActivatedRouteSnapshot, RouterStateSnapshot, UrlTree, provideRouter } from '@angular/router';
+import { ADMIN_SESSION_KEY, AdminAuthService, adminAuthGuard, adminAuthInterceptor } from './admin-auth.service';
+import { mockBackendInterceptor } from '../mock-backend/mock-backend.interceptor';
+import { MOCK_ADMIN_PASSWORD } from '../mock-backend/admin.mock';
+import { MOCK_LATENCY } from '../mock-backend/mock-responses';
+
+describe('AdminAuthService', () => {
+  let auth: AdminAuthService;
+
+  beforeEach(() => {
+    sessionStorage.removeItem(ADMIN_SESSION_KEY);
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([adminAuthInterceptor, mockBackendInterceptor]))
+      ]
+    });
+    auth = TestBed.inject(AdminAuthService);
+  });
+
+  afterEach(() => auth.logout());
+
+  function guard(url: string): boolean | UrlTree {
+    return TestBed.runInInjectionContext(
+      () => adminAuthGuard({} as ActivatedRouteSnapshot, { url } as RouterStateSnapshot)
+    ) as boolean | UrlTree;
+  }
+
+  it('should reject a wrong password', fakeAsync(() => {
+    let status: number | undefined;
+    auth.login('nope').subscribe({ error: err => status = err.status });
+    tick(MOCK_LATENCY);
+
+    expect(status).toBe(401);
+    expect(auth.isAuthenticated()).toBeFalse();
+  }));
+
+  it('should keep the session for the tab', fakeAsync(() => {
+    auth.login(MOCK_ADMIN_PASSWORD).subscribe();
+    tick(MOCK_LATENCY);
+
+    expect(auth.isAuthenticated()).toBeTrue();
+    expect(auth.token()).toMatch(/^mock-/);
+    expect(sessionStorage.getItem(ADMIN_SESSION_KEY)).toContain(auth.token()!);
+
+    auth.logout();
+    expect(auth.token()).toBeNull();
+    expect(sessionStorage.getItem(ADMIN_SESSION_KEY)).toBeNull();
+  }));
+
+  it('should send signed-out visitors to the login page', fakeAsync(() => {
+    expect(String(guard('/admin/services'))).toBe('/admin/login?returnUrl=%2Fadmin%2Fservices');
+
+    auth.login(MOCK_ADMIN_PASSWORD).subscribe();
+    tick(MOCK_LATENCY);
+    expect(guard('/admin/services')).toBeTrue();
+  }));
+});
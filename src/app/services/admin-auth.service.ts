@@ -0,0 +1,123 @@
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { CanActivateFn, Router } from '@angular/router';
+import { Observable, catchError, tap, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AdminSession } from '../models/admin.model';
+import { ADMIN_PATH } from '../app.routes';
+
+/**
+ * Admin API root, relative to environment.apiUrl
+ */
+export const ADMIN_ENDPOINT = `${environment.apiUrl}/admin`;
+
+/**
+ * sessionStorage key for the signed-in session; closing the tab signs out
+ */
+export const ADMIN_SESSION_KEY = 'sebbyashan.admin-session';
+
+/**
+ * Admin auth service
+ * Exchanges the admin password for a bearer token and keeps it for the tab's lifetime
+ * The API is what actually protects content; the route guard only keeps signed-out visitors
+ * away from screens that would fail anyway
+ */
+@Injectable({ providedIn: 'root' })
+export class AdminAuthService {
+  private http = inject(HttpClient);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private session = signal<AdminSession | null>(this.readStorage());
+
+  /**
+   * True while there is an unexpired session
+   */
+  isAuthenticated(): boolean {
+    const session = this.session();
+    return !!session && Date.parse(session.expiresAt) > Date.now();
+  }
+
+  /**
+   * Bearer token for admin requests, or null when signed out or expired
+   */
+  token(): string | null {
+    return this.isAuthenticated() ? this.session()!.token : null;
+  }
+
+  /**
+   * Sign in with the admin password
+   * @param password - Password as typed
+   * @returns The new session; errors with 401 for a wrong password
+   */
+  login(password: string): Observable<AdminSession> {
+    return this.http.post<AdminSession>(`${ADMIN_ENDPOINT}/session`, { password }).pipe(
+      tap(session => {
+        this.session.set(session);
+        this.writeStorage(session);
+      })
+    );
+  }
+
+  logout(): void {
+    this.session.set(null);
+    this.writeStorage(null);
+  }
+
+  private readStorage(): AdminSession | null {
+    if (!this.isBrowser) return null;
+    try {
+      const stored = sessionStorage.getItem(ADMIN_SESSION_KEY);
+      return stored ? JSON.parse(stored) as AdminSession : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeStorage(session: AdminSession | null): void {
+    if (!this.isBrowser) return;
+    try {
+      if (session) {
+        sessionStorage.setItem(ADMIN_SESSION_KEY, JSON.stringify(session));
+      } else {
+        sessionStorage.removeItem(ADMIN_SESSION_KEY);
+      }
+    } catch {
+      // storage can be disabled; the session then lasts until reload
+    }
+  }
+}
+
+/**
+ * Send signed-out visitors to the admin login, remembering where they were going
+ */
+export const adminAuthGuard: CanActivateFn = (_route, state) => {
+  const auth = inject(AdminAuthService);
+  return auth.isAuthenticated() ||
+    inject(Router).createUrlTree(['/', ADMIN_PATH, 'login'], { queryParams: { returnUrl: state.url } });
+};
+
+/**
+ * Attach the admin token to admin API requests, and sign out when the API rejects it
+ * Must run before mockBackendInterceptor so the mock sees the header
+ */
+export const adminAuthInterceptor: HttpInterceptorFn = (request, next) => {
+  if (!request.url.startsWith(ADMIN_ENDPOINT) || request.url === `${ADMIN_ENDPOINT}/session`) {
+    return next(request);
+  }
+
+  const auth = inject(AdminAuthService);
+  const router = inject(Router);
+  const token = auth.token();
+  const authorized = token ? request.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : request;
+
+  return next(authorized).pipe(
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse && error.status === 401) {
+        auth.logout();
+        router.navigate(['/', ADMIN_PATH, 'login'], { queryParams: { returnUrl: router.url } });
+      }
+      return throwError(() => error);
+    })
+  );
+};
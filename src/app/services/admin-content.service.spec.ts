@@ -0,0 +1,170 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { AdminContentService, imageFileError } from './admin-content.service';
+import { AdminAuthService, adminAuthInterceptor } from './admin-auth.service';
+import { CONTENT_BUNDLE_VERSION } from './content-bundle';
+import { PublishedContent, PublishedContentService } from './published-content.service';
+import { ContentBundle } from '../models/admin.model';
+import { Artwork } from '../models/artwork.model';
+import { SERVICES } from '../data/services';
+import { mockBackendInterceptor } from '../mock-backend/mock-backend.interceptor';
+import { MOCK_ADMIN_PASSWORD, resetMockAdminContent } from '../mock-backend/admin.mock';
+import { MOCK_LATENCY } from '../mock-backend/mock-responses';
+
+function artwork(id: string): Artwork {
+  return {
+    id,
+    title: id,
+    alt: `${id} alt`,
+    description: `${id} description`,
+    tags: ['fan-art'],
+    createdAt: '2024-05-01',
+    dimensions: { width: 1200, height: 1600 },
+    sources: { full: `Image/${id}.jpg` }
+  };
+}
+
+const SEED: ContentBundle = {
+  version: CONTENT_BUNDLE_VERSION,
+  artworks: [artwork('first'), artwork('second'), artwork('third')],
+  services: SERVICES
+};
+
+describe('imageFileError', () => {
+  it('should reject non-images and oversized files', () => {
+    expect(imageFileError(new File(['x'], 'a.png', { type: 'image/png' }))).toBeNull();
+    expect(imageFileError(new File(['x'], 'a.pdf', { type: 'application/pdf' }))).toBe('fileType');
+    expect(imageFileError(new File([new Uint8Array(21 * 1024 * 1024)], 'big.png', { type: 'image/png' }))).toBe('fileSize');
+  });
+});
+
+describe('AdminContentService against the mock backend', () => {
+  let service: AdminContentService;
+  let auth: AdminAuthService;
+
+  beforeEach(() => {
+    resetMockAdminContent(SEED);
+    TestBed.configureTestingModule({
+      providers: [
+        // the interceptor redirects to the login page on 401
+        provideRouter([{ path: '**', children: [] }]),
+        provideHttpClient(withInterceptors([adminAuthInterceptor, mockBackendInterceptor]))
+      ]
+    });
+    service = TestBed.inject(AdminContentService);
+    auth = TestBed.inject(AdminAuthService);
+  });
+
+  afterEach(() => {
+    auth.logout();
+    resetMockAdminContent(null);
+  });
+
+  function signIn(): void {
+    auth.login(MOCK_ADMIN_PASSWORD).subscribe();
+    tick(MOCK_LATENCY);
+  }
+
+  function load(): void {
+    service.load().subscribe();
+    tick(MOCK_LATENCY);
+  }
+
+  it('should refuse content without a session', fakeAsync(() => {
+    let status: number | undefined;
+    service.load().subscribe({ error: err => status = err.status });
+    tick(MOCK_LATENCY);
+
+    expect(status).toBe(401);
+    expect(service.content()).toBeNull();
+  }));
+
+  it('should load everything, hidden entries included', fakeAsync(() => {
+    resetMockAdminContent({ ...SEED, artworks: [...SEED.artworks, { ...artwork('secret'), hidden: true }] });
+    signIn();
+    load();
+
+    expect(service.content()?.artworks.map(a => a.id)).toEqual(['first', 'second', 'third', 'secret']);
+    expect(service.content()?.services.length).toBe(SERVICES.length);
+  }));
+
+  it('should add and update artworks', fakeAsync(() => {
+    signIn();
+    load();
+
+    service.save('artworks', artwork('fourth'), true).subscribe();
+    tick(MOCK_LATENCY);
+    service.save('artworks', { ...artwork('first'), title: 'Renamed' }, false).subscribe();
+    tick(MOCK_LATENCY);
+
+    expect(service.content()?.artworks.map(a => a.id)).toEqual(['first', 'second', 'third', 'fourth']);
+    expect(service.find('artworks', 'first')?.title).toBe('Renamed');
+  }));
+
+  it('should reject taken ids and invalid content', fakeAsync(() => {
+    signIn();
+    load();
+
+    const errors: { status: number; issues?: string[] }[] = [];
+    service.save('artworks', artwork('first'), true).subscribe({ error: err => errors.push({ status: err.status }) });
+    tick(MOCK_LATENCY);
+    service.save('services', { ...SERVICES[0], packages: [] }, false).subscribe({
+      error: err => errors.push({ status: err.status, issues: err.error.issues })
+    });
+    tick(MOCK_LATENCY);
+
+    expect(errors[0].status).toBe(409);
+    expect(errors[1].status).toBe(422);
+    expect(errors[1].issues).toEqual(['service: "packages" must list at least one package']);
+  }));
+
+  it('should reorder and hide entries', fakeAsync(() => {
+    signIn();
+    load();
+
+    service.move('artworks', 'third', -1).subscribe();
+    tick(MOCK_LATENCY);
+    service.setHidden('services', SERVICES[0].id, true).subscribe();
+    tick(MOCK_LATENCY);
+
+    expect(service.content()?.artworks.map(a => a.id)).toEqual(['first', 'third', 'second']);
+    expect(service.find('services', SERVICES[0].id)?.hidden).toBeTrue();
+
+    // the mock keeps the changes for the next load
+    load();
+    expect(service.content()?.artworks.map(a => a.id)).toEqual(['first', 'third', 'second']);
+  }));
+
+  it('should show saved changes on the public site', fakeAsync(() => {
+    signIn();
+    load();
+
+    let published: PublishedContent | undefined;
+    TestBed.inject(PublishedContentService).content$.subscribe(content => published = content);
+    tick(MOCK_LATENCY);
+    expect(published?.artworks.map(a => a.id)).toEqual(['first', 'second', 'third']);
+
+    service.setHidden('artworks', 'second', true).subscribe();
+    tick(MOCK_LATENCY);
+    // the public site loads its content again once the save lands
+    tick(MOCK_LATENCY);
+
+    expect(published?.artworks.map(a => a.id)).toEqual(['first', 'third']);
+  }));
+
+  it('should import and export the whole bundle', fakeAsync(() => {
+    signIn();
+    load();
+
+    service.importBundle({ ...SEED, artworks: [artwork('only')] }).subscribe();
+    tick(MOCK_LATENCY);
+    expect(service.content()?.artworks.map(a => a.id)).toEqual(['only']);
+
+    let exported: ContentBundle | undefined;
+    service.exportBundle().subscribe(bundle => exported = bundle);
+    tick(MOCK_LATENCY);
+    expect(exported?.artworks.map(a => a.id)).toEqual(['only']);
+    expect(exported?.exportedAt).toBeDefined();
+  }));
+});
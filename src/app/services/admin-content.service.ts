@@ -0,0 +1,156 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, tap } from 'rxjs';
+import { ContentBundle, ContentItem, ContentKind, UploadedImage } from '../models/admin.model';
+import { ADMIN_ENDPOINT } from './admin-auth.service';
+import { PublishedContentService } from './published-content.service';
+
+/**
+ * Image types accepted for artwork and service uploads
+ */
+export const ADMIN_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * Largest accepted upload (bytes)
+ */
+export const ADMIN_IMAGE_MAX_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Check an image before uploading it
+ * @param file - File picked in the editor
+ * @returns "fileType" or "fileSize" when the file would be rejected, otherwise null
+ */
+export function imageFileError(file: File): 'fileType' | 'fileSize' | null {
+  if (!ADMIN_IMAGE_TYPES.includes(file.type)) return 'fileType';
+  if (file.size > ADMIN_IMAGE_MAX_BYTES) return 'fileSize';
+  return null;
+}
+
+/**
+ * Admin content service
+ * Loads and edits the gallery artworks and services through the admin API
+ * Holds the last known content so the admin screens share one copy and see each other's edits,
+ * and has the public site reload its content after every change
+ */
+@Injectable({ providedIn: 'root' })
+export class AdminContentService {
+  private http = inject(HttpClient);
+  private publishedContent = inject(PublishedContentService);
+
+  private bundle = signal<ContentBundle | null>(null);
+
+  /**
+   * Content as last loaded or saved; null until load() completes
+   */
+  readonly content = this.bundle.asReadonly();
+
+  /**
+   * Fetch everything the admin panel edits, hidden entries included
+   */
+  load(): Observable<ContentBundle> {
+    return this.http.get<ContentBundle>(`${ADMIN_ENDPOINT}/content`).pipe(
+      tap(bundle => this.bundle.set(bundle))
+    );
+  }
+
+  /**
+   * Find an artwork or service in the loaded content
+   * @param kind - Collection to look in
+   * @param id - Item id
+   */
+  find<K extends ContentKind>(kind: K, id: string): ContentItem<K> | undefined {
+    return (this.bundle()?.[kind] as ContentItem<K>[] | undefined)?.find(item => item.id === id);
+  }
+
+  /**
+   * Add or update an artwork or service
+   * Errors with 422 and a list of issues when the API rejects the content, or 409 when a new id is taken
+   * @param kind - Collection the item belongs to
+   * @param item - Complete item
+   * @param isNew - Add the item instead of replacing the one with the same id
+   * @returns The stored item
+   */
+  save<K extends ContentKind>(kind: K, item: ContentItem<K>, isNew: boolean): Observable<ContentItem<K>> {
+    const request = isNew
+      ? this.http.post<ContentItem<K>>(`${ADMIN_ENDPOINT}/${kind}`, item)
+      : this.http.put<ContentItem<K>>(`${ADMIN_ENDPOINT}/${kind}/${encodeURIComponent(item.id)}`, item);
+
+    return request.pipe(
+      tap(saved => this.updateItems(kind, items => isNew
+        ? [...items, saved]
+        : items.map(existing => existing.id === saved.id ? saved : existing))),
+      tap(() => this.publishedContent.refresh())
+    );
+  }
+
+  /**
+   * Show or hide an artwork or service on the public site
+   * @param kind - Collection the item belongs to
+   * @param id - Item id
+   * @param hidden - True to hide it
+   */
+  setHidden<K extends ContentKind>(kind: K, id: string, hidden: boolean): Observable<ContentItem<K>> {
+    const item = this.find(kind, id);
+    if (!item) {
+      throw new Error(`No ${kind} item with id "${id}" is loaded`);
+    }
+    return this.save(kind, { ...item, hidden }, false);
+  }
+
+  /**
+   * Move an artwork or service one place up or down in its list
+   * @param kind - Collection the item belongs to
+   * @param id - Item id
+   * @param offset - -1 to move it earlier, 1 to move it later
+   * @returns The reordered list
+   */
+  move<K extends ContentKind>(kind: K, id: string, offset: -1 | 1): Observable<ContentItem<K>[]> {
+    const ids = (this.bundle()?.[kind] ?? []).map(item => item.id);
+    const from = ids.indexOf(id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) {
+      throw new Error(`Cannot move ${kind} item "${id}" by ${offset}`);
+    }
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+
+    return this.http.put<ContentItem<K>[]>(`${ADMIN_ENDPOINT}/${kind}/order`, { ids }).pipe(
+      tap(items => this.updateItems(kind, () => items)),
+      tap(() => this.publishedContent.refresh())
+    );
+  }
+
+  /**
+   * Upload an image for an artwork or service
+   * @param file - Image checked with imageFileError
+   * @returns Where the image is served from, and its size
+   */
+  uploadImage(file: File): Observable<UploadedImage> {
+    const body = new FormData();
+    body.append('image', file, file.name);
+    return this.http.post<UploadedImage>(`${ADMIN_ENDPOINT}/uploads`, body);
+  }
+
+  /**
+   * Replace all content with an imported bundle
+   * @param bundle - Bundle checked with parseContentBundle
+   */
+  importBundle(bundle: ContentBundle): Observable<ContentBundle> {
+    return this.http.put<ContentBundle>(`${ADMIN_ENDPOINT}/content`, bundle).pipe(
+      tap(stored => this.bundle.set(stored)),
+      tap(() => this.publishedContent.refresh())
+    );
+  }
+
+  /**
+   * Fresh copy of the content for exporting, stamped with the export time
+   */
+  exportBundle(): Observable<ContentBundle> {
+    return this.load().pipe(
+      map(bundle => ({ ...bundle, exportedAt: new Date().toISOString() }))
+    );
+  }
+
+  private updateItems<K extends ContentKind>(kind: K, update: (items: ContentItem<K>[]) => ContentItem<K>[]): void {
+    this.bundle.update(bundle => bundle && { ...bundle, [kind]: update(bundle[kind] as ContentItem<K>[]) });
+  }
+}
@@ -0,0 +1,89 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { DOCUMENT } from '@angular/common';
+import {
+  ANALYTICS_BATCH_SIZE, ANALYTICS_FLUSH_DELAY, ANALYTICS_TRANSPORT, AnalyticsService, isDoNotTrackEnabled
+} from './analytics.service';
+import { mockAnalyticsBatches, mockAnalyticsTransport, resetMockAnalytics } from '../mock-backend/analytics.mock';
+
+describe('isDoNotTrackEnabled', () => {
+  it('should read the standard and legacy settings', () => {
+    expect(isDoNotTrackEnabled({ doNotTrack: '1' })).toBeTrue();
+    expect(isDoNotTrackEnabled({ doNotTrack: 'yes' })).toBeTrue();
+    expect(isDoNotTrackEnabled({ doNotTrack: null, msDoNotTrack: '1' } as Pick<Navigator, 'doNotTrack'>)).toBeTrue();
+    expect(isDoNotTrackEnabled({ doNotTrack: '0' })).toBeFalse();
+    expect(isDoNotTrackEnabled({ doNotTrack: null })).toBeFalse();
+  });
+});
+
+describe('AnalyticsService', () => {
+  let analytics: AnalyticsService;
+
+  beforeEach(() => {
+    resetMockAnalytics();
+    TestBed.configureTestingModule({
+      providers: [{ provide: ANALYTICS_TRANSPORT, useValue: mockAnalyticsTransport }]
+    });
+    analytics = TestBed.inject(AnalyticsService);
+  });
+
+  afterEach(() => analytics.flush());
+
+  it('should batch events until the flush delay', fakeAsync(() => {
+    analytics.track({ type: 'section-reached', sectionId: 'gallery' });
+    analytics.track({ type: 'service-viewed', serviceId: 'stickers' });
+    expect(mockAnalyticsBatches.length).toBe(0);
+
+    tick(ANALYTICS_FLUSH_DELAY);
+    expect(mockAnalyticsBatches.length).toBe(1);
+    expect(mockAnalyticsBatches[0].events.map(event => event.type)).toEqual(['section-reached', 'service-viewed']);
+    expect(mockAnalyticsBatches[0].events[1]).toEqual(jasmine.objectContaining({ serviceId: 'stickers' }));
+  }));
+
+  it('should send a full batch right away', fakeAsync(() => {
+    for (let i = 0; i < ANALYTICS_BATCH_SIZE; i++) {
+      analytics.track({ type: 'nav-clicked', sectionId: 'gallery' });
+    }
+    expect(mockAnalyticsBatches.length).toBe(1);
+    expect(mockAnalyticsBatches[0].events.length).toBe(ANALYTICS_BATCH_SIZE);
+
+    // the pending timer was cleared with the flush
+    tick(ANALYTICS_FLUSH_DELAY);
+    expect(mockAnalyticsBatches.length).toBe(1);
+  }));
+
+  it('should record how long an artwork was viewed', fakeAsync(() => {
+    analytics.startArtworkView('anya');
+    tick(3000);
+    analytics.startArtworkView('spooky-store');
+    tick(1000);
+    analytics.endArtworkView();
+    analytics.flush();
+
+    expect(mockAnalyticsBatches[0].events).toEqual([
+      jasmine.objectContaining({ type: 'artwork-viewed', artworkId: 'anya', durationMs: 3000 }),
+      jasmine.objectContaining({ type: 'artwork-viewed', artworkId: 'spooky-store', durationMs: 1000 })
+    ]);
+  }));
+
+  it('should send the queue when the page is hidden, leaving hidden time out of views', fakeAsync(() => {
+    const document = TestBed.inject(DOCUMENT);
+    const visibility = spyOnProperty(document, 'visibilityState').and.returnValue('hidden');
+
+    analytics.startArtworkView('anya');
+    tick(2000);
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(mockAnalyticsBatches[0].events).toEqual([
+      jasmine.objectContaining({ type: 'artwork-viewed', artworkId: 'anya', durationMs: 2000 })
+    ]);
+
+    tick(60000);
+    visibility.and.returnValue('visible');
+    document.dispatchEvent(new Event('visibilitychange'));
+    tick(500);
+    analytics.endArtworkView();
+    analytics.flush();
+    expect(mockAnalyticsBatches[1].events).toEqual([
+      jasmine.objectContaining({ type: 'artwork-viewed', artworkId: 'anya', durationMs: 500 })
+    ]);
+  }));
+});
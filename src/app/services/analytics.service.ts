@@ -0,0 +1,158 @@
+import { Injectable, InjectionToken, NgZone, OnDestroy, PLATFORM_ID, inject } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { environment } from '../../environments/environment';
+import { AnalyticsBatch, AnalyticsEvent, TrackedEvent } from '../models/analytics.model';
+
+/**
+ * Events sent together once this many are queued
+ */
+export const ANALYTICS_BATCH_SIZE = 20;
+
+/**
+ * Longest an event waits in the queue before it's sent (ms)
+ */
+export const ANALYTICS_FLUSH_DELAY = 15000;
+
+/**
+ * Sends a batch to the collector
+ * @param url - Collector URL
+ * @param body - JSON-encoded AnalyticsBatch
+ * @returns False when the browser refused to queue the request
+ */
+export type AnalyticsTransport = (url: string, body: string) => boolean;
+
+/**
+ * Beacons are sent as a plain string (text/plain), which needs no CORS preflight;
+ * collectors should parse the body as JSON regardless of its content type
+ */
+export const beaconTransport: AnalyticsTransport = (url, body) => navigator.sendBeacon(url, body);
+
+/**
+ * How batches leave the browser; the mock backend swaps in an in-app collector
+ */
+export const ANALYTICS_TRANSPORT = new InjectionToken<AnalyticsTransport>('ANALYTICS_TRANSPORT', {
+  providedIn: 'root',
+  factory: () => beaconTransport
+});
+
+/**
+ * Whether the visitor asked not to be tracked
+ * @param nav - Navigator to read the Do Not Track setting from
+ */
+export function isDoNotTrackEnabled(nav: Pick<Navigator, 'doNotTrack'>): boolean {
+  const legacy = (nav as { msDoNotTrack?: string }).msDoNotTrack;
+  return nav.doNotTrack === '1' || nav.doNotTrack === 'yes' || legacy === '1';
+}
+
+/**
+ * Analytics service
+ * Counts which artworks, services and sections get attention without identifying anyone:
+ * no cookies, no storage, no visitor or session ids, and nothing at all under Do Not Track
+ * Events are queued and sent in batches with navigator.sendBeacon, including when the page is hidden or closed
+ */
+@Injectable({ providedIn: 'root' })
+export class AnalyticsService implements OnDestroy {
+  private document = inject(DOCUMENT);
+  private zone = inject(NgZone);
+  private transport = inject(ANALYTICS_TRANSPORT);
+
+  /**
+   * False on the server, without a collector URL, and when Do Not Track is on
+   */
+  readonly enabled = isPlatformBrowser(inject(PLATFORM_ID)) &&
+    !!environment.analyticsUrl &&
+    !isDoNotTrackEnabled(this.document.defaultView!.navigator);
+
+  private queue: TrackedEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Artwork open in the modal and when its current stretch of viewing began */
+  private view: { artworkId: string; since: number } | null = null;
+
+  private onVisibilityChange = () => {
+    if (this.document.visibilityState === 'hidden') {
+      this.pauseView();
+      this.flush();
+    } else if (this.view) {
+      this.view.since = Date.now();
+    }
+  };
+
+  constructor() {
+    if (this.enabled) {
+      this.document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+  }
+
+  /**
+   * Queue an event
+   * @param event - What happened
+   */
+  track(event: AnalyticsEvent): void {
+    if (!this.enabled) return;
+
+    this.queue.push({ ...event, at: new Date().toISOString() });
+    if (this.queue.length >= ANALYTICS_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      // outside Angular so a pending batch doesn't keep the app from becoming stable
+      this.zone.runOutsideAngular(() => {
+        this.flushTimer = setTimeout(() => this.flush(), ANALYTICS_FLUSH_DELAY);
+      });
+    }
+  }
+
+  /**
+   * Start timing how long an artwork is looked at, ending any view in progress
+   * Time while the page is hidden doesn't count
+   * @param artworkId - Artwork shown in the modal
+   */
+  startArtworkView(artworkId: string): void {
+    this.endArtworkView();
+    if (this.enabled) {
+      this.view = { artworkId, since: Date.now() };
+    }
+  }
+
+  /**
+   * Record the view in progress, if any, as an "artwork-viewed" event
+   */
+  endArtworkView(): void {
+    this.pauseView();
+    this.view = null;
+  }
+
+  /**
+   * Send everything queued now
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.queue.length) return;
+
+    const batch: AnalyticsBatch = { sentAt: new Date().toISOString(), events: this.queue };
+    this.queue = [];
+    if (!this.transport(environment.analyticsUrl, JSON.stringify(batch))) {
+      console.warn(`Analytics beacon with ${batch.events.length} events was not sent`);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.endArtworkView();
+    this.flush();
+    this.document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  /**
+   * Record the time viewed since the view started or the page was last shown
+   */
+  private pauseView(): void {
+    const view = this.view;
+    if (!view || !view.since) return;
+
+    this.track({ type: 'artwork-viewed', artworkId: view.artworkId, durationMs: Date.now() - view.since });
+    view.since = 0;
+  }
+}
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import { SwUpdate, UnrecoverableStateEvent, VersionEvent } from '@angular/service-worker';
+import { Subject } from 'rxjs';
+import { AppUpdateService } from './app-update.service';
+
+describe('AppUpdateService', () => {
+  let versionUpdates: Subject<VersionEvent>;
+  let unrecoverable: Subject<UnrecoverableStateEvent>;
+  let swUpdate: jasmine.SpyObj<SwUpdate>;
+
+  function createService(isEnabled = true): AppUpdateService {
+    swUpdate = jasmine.createSpyObj<SwUpdate>('SwUpdate', ['checkForUpdate', 'activateUpdate'], {
+      isEnabled,
+      versionUpdates: versionUpdates.asObservable(),
+      unrecoverable: unrecoverable.asObservable()
+    });
+    swUpdate.checkForUpdate.and.resolveTo(false);
+    TestBed.configureTestingModule({ providers: [{ provide: SwUpdate, useValue: swUpdate }] });
+    return TestBed.inject(AppUpdateService);
+  }
+
+  beforeEach(() => {
+    versionUpdates = new Subject();
+    unrecoverable = new Subject();
+    spyOn(console, 'error');
+  });
+
+  it('should prompt once a new version is ready', () => {
+    const service = createService();
+    versionUpdates.next({ type: 'VERSION_DETECTED', version: { hash: 'b' } });
+    expect(service.state()).toBeNull();
+
+    versionUpdates.next({ type: 'VERSION_READY', currentVersion: { hash: 'a' }, latestVersion: { hash: 'b' } });
+    expect(service.state()).toBe('ready');
+
+    service.dismiss();
+    expect(service.state()).toBeNull();
+  });
+
+  it('should ask for a reload when the cached version is broken', () => {
+    const service = createService();
+    unrecoverable.next({ type: 'UNRECOVERABLE_STATE', reason: 'hash mismatch' });
+    expect(service.state()).toBe('broken');
+  });
+
+  it('should stay idle when the service worker is disabled', () => {
+    const service = createService(false);
+    versionUpdates.next({ type: 'VERSION_READY', currentVersion: { hash: 'a' }, latestVersion: { hash: 'b' } });
+    expect(service.state()).toBeNull();
+    expect(swUpdate.checkForUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { ApplicationRef, DestroyRef, Injectable, inject, signal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { SwUpdate, VersionReadyEvent } from '@angular/service-worker';
+import { concat, filter, first, interval } from 'rxjs';
+
+/**
+ * How often an open tab asks the server for a new deploy
+ */
+export const UPDATE_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Why the update prompt is showing: a new deploy is ready, or the cached
+ * version can't be served any more and only a reload will recover it
+ */
+export type AppUpdateState = 'ready' | 'broken';
+
+/**
+ * App update service
+ * Watches the Angular service worker for new deploys and lets the update
+ * prompt reload into them. Inert when the service worker is disabled (development, SSR)
+ */
+@Injectable({ providedIn: 'root' })
+export class AppUpdateService {
+  private swUpdate = inject(SwUpdate);
+  private appRef = inject(ApplicationRef);
+  private document = inject(DOCUMENT);
+  private destroyRef = inject(DestroyRef);
+
+  private updateState = signal<AppUpdateState | null>(null);
+
+  /** Set while the update prompt should be visible */
+  readonly state = this.updateState.asReadonly();
+
+  constructor() {
+    if (!this.swUpdate.isEnabled) return;
+
+    const versionReady = this.swUpdate.versionUpdates
+      .pipe(filter((event): event is VersionReadyEvent => event.type === 'VERSION_READY'))
+      .subscribe(() => this.updateState.set('ready'));
+    const unrecoverable = this.swUpdate.unrecoverable.subscribe(event => {
+      console.error('Service worker cannot serve this version:', event.reason);
+      this.updateState.set('broken');
+    });
+
+    // wait for the app to settle first; a pending interval would keep it from ever becoming stable
+    const checks = concat(
+      this.appRef.isStable.pipe(first(stable => stable)),
+      interval(UPDATE_CHECK_INTERVAL_MS)
+    ).subscribe(() => this.checkForUpdate());
+
+    this.destroyRef.onDestroy(() => {
+      versionReady.unsubscribe();
+      unrecoverable.unsubscribe();
+      checks.unsubscribe();
+    });
+  }
+
+  /**
+   * Switch to the latest version and reload the page
+   */
+  async activate(): Promise<void> {
+    if (this.updateState() === 'ready') {
+      try {
+        await this.swUpdate.activateUpdate();
+      } catch (error) {
+        // reloading still picks up the new version once the worker is ready
+        console.error('Failed to activate update:', error);
+      }
+    }
+    this.document.location.reload();
+  }
+
+  /**
+   * Hide the prompt; the new version loads on the next visit
+   */
+  dismiss(): void {
+    this.updateState.set(null);
+  }
+
+  private async checkForUpdate(): Promise<void> {
+    try {
+      await this.swUpdate.checkForUpdate();
+    } catch (error) {
+      // offline or the server is down; try again on the next tick
+      console.warn('Update check failed:', error);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Artwork, ArtworkStage } from '../models/artwork.model';
+import { compareStageIndex, processStages } from './artwork-process';
+
+function artwork(stages?: ArtworkStage[]): Artwork {
+  return {
+    id: 'spooky-store',
+    title: 'Spooky Store',
+    alt: 'Ghost kid shopping',
+    description: 'Ghost Kid Shopping',
+    tags: ['seasonal'],
+    createdAt: '2024-10-28',
+    dimensions: { width: 100, height: 100 },
+    sources: { full: 'Image/SpookyStore.jpg' },
+    process: stages && { stages }
+  };
+}
+
+describe('artwork process', () => {
+  const sketch: ArtworkStage = { kind: 'sketch', src: 'Image/SpookyStore-sketch.jpg' };
+  const flats: ArtworkStage = { kind: 'flats', src: 'Image/SpookyStore-flats.jpg' };
+  const crop: ArtworkStage = { kind: 'crop', src: 'Image/SpookyStore-crop.jpg' };
+
+  it('should have no stages without process shots', () => {
+    expect(processStages(artwork())).toEqual([]);
+    expect(processStages(artwork([]))).toEqual([]);
+  });
+
+  it('should slot the artwork in as the final stage before any crops', () => {
+    expect(processStages(artwork([sketch, crop])).map(stage => stage.kind)).toEqual(['sketch', 'final', 'crop']);
+    expect(processStages(artwork([sketch, flats])).at(-1)).toEqual({
+      kind: 'final', src: 'Image/SpookyStore.jpg', alt: 'Ghost kid shopping'
+    });
+  });
+
+  it('should keep a listed final stage as it is', () => {
+    const final: ArtworkStage = { kind: 'final', src: 'Image/SpookyStore-clean.jpg' };
+    expect(processStages(artwork([sketch, final, crop]))).toEqual([sketch, final, crop]);
+  });
+
+  it('should compare the selected work-in-progress stage, or the first one', () => {
+    const stages = processStages(artwork([sketch, flats, crop]));
+    expect(compareStageIndex(stages, 1)).toBe(1);
+    expect(compareStageIndex(stages, 2)).toBe(0);
+    expect(compareStageIndex(stages, 3)).toBe(0);
+    expect(compareStageIndex(processStages(artwork([crop])), 0)).toBe(-1);
+  });
+});
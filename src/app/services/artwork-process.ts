@@ -0,0 +1,33 @@
+import { Artwork, ArtworkStage } from '../models/artwork.model';
+
+/**
+ * Stages shown in an artwork's process stepper
+ * Listed stages keep their catalog order; when none is "final", the artwork's own image
+ * is slotted in before the first crop (or at the end)
+ * @param artwork - Artwork in the active language
+ * @returns An empty list when the artwork has no process stages
+ */
+export function processStages(artwork: Artwork): ArtworkStage[] {
+  const stages = artwork.process?.stages ?? [];
+  if (!stages.length || stages.some(stage => stage.kind === 'final')) {
+    return stages;
+  }
+
+  const final: ArtworkStage = { kind: 'final', src: artwork.sources.full, alt: artwork.alt };
+  const firstCrop = stages.findIndex(stage => stage.kind === 'crop');
+  return firstCrop === -1
+    ? [...stages, final]
+    : [...stages.slice(0, firstCrop), final, ...stages.slice(firstCrop)];
+}
+
+/**
+ * Index of the stage to compare against the final image in the before/after slider
+ * The selected stage when it's a work-in-progress, otherwise the first one
+ * @param stages - Stages from processStages
+ * @param selected - Index of the stage shown in the stepper
+ * @returns -1 when there is nothing to compare
+ */
+export function compareStageIndex(stages: ArtworkStage[], selected: number): number {
+  const isWorkInProgress = (stage?: ArtworkStage) => !!stage && stage.kind !== 'final' && stage.kind !== 'crop';
+  return isWorkInProgress(stages[selected]) ? selected : stages.findIndex(stage => isWorkInProgress(stage));
+}
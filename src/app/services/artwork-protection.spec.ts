@@ -0,0 +1,54 @@
+import { Artwork } from '../models/artwork.model';
+import {
+  DEFAULT_WATERMARK_OPACITY, PREVIEW_MAX_WIDTH, modalVariantWidth, resolveWatermark, watermarkPlacements
+} from './artwork-protection';
+
+const artwork: Artwork = {
+  id: 'tosh-background',
+  title: 'Tosh Background',
+  alt: 'Tosh background',
+  description: 'Background art',
+  tags: ['backgrounds'],
+  createdAt: '2025-07-08',
+  dimensions: { width: 5000, height: 3000 },
+  sources: { full: 'Image/ToshBG-1.jpg' }
+};
+
+describe('artwork protection', () => {
+  const widths = [320, 640, 1280, 1920, 2560];
+
+  it('should cap the modal variant for pieces that are not downloadable', () => {
+    expect(modalVariantWidth(artwork, widths)).toBe(1280);
+    expect(modalVariantWidth(artwork, widths)).toBeLessThanOrEqual(PREVIEW_MAX_WIDTH);
+  });
+
+  it('should serve the largest variant for downloadable pieces', () => {
+    expect(modalVariantWidth({ ...artwork, downloadable: true }, widths)).toBe(2560);
+  });
+
+  it('should fall back to the smallest variant when every width is over the cap', () => {
+    expect(modalVariantWidth(artwork, [2000, 3000])).toBe(2000);
+  });
+
+  it('should default the watermark opacity and position', () => {
+    expect(resolveWatermark({ text: '© SebbyAshan' })).toEqual({
+      text: '© SebbyAshan', opacity: DEFAULT_WATERMARK_OPACITY, position: 'bottom-right'
+    });
+  });
+
+  it('should place a corner watermark inside the margin', () => {
+    expect(watermarkPlacements('bottom-right', { width: 1000, height: 800 }, { width: 200, height: 40 }, 20))
+      .toEqual([{ x: 780, y: 740 }]);
+    expect(watermarkPlacements('center', { width: 1000, height: 800 }, { width: 200, height: 40 }, 20))
+      .toEqual([{ x: 400, y: 380 }]);
+  });
+
+  it('should tile the watermark over the whole canvas in staggered rows', () => {
+    const placements = watermarkPlacements('tiled', { width: 1000, height: 300 }, { width: 200, height: 40 }, 20);
+    const rows = [...new Set(placements.map(({ y }) => y))];
+
+    expect(rows).toEqual([20, 100, 180, 260]);
+    expect(placements.filter(({ y }) => y === 20)[0].x).toBe(20);
+    expect(placements.filter(({ y }) => y === 100)[0].x).toBe(-100);
+  });
+});
@@ -0,0 +1,98 @@
+import { Artwork, ArtworkWatermark, WatermarkPosition } from '../models/artwork.model';
+
+/**
+ * Widest variant the modal loads for pieces that aren't marked downloadable
+ * Enough for the 800px modal on 2x screens, well short of print resolution
+ */
+export const PREVIEW_MAX_WIDTH = 1600;
+
+export const DEFAULT_WATERMARK_OPACITY = 0.35;
+export const DEFAULT_WATERMARK_POSITION: WatermarkPosition = 'bottom-right';
+
+/**
+ * Watermark with every default applied
+ */
+export type ResolvedWatermark = ArtworkWatermark & { opacity: number; position: WatermarkPosition };
+
+/**
+ * Size of a drawn area in canvas pixels
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Top-left corner of one watermark copy in canvas pixels
+ */
+export interface WatermarkPlacement {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pick the variant width the modal should load
+ * @param artwork - Artwork being shown
+ * @param widths - Available variant widths, ascending
+ * @returns The largest width for downloadable pieces, otherwise the largest within PREVIEW_MAX_WIDTH
+ */
+export function modalVariantWidth(artwork: Artwork, widths: number[]): number {
+  if (artwork.downloadable) {
+    return widths[widths.length - 1];
+  }
+  const previews = widths.filter(width => width <= PREVIEW_MAX_WIDTH);
+  return previews.length ? previews[previews.length - 1] : widths[0];
+}
+
+/**
+ * Fill in watermark defaults
+ * @param watermark - Watermark from the catalog
+ */
+export function resolveWatermark(watermark: ArtworkWatermark): ResolvedWatermark {
+  return {
+    ...watermark,
+    opacity: watermark.opacity ?? DEFAULT_WATERMARK_OPACITY,
+    position: watermark.position ?? DEFAULT_WATERMARK_POSITION
+  };
+}
+
+/**
+ * Where to draw each copy of the watermark
+ * @param position - Catalog position; "tiled" staggers copies across the whole canvas
+ * @param canvas - Canvas size
+ * @param mark - Size of one watermark copy
+ * @param margin - Gap from the canvas edges (and between tiles)
+ */
+export function watermarkPlacements(
+  position: WatermarkPosition, canvas: Size, mark: Size, margin: number
+): WatermarkPlacement[] {
+  const left = margin;
+  const right = canvas.width - mark.width - margin;
+  const top = margin;
+  const bottom = canvas.height - mark.height - margin;
+
+  switch (position) {
+    case 'top-left':
+      return [{ x: left, y: top }];
+    case 'top-right':
+      return [{ x: right, y: top }];
+    case 'bottom-left':
+      return [{ x: left, y: bottom }];
+    case 'bottom-right':
+      return [{ x: right, y: bottom }];
+    case 'center':
+      return [{ x: (canvas.width - mark.width) / 2, y: (canvas.height - mark.height) / 2 }];
+    case 'tiled': {
+      const stepX = mark.width + margin * 2;
+      const stepY = mark.height + margin * 2;
+      const placements: WatermarkPlacement[] = [];
+      for (let row = 0, y = top; y < canvas.height; row++, y += stepY) {
+        // every other row shifts half a tile so copies don't line up in columns
+        for (let x = row % 2 ? left - stepX / 2 : left; x < canvas.width; x += stepX) {
+          placements.push({ x, y });
+        }
+      }
+      return placements;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { CatalogValidationError, parseCatalog } from './catalog';
+
+const validEntry = {
+  id: 'city-rain-walk',
+  title: 'City Rain Walk',
+  alt: 'Background design 2',
+  description: 'An Adventure into the imagination while walking in the city',
+  tags: ['backgrounds'],
+  createdAt: '2025-05-02',
+  dimensions: { width: 5000, height: 3000 },
+  sources: { full: 'https://i.imgur.com/5IwYmG3.jpeg' }
+};
+
+describe('parseCatalog', () => {
+  it('should return artworks from a valid catalog', () => {
+    const artworks = parseCatalog({ version: 1, artworks: [validEntry] });
+    expect(artworks.length).toBe(1);
+    expect(artworks[0].id).toBe('city-rain-walk');
+  });
+
+  it('should reject an unsupported version', () => {
+    expect(() => parseCatalog({ version: 2, artworks: [] })).toThrowError(CatalogValidationError);
+  });
+
+  it('should report every malformed entry', () => {
+    try {
+      parseCatalog({
+        version: 1,
+        artworks: [
+          { ...validEntry, title: '' },
+          { ...validEntry, id: 'other', createdAt: 'last week' },
+          validEntry,
+          validEntry
+        ]
+      });
+      fail('expected CatalogValidationError');
+    } catch (err) {
+      const issues = (err as CatalogValidationError).issues;
+      expect(issues).toContain('artworks[0] (city-rain-walk): "title" must be a non-empty string');
+      expect(issues).toContain('artworks[1] (other): "createdAt" must be a YYYY-MM-DD date');
+      expect(issues.some(issue => issue.includes('duplicate id'))).toBeTrue();
+    }
+  });
+
+  it('should accept protection settings and the downloadable flag', () => {
+    const artworks = parseCatalog({
+      version: 1,
+      artworks: [{ ...validEntry, downloadable: false, protection: { watermark: { text: '© SebbyAshan', position: 'tiled' } } }]
+    });
+    expect(artworks[0].protection?.watermark.position).toBe('tiled');
+  });
+
+  it('should report malformed protection settings', () => {
+    try {
+      parseCatalog({
+        version: 1,
+        artworks: [{ ...validEntry, downloadable: 'yes', protection: { watermark: { opacity: 2, position: 'middle' } } }]
+      });
+      fail('expected CatalogValidationError');
+    } catch (err) {
+      const issues = (err as CatalogValidationError).issues;
+      expect(issues).toContain('artworks[0] (city-rain-walk): "downloadable" must be true or false when present');
+      expect(issues).toContain('artworks[0] (city-rain-walk): "protection.watermark" needs a "text" or "logo"');
+      expect(issues.some(issue => issue.includes('"protection.watermark.opacity"'))).toBeTrue();
+      expect(issues.some(issue => issue.includes('"protection.watermark.position"'))).toBeTrue();
+    }
+  });
+
+  it('should accept process stages, a timelapse and making-of details', () => {
+    const artworks = parseCatalog({
+      version: 1,
+      artworks: [{
+        ...validEntry,
+        process: {
+          stages: [{ kind: 'sketch', src: 'Image/BGFB2-sketch.jpg' }, { kind: 'crop', src: 'Image/BGFB2-crop.jpg', alt: 'Umbrella close-up' }],
+          timelapse: { type: 'video', src: 'https://example.com/timelapse.mp4' },
+          notes: 'Painted over **three** evenings.',
+          tools: ['Clip Studio Paint'],
+          canvas: { width: 6000, height: 3600 },
+          hoursSpent: 14
+        }
+      }]
+    });
+    expect(artworks[0].process?.stages?.length).toBe(2);
+  });
+
+  it('should report malformed process details', () => {
+    try {
+      parseCatalog({
+        version: 1,
+        artworks: [{
+          ...validEntry,
+          process: {
+            stages: [{ kind: 'inks', src: '' }],
+            timelapse: { type: 'image', src: 'Image/timelapse.webp' },
+            hoursSpent: -2
+          }
+        }]
+      });
+      fail('expected CatalogValidationError');
+    } catch (err) {
+      const issues = (err as CatalogValidationError).issues;
+      expect(issues.some(issue => issue.includes('"process.stages[0].kind"'))).toBeTrue();
+      expect(issues).toContain('artworks[0] (city-rain-walk): "process.stages[0].src" must be a non-empty URL');
+      expect(issues).toContain('artworks[0] (city-rain-walk): "process.timelapse.poster" is required for animated images');
+      expect(issues).toContain('artworks[0] (city-rain-walk): "process.hoursSpent" must be a positive number');
+    }
+  });
+
+  it('should report translations for unsupported languages or with empty copy', () => {
+    try {
+      parseCatalog({
+        version: 1,
+        artworks: [{ ...validEntry, translations: { es: { title: '' }, fr: { title: 'Promenade' } } }]
+      });
+      fail('expected CatalogValidationError');
+    } catch (err) {
+      const issues = (err as CatalogValidationError).issues;
+      expect(issues).toContain('artworks[0] (city-rain-walk): "translations.es.title" must be a non-empty string when present');
+      expect(issues).toContain('artworks[0] (city-rain-walk): "translations.fr" is not a supported language');
+    }
+  });
+});
@@ -0,0 +1,283 @@
+import { Artwork, ArtworkCatalog, ArtworkStageKind, WatermarkPosition } from '../models/artwork.model';
+import { isLocaleCode } from '../i18n/locales';
+
+/**
+ * Catalog schema version this build understands
+ * Bump together with the "version" field in public/catalog.json when the shape changes
+ */
+export const CATALOG_VERSION = 1;
+
+/**
+ * Location of the artwork catalog, relative to the app base href
+ */
+export const CATALOG_URL = 'catalog.json';
+
+/**
+ * Thrown when catalog.json does not match the expected schema
+ * Carries every problem found so a broken file can be fixed in one pass
+ */
+export class CatalogValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid artwork catalog:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+/**
+ * Artwork and service ids: lowercase words joined by single dashes ("city-rain-walk")
+ */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right', 'tiled'];
+const STAGE_KINDS: ArtworkStageKind[] = ['sketch', 'lineart', 'flats', 'final', 'crop'];
+const TIMELAPSE_TYPES = ['video', 'image'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Validate a single catalog entry
+ * @param entry - Raw entry from the artworks array
+ * @param label - Human readable position used as a prefix for issues
+ * @returns List of problems, empty when the entry is valid
+ */
+export function validateArtwork(entry: unknown, label: string): string[] {
+  if (!isRecord(entry)) {
+    return [`${label}: expected an object`];
+  }
+
+  const issues: string[] = [];
+
+  if (!isNonEmptyString(entry['id']) || !SLUG_PATTERN.test(entry['id'])) {
+    issues.push(`${label}: "id" must be a lowercase, dash-separated slug`);
+  }
+  for (const field of ['title', 'alt', 'description']) {
+    if (!isNonEmptyString(entry[field])) {
+      issues.push(`${label}: "${field}" must be a non-empty string`);
+    }
+  }
+
+  const tags = entry['tags'];
+  if (!Array.isArray(tags) || !tags.every(isNonEmptyString)) {
+    issues.push(`${label}: "tags" must be an array of non-empty strings`);
+  }
+
+  const createdAt = entry['createdAt'];
+  if (!isNonEmptyString(createdAt) || !ISO_DATE.test(createdAt) || isNaN(Date.parse(createdAt))) {
+    issues.push(`${label}: "createdAt" must be a YYYY-MM-DD date`);
+  }
+
+  const dimensions = entry['dimensions'];
+  if (!isRecord(dimensions) || !isPositiveNumber(dimensions['width']) || !isPositiveNumber(dimensions['height'])) {
+    issues.push(`${label}: "dimensions" must have positive "width" and "height"`);
+  }
+
+  const sources = entry['sources'];
+  if (!isRecord(sources) || !isNonEmptyString(sources['full'])) {
+    issues.push(`${label}: "sources.full" must be a non-empty URL`);
+  } else if (sources['thumbnail'] !== undefined && !isNonEmptyString(sources['thumbnail'])) {
+    issues.push(`${label}: "sources.thumbnail" must be a non-empty URL when present`);
+  }
+
+  for (const field of ['downloadable', 'hidden']) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+      issues.push(`${label}: "${field}" must be true or false when present`);
+    }
+  }
+  if (entry['protection'] !== undefined) {
+    issues.push(...validateProtection(entry['protection'], label));
+  }
+  if (entry['process'] !== undefined) {
+    issues.push(...validateProcess(entry['process'], label));
+  }
+  if (entry['translations'] !== undefined) {
+    issues.push(...validateTranslations(entry['translations'], label));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an artwork's translated copy
+ * @param translations - Raw "translations" value
+ * @param label - Human readable position used as a prefix for issues
+ * @returns List of problems, empty when the translations are valid
+ */
+function validateTranslations(translations: unknown, label: string): string[] {
+  if (!isRecord(translations)) {
+    return [`${label}: "translations" must be an object keyed by language`];
+  }
+
+  const issues: string[] = [];
+  for (const [locale, translation] of Object.entries(translations)) {
+    if (!isLocaleCode(locale)) {
+      issues.push(`${label}: "translations.${locale}" is not a supported language`);
+    } else if (!isRecord(translation)) {
+      issues.push(`${label}: "translations.${locale}" must be an object`);
+    } else {
+      for (const field of ['title', 'alt', 'description', 'notes']) {
+        if (translation[field] !== undefined && !isNonEmptyString(translation[field])) {
+          issues.push(`${label}: "translations.${locale}.${field}" must be a non-empty string when present`);
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate an artwork's making-of material
+ * @param process - Raw "process" value
+ * @param label - Human readable position used as a prefix for issues
+ * @returns List of problems, empty when the process is valid
+ */
+function validateProcess(process: unknown, label: string): string[] {
+  if (!isRecord(process)) {
+    return [`${label}: "process" must be an object`];
+  }
+
+  const issues: string[] = [];
+  const { stages, timelapse, notes, tools, canvas, hoursSpent } = process;
+
+  if (stages !== undefined) {
+    if (!Array.isArray(stages)) {
+      issues.push(`${label}: "process.stages" must be an array`);
+    } else {
+      stages.forEach((stage, index) => {
+        const prefix = `${label}: "process.stages[${index}]`;
+        if (!isRecord(stage)) {
+          issues.push(`${prefix}" must be an object`);
+          return;
+        }
+        if (!STAGE_KINDS.includes(stage['kind'] as ArtworkStageKind)) {
+          issues.push(`${prefix}.kind" must be one of ${STAGE_KINDS.join(', ')}`);
+        }
+        if (!isNonEmptyString(stage['src'])) {
+          issues.push(`${prefix}.src" must be a non-empty URL`);
+        }
+        if (stage['alt'] !== undefined && !isNonEmptyString(stage['alt'])) {
+          issues.push(`${prefix}.alt" must be a non-empty string when present`);
+        }
+      });
+    }
+  }
+
+  if (timelapse !== undefined) {
+    if (!isRecord(timelapse)) {
+      issues.push(`${label}: "process.timelapse" must be an object`);
+    } else {
+      if (!TIMELAPSE_TYPES.includes(timelapse['type'] as string)) {
+        issues.push(`${label}: "process.timelapse.type" must be one of ${TIMELAPSE_TYPES.join(', ')}`);
+      }
+      if (!isNonEmptyString(timelapse['src'])) {
+        issues.push(`${label}: "process.timelapse.src" must be a non-empty URL`);
+      }
+      if (timelapse['type'] === 'image' && !isNonEmptyString(timelapse['poster'])) {
+        issues.push(`${label}: "process.timelapse.poster" is required for animated images`);
+      } else if (timelapse['poster'] !== undefined && !isNonEmptyString(timelapse['poster'])) {
+        issues.push(`${label}: "process.timelapse.poster" must be a non-empty URL when present`);
+      }
+    }
+  }
+
+  if (notes !== undefined && !isNonEmptyString(notes)) {
+    issues.push(`${label}: "process.notes" must be a non-empty string when present`);
+  }
+  if (tools !== undefined && (!Array.isArray(tools) || !tools.every(isNonEmptyString))) {
+    issues.push(`${label}: "process.tools" must be an array of non-empty strings`);
+  }
+  if (canvas !== undefined && (!isRecord(canvas) || !isPositiveNumber(canvas['width']) || !isPositiveNumber(canvas['height']))) {
+    issues.push(`${label}: "process.canvas" must have positive "width" and "height"`);
+  }
+  if (hoursSpent !== undefined && !isPositiveNumber(hoursSpent)) {
+    issues.push(`${label}: "process.hoursSpent" must be a positive number`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an artwork's protection settings
+ * @param protection - Raw "protection" value
+ * @param label - Human readable position used as a prefix for issues
+ * @returns List of problems, empty when the settings are valid
+ */
+function validateProtection(protection: unknown, label: string): string[] {
+  const watermark = isRecord(protection) ? protection['watermark'] : undefined;
+  if (!isRecord(watermark)) {
+    return [`${label}: "protection.watermark" must be an object`];
+  }
+
+  const issues: string[] = [];
+  const { text, logo, opacity, position } = watermark;
+
+  if (!isNonEmptyString(text) && !isNonEmptyString(logo)) {
+    issues.push(`${label}: "protection.watermark" needs a "text" or "logo"`);
+  }
+  for (const [field, value] of Object.entries({ text, logo })) {
+    if (value !== undefined && !isNonEmptyString(value)) {
+      issues.push(`${label}: "protection.watermark.${field}" must be a non-empty string when present`);
+    }
+  }
+  if (opacity !== undefined && (typeof opacity !== 'number' || !(opacity > 0 && opacity <= 1))) {
+    issues.push(`${label}: "protection.watermark.opacity" must be a number above 0 and at most 1`);
+  }
+  if (position !== undefined && !WATERMARK_POSITIONS.includes(position as WatermarkPosition)) {
+    issues.push(`${label}: "protection.watermark.position" must be one of ${WATERMARK_POSITIONS.join(', ')}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate raw catalog JSON and narrow it to typed artworks
+ * @param raw - Parsed contents of catalog.json
+ * @returns The catalog artworks in file order
+ * @throws CatalogValidationError listing every malformed entry
+ */
+export function parseCatalog(raw: unknown): Artwork[] {
+  if (!isRecord(raw)) {
+    throw new CatalogValidationError(['catalog root must be an object']);
+  }
+  if (raw['version'] !== CATALOG_VERSION) {
+    throw new CatalogValidationError([
+      `unsupported catalog version ${JSON.stringify(raw['version'])} (expected ${CATALOG_VERSION})`
+    ]);
+  }
+  if (!Array.isArray(raw['artworks'])) {
+    throw new CatalogValidationError(['"artworks" must be an array']);
+  }
+
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+
+  raw['artworks'].forEach((entry, index) => {
+    const id = isRecord(entry) && typeof entry['id'] === 'string' ? entry['id'] : null;
+    const label = id ? `artworks[${index}] (${id})` : `artworks[${index}]`;
+
+    issues.push(...validateArtwork(entry, label));
+
+    if (id) {
+      if (seenIds.has(id)) {
+        issues.push(`${label}: duplicate id "${id}"`);
+      }
+      seenIds.add(id);
+    }
+  });
+
+  if (issues.length) {
+    throw new CatalogValidationError(issues);
+  }
+
+  return (raw as unknown as ArtworkCatalog).artworks;
+}
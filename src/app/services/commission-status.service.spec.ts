@@ -0,0 +1,29 @@
+import { ServiceStatus } from '../models/commission-status.model';
+import { normalizeReference, overallState, parseStatusBoard } from './commission-status.service';
+
+function status(serviceId: string, state: ServiceStatus['state'], slotsRemaining = 0): ServiceStatus {
+  return { serviceId, state, slotsRemaining, turnaroundWeeks: { min: 1, max: 2 } };
+}
+
+describe('commission status', () => {
+  it('should accept a valid status board', () => {
+    const board = { version: 1, updatedAt: '2025-09-01T00:00:00Z', services: [status('stickers', 'open', 3)] };
+    expect(parseStatusBoard(board)).toEqual(board);
+  });
+
+  it('should list malformed entries', () => {
+    const board = { version: 1, updatedAt: '', services: [{ ...status('stickers', 'open'), state: 'maybe' }] };
+    expect(() => parseStatusBoard(board)).toThrowError(/services\[0\] \(stickers\): "state"/);
+  });
+
+  it('should prefer open over waitlist over closed', () => {
+    expect(overallState([status('a', 'open', 2), status('b', 'open', 1), status('c', 'closed')]))
+      .toEqual({ state: 'open', slotsRemaining: 3 });
+    expect(overallState([status('a', 'waitlist'), status('b', 'closed')]).state).toBe('waitlist');
+    expect(overallState([status('a', 'closed')]).state).toBe('closed');
+  });
+
+  it('should normalize typed reference codes', () => {
+    expect(normalizeReference('  sa-7k2q9p ')).toBe('SA-7K2Q9P');
+  });
+});
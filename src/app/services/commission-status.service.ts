@@ -0,0 +1,92 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, shareReplay } from 'rxjs';
+import { environment } from '../../environments/environment';
+import {
+  CommissionState, CommissionStatusBoard, OrderStatus, ServiceStatus
+} from '../models/commission-status.model';
+import { COMMISSIONS_ENDPOINT } from './commission.service';
+
+/**
+ * Status file schema version this build understands
+ */
+export const STATUS_BOARD_VERSION = 1;
+
+const STATES: CommissionState[] = ['open', 'waitlist', 'closed'];
+
+/**
+ * Validate the raw status board and narrow it to typed entries
+ * @param raw - Parsed status JSON
+ * @throws Error listing every malformed entry
+ */
+export function parseStatusBoard(raw: unknown): CommissionStatusBoard {
+  const board = raw as Partial<CommissionStatusBoard> | null;
+  if (!board || board.version !== STATUS_BOARD_VERSION || !Array.isArray(board.services)) {
+    throw new Error(`Invalid commission status: expected version ${STATUS_BOARD_VERSION} with a "services" array`);
+  }
+
+  const issues = board.services.flatMap((entry: Partial<ServiceStatus>, index) => {
+    const label = `services[${index}]${entry?.serviceId ? ` (${entry.serviceId})` : ''}`;
+    const problems: string[] = [];
+    if (typeof entry?.serviceId !== 'string' || !entry.serviceId) problems.push(`${label}: missing "serviceId"`);
+    if (!STATES.includes(entry?.state as CommissionState)) problems.push(`${label}: "state" must be one of ${STATES.join(', ')}`);
+    if (!Number.isInteger(entry?.slotsRemaining) || entry.slotsRemaining! < 0) problems.push(`${label}: "slotsRemaining" must be a whole number`);
+    if (typeof entry?.turnaroundWeeks?.min !== 'number' || typeof entry.turnaroundWeeks.max !== 'number') {
+      problems.push(`${label}: "turnaroundWeeks" needs numeric "min" and "max"`);
+    }
+    return problems;
+  });
+
+  if (issues.length) {
+    throw new Error(`Invalid commission status:\n  - ${issues.join('\n  - ')}`);
+  }
+  return board as CommissionStatusBoard;
+}
+
+/**
+ * Overall availability across services, for the hero banner
+ * Open wins over waitlist, which wins over closed
+ * @param statuses - Per-service statuses
+ */
+export function overallState(statuses: ServiceStatus[]): { state: CommissionState; slotsRemaining: number } {
+  const open = statuses.filter(status => status.state === 'open');
+  if (open.length) {
+    return { state: 'open', slotsRemaining: open.reduce((sum, status) => sum + status.slotsRemaining, 0) };
+  }
+  return { state: statuses.some(status => status.state === 'waitlist') ? 'waitlist' : 'closed', slotsRemaining: 0 };
+}
+
+/**
+ * Normalize a reference code as typed by a client (" sa-7k2q9p " -> "SA-7K2Q9P")
+ * @param reference - Raw input
+ */
+export function normalizeReference(reference: string): string {
+  return reference.trim().toUpperCase();
+}
+
+/**
+ * Commission status service
+ * Reads per-service availability from environment.commissionStatusUrl
+ * and looks up individual orders by reference code
+ */
+@Injectable({ providedIn: 'root' })
+export class CommissionStatusService {
+  private http = inject(HttpClient);
+
+  /**
+   * Current status board, fetched once and shared
+   */
+  readonly board$: Observable<CommissionStatusBoard> = this.http.get<unknown>(environment.commissionStatusUrl).pipe(
+    map(parseStatusBoard),
+    shareReplay({ bufferSize: 1, refCount: false })
+  );
+
+  /**
+   * Look up an order's progress
+   * @param reference - Reference code from the commission confirmation
+   * @returns The order status; errors with a 404 HttpErrorResponse for unknown codes
+   */
+  lookupOrder(reference: string): Observable<OrderStatus> {
+    return this.http.get<OrderStatus>(`${COMMISSIONS_ENDPOINT}/${encodeURIComponent(normalizeReference(reference))}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { COMMISSIONS_ENDPOINT, CommissionService } from './commission.service';
+import { CommissionReceipt, CommissionRequest } from '../models/commission.model';
+import { mockBackendInterceptor } from '../mock-backend/mock-backend.interceptor';
+import { MOCK_LATENCY } from '../mock-backend/mock-responses';
+
+const request: CommissionRequest = {
+  serviceId: 'stickers',
+  packageId: 'emote-pack-5',
+  quantity: 2,
+  description: 'Two sets of frog emotes for my Twitch channel',
+  deadline: null,
+  email: 'client@example.com',
+  references: [new File(['frog'], 'frog.png', { type: 'image/png' })],
+  quote: null
+};
+
+describe('CommissionService', () => {
+  describe('against the API', () => {
+    let service: CommissionService;
+    let http: HttpTestingController;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({
+        providers: [provideHttpClient(), provideHttpClientTesting()]
+      });
+      service = TestBed.inject(CommissionService);
+      http = TestBed.inject(HttpTestingController);
+    });
+
+    afterEach(() => http.verify());
+
+    it('should post the request as multipart form data', () => {
+      service.submit(request).subscribe();
+
+      const req = http.expectOne(COMMISSIONS_ENDPOINT);
+      const body = req.request.body as FormData;
+      expect(req.request.method).toBe('POST');
+      expect(body.get('serviceId')).toBe('stickers');
+      expect(body.get('quantity')).toBe('2');
+      expect(body.has('deadline')).toBeFalse();
+      expect((body.get('references') as File).name).toBe('frog.png');
+      req.flush({ reference: 'SA-TEST01', receivedAt: '2025-01-01T00:00:00Z' });
+    });
+  });
+
+  describe('against the mock backend', () => {
+    let service: CommissionService;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({
+        providers: [provideHttpClient(withInterceptors([mockBackendInterceptor]))]
+      });
+      service = TestBed.inject(CommissionService);
+    });
+
+    it('should issue a reference code', fakeAsync(() => {
+      let receipt: CommissionReceipt | undefined;
+      service.submit(request).subscribe(result => receipt = result);
+      tick(MOCK_LATENCY);
+
+      expect(receipt?.reference).toMatch(/^SA-[A-Z0-9]{6}$/);
+    }));
+
+    it('should reject incomplete requests', fakeAsync(() => {
+      let status: number | undefined;
+      service.submit({ ...request, email: '' }).subscribe({ error: err => status = err.status });
+      tick(MOCK_LATENCY - 1);
+      expect(status).toBeUndefined();
+      tick(1);
+
+      expect(status).toBe(422);
+    }));
+  });
+});
@@ -0,0 +1,55 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { CommissionReceipt, CommissionRequest } from '../models/commission.model';
+
+/**
+ * Commission endpoint, relative to environment.apiUrl
+ */
+export const COMMISSIONS_ENDPOINT = `${environment.apiUrl}/commissions`;
+
+/**
+ * Commission service
+ * Submits commission requests to the API as multipart form data so
+ * reference images travel with the request
+ */
+@Injectable({ providedIn: 'root' })
+export class CommissionService {
+  private http = inject(HttpClient);
+
+  /**
+   * Submit a commission request
+   * @param request - Validated form values
+   * @returns The stored request's reference code
+   */
+  submit(request: CommissionRequest): Observable<CommissionReceipt> {
+    return this.http.post<CommissionReceipt>(COMMISSIONS_ENDPOINT, this.toFormData(request));
+  }
+
+  private toFormData(request: CommissionRequest): FormData {
+    const body = new FormData();
+    body.append('serviceId', request.serviceId);
+    body.append('packageId', request.packageId);
+    body.append('quantity', String(request.quantity));
+    body.append('description', request.description);
+    body.append('email', request.email);
+    if (request.deadline) {
+      body.append('deadline', request.deadline);
+    }
+    if (request.quote) {
+      for (const addOnId of request.quote.addOnIds) {
+        body.append('addOns', addOnId);
+      }
+      body.append('estimate', JSON.stringify({
+        min: request.quote.range.min,
+        max: request.quote.range.max,
+        currency: request.quote.currency
+      }));
+    }
+    for (const file of request.references) {
+      body.append('references', file, file.name);
+    }
+    return body;
+  }
+}
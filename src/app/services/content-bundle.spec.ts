@@ -0,0 +1,50 @@
+import { SERVICES } from '../data/services';
+import { CONTENT_BUNDLE_VERSION, ContentValidationError, parseContentBundle, validateService } from './content-bundle';
+
+const ARTWORK = {
+  id: 'anya',
+  title: 'Anya',
+  alt: 'Anya smiling',
+  description: 'Fan art of Anya',
+  tags: ['fan-art'],
+  createdAt: '2024-05-01',
+  dimensions: { width: 1200, height: 1600 },
+  sources: { full: 'Image/Anya.jpg' }
+};
+
+describe('content bundle', () => {
+  it('should accept the shipped services', () => {
+    SERVICES.forEach((service, index) => expect(validateService(service, `services[${index}]`)).toEqual([]));
+  });
+
+  it('should accept a valid bundle', () => {
+    const bundle = { version: CONTENT_BUNDLE_VERSION, exportedAt: '2025-09-01T00:00:00Z', artworks: [ARTWORK], services: SERVICES };
+    const parsed = parseContentBundle(bundle);
+    expect(parsed.artworks).toEqual([ARTWORK]);
+    expect(parsed.services.length).toBe(SERVICES.length);
+  });
+
+  it('should reject other versions', () => {
+    expect(() => parseContentBundle({ version: 99, artworks: [], services: [] }))
+      .toThrowError(ContentValidationError, /unsupported bundle version 99/);
+  });
+
+  it('should list artwork and service problems together', () => {
+    const broken = {
+      version: CONTENT_BUNDLE_VERSION,
+      artworks: [{ ...ARTWORK, title: '' }],
+      services: [{ ...SERVICES[0], packages: [] }, { ...SERVICES[0], addOns: [{ id: 'x', label: 'X', pricing: { kind: 'free' } }] }]
+    };
+
+    try {
+      parseContentBundle(broken);
+      fail('expected a ContentValidationError');
+    } catch (error) {
+      const issues = (error as ContentValidationError).issues;
+      expect(issues).toContain('artworks[0] (anya): "title" must be a non-empty string');
+      expect(issues).toContain('services[0] (stickers): "packages" must list at least one package');
+      expect(issues).toContain('services[1] (stickers): addOns[0] needs an "id", a "label" and flat or percent "pricing"');
+      expect(issues).toContain('services[1] (stickers): duplicate id "stickers"');
+    }
+  });
+});
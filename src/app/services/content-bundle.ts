@@ -0,0 +1,137 @@
+import { ContentBundle } from '../models/admin.model';
+import { ServiceOffering } from '../models/service.model';
+import { CATALOG_VERSION, CatalogValidationError, SLUG_PATTERN, parseCatalog } from './catalog';
+
+/**
+ * Content bundle schema version this build understands
+ */
+export const CONTENT_BUNDLE_VERSION = 1;
+
+/**
+ * Thrown when an imported or stored content bundle does not match the expected schema
+ * Carries every problem found so a broken file can be fixed in one pass
+ */
+export class ContentValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid content bundle:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPriceRange(value: unknown): boolean {
+  return isRecord(value) &&
+    typeof value['min'] === 'number' && typeof value['max'] === 'number' &&
+    value['min'] >= 0 && value['min'] <= value['max'];
+}
+
+/**
+ * Validate a single service
+ * @param entry - Raw service object
+ * @param label - Human readable position used as a prefix for issues
+ * @returns List of problems, empty when the service is valid
+ */
+export function validateService(entry: unknown, label: string): string[] {
+  if (!isRecord(entry)) {
+    return [`${label}: expected an object`];
+  }
+
+  const issues: string[] = [];
+  if (!isNonEmptyString(entry['id']) || !SLUG_PATTERN.test(entry['id'])) {
+    issues.push(`${label}: "id" must be a lowercase, dash-separated slug`);
+  }
+  for (const field of ['title', 'description', 'image', 'alt']) {
+    if (!isNonEmptyString(entry[field])) {
+      issues.push(`${label}: "${field}" must be a non-empty string`);
+    }
+  }
+  if (entry['hidden'] !== undefined && typeof entry['hidden'] !== 'boolean') {
+    issues.push(`${label}: "hidden" must be true or false when present`);
+  }
+
+  const packages = entry['packages'];
+  if (!Array.isArray(packages) || !packages.length) {
+    issues.push(`${label}: "packages" must list at least one package`);
+  } else {
+    packages.forEach((pkg, index) => {
+      if (!isRecord(pkg) || !isNonEmptyString(pkg['id']) || !isNonEmptyString(pkg['label']) || !isPriceRange(pkg['price'])) {
+        issues.push(`${label}: packages[${index}] needs an "id", a "label" and a "price" with 0 <= min <= max`);
+      }
+    });
+  }
+
+  const addOns = entry['addOns'];
+  if (!Array.isArray(addOns)) {
+    issues.push(`${label}: "addOns" must be an array`);
+  } else {
+    addOns.forEach((addOn, index) => {
+      const pricing = isRecord(addOn) ? addOn['pricing'] : null;
+      const validPricing = isRecord(pricing) && (
+        (pricing['kind'] === 'flat' && isPriceRange(pricing['price']) && typeof pricing['perUnit'] === 'boolean') ||
+        (pricing['kind'] === 'percent' && typeof pricing['percent'] === 'number' && pricing['percent'] > 0)
+      );
+      if (!isRecord(addOn) || !isNonEmptyString(addOn['id']) || !isNonEmptyString(addOn['label']) || !validPricing) {
+        issues.push(`${label}: addOns[${index}] needs an "id", a "label" and flat or percent "pricing"`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a content bundle and narrow it to typed content
+ * Artworks are checked with the same rules as public/catalog.json
+ * @param raw - Parsed bundle JSON
+ * @throws ContentValidationError listing every problem
+ */
+export function parseContentBundle(raw: unknown): ContentBundle {
+  if (!isRecord(raw)) {
+    throw new ContentValidationError(['bundle root must be an object']);
+  }
+  if (raw['version'] !== CONTENT_BUNDLE_VERSION) {
+    throw new ContentValidationError([
+      `unsupported bundle version ${JSON.stringify(raw['version'])} (expected ${CONTENT_BUNDLE_VERSION})`
+    ]);
+  }
+
+  const issues: string[] = [];
+  try {
+    parseCatalog({ version: CATALOG_VERSION, artworks: raw['artworks'] });
+  } catch (error) {
+    if (!(error instanceof CatalogValidationError)) throw error;
+    issues.push(...error.issues);
+  }
+
+  if (!Array.isArray(raw['services'])) {
+    issues.push('"services" must be an array');
+  } else {
+    const seenIds = new Set<string>();
+    raw['services'].forEach((entry, index) => {
+      const id = isRecord(entry) && typeof entry['id'] === 'string' ? entry['id'] : null;
+      const label = id ? `services[${index}] (${id})` : `services[${index}]`;
+      issues.push(...validateService(entry, label));
+      if (id && seenIds.has(id)) {
+        issues.push(`${label}: duplicate id "${id}"`);
+      }
+      if (id) seenIds.add(id);
+    });
+  }
+
+  if (issues.length) {
+    throw new ContentValidationError(issues);
+  }
+
+  return {
+    version: CONTENT_BUNDLE_VERSION,
+    artworks: raw['artworks'] as ContentBundle['artworks'],
+    services: raw['services'] as ServiceOffering[]
+  };
+}
@@ -0,0 +1,62 @@
+import { convertToParamMap } from '@angular/router';
+import { Artwork } from '../models/artwork.model';
+import {
+  DEFAULT_GALLERY_FILTER, collectTags, filterArtworks, filterFromQueryParams, filterToQueryParams, formatTag,
+  relatedArtworks
+} from './gallery-filter';
+
+function artwork(id: string, title: string, createdAt: string, tags: string[], description = ''): Artwork {
+  return {
+    id, title, createdAt, tags, description,
+    alt: title,
+    dimensions: { width: 100, height: 100 },
+    sources: { full: `${id}.jpg` }
+  };
+}
+
+describe('gallery filter', () => {
+  const artworks = [
+    artwork('spooky-store', 'Spooky Store', '2024-10-28', ['seasonal'], 'Ghost Kid Shopping'),
+    artwork('anya', 'Anya', '2025-03-14', ['fan-art', 'game-art']),
+    artwork('hide-and-seek', 'Hide and Seek', '2024-10-12', ['seasonal'], 'Playing with Ghosts')
+  ];
+
+  it('should collect unique sorted tags', () => {
+    expect(collectTags(artworks)).toEqual(['fan-art', 'game-art', 'seasonal']);
+  });
+
+  it('should format tag labels', () => {
+    expect(formatTag('fan-art')).toBe('Fan Art');
+  });
+
+  it('should keep catalog order for the default filter', () => {
+    expect(filterArtworks(artworks, DEFAULT_GALLERY_FILTER)).toEqual(artworks);
+  });
+
+  it('should combine tag, search and sort', () => {
+    const result = filterArtworks(artworks, { tag: 'seasonal', query: 'GHOST', sort: 'oldest' });
+    expect(result.map(a => a.id)).toEqual(['hide-and-seek', 'spooky-store']);
+  });
+
+  it('should suggest related artworks by shared tags, then newest', () => {
+    const pieces = [
+      ...artworks,
+      artwork('tosh-background', 'Tosh Background', '2025-01-20', ['game-art', 'seasonal']),
+      artwork('city-rain-walk', 'City Rain Walk', '2025-05-02', ['backgrounds'])
+    ];
+    const spookyStore = pieces[0];
+    expect(relatedArtworks(pieces, spookyStore).map(a => a.id)).toEqual(['tosh-background', 'hide-and-seek']);
+    expect(relatedArtworks(pieces, pieces[1], 1).map(a => a.id)).toEqual(['tosh-background']);
+  });
+
+  it('should round-trip through query params', () => {
+    const filter = { tag: 'seasonal', query: 'ghost', sort: 'title' as const };
+    const params = filterToQueryParams(filter);
+    expect(filterFromQueryParams(convertToParamMap(params))).toEqual(filter);
+  });
+
+  it('should drop defaults and ignore unknown sorts', () => {
+    expect(filterToQueryParams(DEFAULT_GALLERY_FILTER)).toEqual({ tag: null, q: null, sort: null });
+    expect(filterFromQueryParams(convertToParamMap({ sort: 'random' }))).toEqual(DEFAULT_GALLERY_FILTER);
+  });
+});
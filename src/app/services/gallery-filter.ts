@@ -0,0 +1,114 @@
+import { ParamMap, Params } from '@angular/router';
+import { Artwork, GalleryFilter, GallerySort } from '../models/artwork.model';
+import { MessageKey } from '../i18n/messages.en';
+
+/**
+ * Filter used when no query params are present
+ */
+export const DEFAULT_GALLERY_FILTER: GalleryFilter = { tag: null, query: '', sort: 'featured' };
+
+/**
+ * Sort options offered in the gallery toolbar, in display order
+ */
+export const GALLERY_SORT_OPTIONS: { value: GallerySort; labelKey: MessageKey }[] = [
+  { value: 'featured', labelKey: 'gallery.sort.featured' },
+  { value: 'newest', labelKey: 'gallery.sort.newest' },
+  { value: 'oldest', labelKey: 'gallery.sort.oldest' },
+  { value: 'title', labelKey: 'gallery.sort.title' }
+];
+
+/**
+ * Collect the unique tags used across the catalog, alphabetically
+ * @param artworks - All catalog artworks
+ */
+export function collectTags(artworks: Artwork[]): string[] {
+  return [...new Set(artworks.flatMap(artwork => artwork.tags))].sort();
+}
+
+/**
+ * Turn a tag slug into a chip label ("fan-art" -> "Fan Art")
+ * Fallback for tags without a gallery.tag.* message
+ * @param tag - Tag slug from the catalog
+ */
+export function formatTag(tag: string): string {
+  return tag
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Apply tag, free-text search and sort to the catalog
+ * Search is case-insensitive over title and description
+ * @param artworks - All catalog artworks in catalog order
+ * @param filter - Active filter state
+ * @returns A new array; the input is not modified
+ */
+export function filterArtworks(artworks: Artwork[], filter: GalleryFilter): Artwork[] {
+  const query = filter.query.trim().toLowerCase();
+
+  const matches = artworks.filter(artwork =>
+    (!filter.tag || artwork.tags.includes(filter.tag)) &&
+    (!query ||
+      artwork.title.toLowerCase().includes(query) ||
+      artwork.description.toLowerCase().includes(query))
+  );
+
+  switch (filter.sort) {
+    case 'newest':
+      return matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    case 'oldest':
+      return matches.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    case 'title':
+      return matches.sort((a, b) => a.title.localeCompare(b.title));
+    default:
+      return matches;
+  }
+}
+
+/**
+ * Suggest artworks that share tags with another
+ * Most shared tags first, then newest; pieces with no tag in common are left out
+ * @param artworks - All catalog artworks
+ * @param artwork - Artwork to find relatives of; never included in the result
+ * @param limit - Most suggestions to return
+ */
+export function relatedArtworks(artworks: Artwork[], artwork: Artwork, limit = 4): Artwork[] {
+  const tags = new Set(artwork.tags);
+  return artworks
+    .filter(other => other.id !== artwork.id)
+    .map(other => ({ other, shared: other.tags.filter(tag => tags.has(tag)).length }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || b.other.createdAt.localeCompare(a.other.createdAt))
+    .slice(0, limit)
+    .map(({ other }) => other);
+}
+
+/**
+ * Read filter state from the URL query params
+ * Unknown sort values fall back to the default
+ * @param params - Query param map of the current route
+ */
+export function filterFromQueryParams(params: ParamMap): GalleryFilter {
+  const sort = params.get('sort');
+  return {
+    tag: params.get('tag') || null,
+    query: params.get('q') ?? '',
+    sort: GALLERY_SORT_OPTIONS.some(option => option.value === sort)
+      ? (sort as GallerySort)
+      : DEFAULT_GALLERY_FILTER.sort
+  };
+}
+
+/**
+ * Convert filter state to query params for merging into the URL
+ * Default values map to null so they are dropped from the URL
+ * @param filter - Filter state to serialize
+ */
+export function filterToQueryParams(filter: GalleryFilter): Params {
+  return {
+    tag: filter.tag || null,
+    q: filter.query || null,
+    sort: filter.sort === DEFAULT_GALLERY_FILTER.sort ? null : filter.sort
+  };
+}
@@ -0,0 +1,68 @@
+import { Injectable, OnDestroy, PLATFORM_ID, inject } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+
+/**
+ * Live announcer service
+ * Reads short messages to screen readers through a single, visually hidden
+ * aria-live region appended to the document body
+ */
+@Injectable({ providedIn: 'root' })
+export class LiveAnnouncerService implements OnDestroy {
+  private document = inject(DOCUMENT);
+  private platformId = inject(PLATFORM_ID);
+  private region: HTMLElement | null = null;
+  private pending: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Announce a message to assistive technology
+   * @param message - Text to read out
+   * @param politeness - 'assertive' interrupts the current speech, 'polite' waits
+   */
+  announce(message: string, politeness: 'polite' | 'assertive' = 'polite'): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+
+    const region = this.getRegion();
+    region.setAttribute('aria-live', politeness);
+
+    // clear first so repeating the same message is still announced
+    region.textContent = '';
+    if (this.pending) {
+      clearTimeout(this.pending);
+    }
+    this.pending = setTimeout(() => {
+      region.textContent = message;
+      this.pending = null;
+    }, 100);
+  }
+
+  ngOnDestroy(): void {
+    if (this.pending) {
+      clearTimeout(this.pending);
+    }
+    this.region?.remove();
+    this.region = null;
+  }
+
+  private getRegion(): HTMLElement {
+    if (!this.region) {
+      const region = this.document.createElement('div');
+      region.setAttribute('role', 'status');
+      region.setAttribute('aria-atomic', 'true');
+      // visually hidden but still read by screen readers
+      Object.assign(region.style, {
+        position: 'absolute',
+        width: '1px',
+        height: '1px',
+        margin: '-1px',
+        padding: '0',
+        overflow: 'hidden',
+        clip: 'rect(0 0 0 0)',
+        whiteSpace: 'nowrap',
+        border: '0'
+      });
+      this.document.body.appendChild(region);
+      this.region = region;
+    }
+    return this.region;
+  }
+}
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import { matchLocale } from '../i18n/locales';
+import { LOCALE_STORAGE_KEY, LocaleService, interpolate } from './locale.service';
+
+describe('interpolate', () => {
+  it('should fill known placeholders and keep unknown ones', () => {
+    expect(interpolate('{title}, image {index} of {total}', { title: 'Anya', index: 2 }))
+      .toBe('Anya, image 2 of {total}');
+  });
+});
+
+describe('matchLocale', () => {
+  it('should pick the first supported language, ignoring regions', () => {
+    expect(matchLocale(['fr-FR', 'es-MX', 'en'])).toBe('es');
+    expect(matchLocale(['de', 'ja'])).toBeNull();
+  });
+});
+
+describe('LocaleService', () => {
+  function createService(): LocaleService {
+    return TestBed.inject(LocaleService);
+  }
+
+  beforeEach(() => localStorage.removeItem(LOCALE_STORAGE_KEY));
+
+  afterEach(() => localStorage.removeItem(LOCALE_STORAGE_KEY));
+
+  it('should start from the stored language', () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'es');
+    expect(createService().locale()).toBe('es');
+  });
+
+  it('should translate and persist the chosen language', () => {
+    const service = createService();
+    service.setLocale('es');
+    expect(service.translate('nav.gallery')).toBe('Galería');
+    expect(service.intlLocale()).toBe('es-ES');
+    expect(localStorage.getItem(LOCALE_STORAGE_KEY)).toBe('es');
+  });
+
+  it('should select plural forms by count', () => {
+    const service = createService();
+    service.setLocale('en');
+    expect(service.translate('gallery.filters.count', { count: 1 })).toBe('1 artwork');
+    expect(service.translate('gallery.filters.count', { count: 4 })).toBe('4 artworks');
+  });
+
+  it('should return null when looking up a missing key', () => {
+    const service = createService();
+    expect(service.lookup('gallery.tag.unknown')).toBeNull();
+  });
+});
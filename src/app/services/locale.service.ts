@@ -0,0 +1,131 @@
+import { Injectable, PLATFORM_ID, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import {
+  DEFAULT_LOCALE, LocaleCode, SUPPORTED_LOCALES, isLocaleCode, matchLocale
+} from '../i18n/locales';
+import { MESSAGES_EN, MessageKey, Messages, PluralMessageKey } from '../i18n/messages.en';
+import { MESSAGES_ES } from '../i18n/messages.es';
+
+/**
+ * localStorage key for the visitor's language
+ */
+export const LOCALE_STORAGE_KEY = 'sebbyashan.locale';
+
+/**
+ * Values substituted into {name} placeholders
+ */
+export type MessageParams = Record<string, string | number>;
+
+const MESSAGES: Record<LocaleCode, Messages> = {
+  en: MESSAGES_EN,
+  es: MESSAGES_ES
+};
+
+/**
+ * Fill {name} placeholders; unknown placeholders are left as written
+ * @param template - Message with placeholders
+ * @param params - Values by placeholder name
+ */
+export function interpolate(template: string, params?: MessageParams): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Locale service
+ * Holds the site language (stored choice, then the browser's languages, then English),
+ * translates UI messages and formats dates for it
+ * Prerendering always uses the default language; the stored choice applies once the app boots
+ */
+@Injectable({ providedIn: 'root' })
+export class LocaleService {
+  private document = inject(DOCUMENT);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private current = signal<LocaleCode>(DEFAULT_LOCALE);
+
+  /** Languages offered in the switcher */
+  readonly locales = SUPPORTED_LOCALES;
+
+  /** Active language */
+  readonly locale = this.current.asReadonly();
+
+  /** BCP 47 tag of the active language, for Intl formatting */
+  readonly intlLocale = computed(() => SUPPORTED_LOCALES.find(locale => locale.code === this.current())!.intl);
+
+  private pluralRules = computed(() => new Intl.PluralRules(this.intlLocale()));
+
+  constructor() {
+    if (!this.isBrowser) return;
+
+    const stored = this.readStorage();
+    const initial = isLocaleCode(stored) ? stored : matchLocale(this.document.defaultView?.navigator.languages ?? []);
+    if (initial) {
+      this.current.set(initial);
+    }
+
+    effect(() => {
+      this.document.documentElement.lang = this.current();
+    });
+  }
+
+  /**
+   * Switch language and remember it for later visits
+   * @param locale - Language to use
+   */
+  setLocale(locale: LocaleCode): void {
+    this.current.set(locale);
+    this.writeStorage(locale);
+  }
+
+  /**
+   * Translate a UI message
+   * Plural messages are chosen by the "count" param using the language's plural rules
+   * @param key - Message key, or the base key of a plural message
+   * @param params - Placeholder values
+   */
+  translate(key: MessageKey | PluralMessageKey, params?: MessageParams): string {
+    const messages = MESSAGES[this.current()] as Record<string, string>;
+    let template = messages[key];
+    if (template === undefined && typeof params?.['count'] === 'number') {
+      const rule = this.pluralRules().select(params['count']);
+      template = messages[`${key}.${rule}`] ?? messages[`${key}.other`];
+    }
+    return interpolate(template ?? key, params);
+  }
+
+  /**
+   * Translate a message whose key is built at runtime (e.g. from a catalog tag)
+   * @param key - Candidate message key
+   * @returns The message, or null when the key doesn't exist
+   */
+  lookup(key: string): string | null {
+    return (MESSAGES[this.current()] as Record<string, string>)[key] ?? null;
+  }
+
+  /**
+   * Format a date for the active language
+   * @param value - Date or ISO 8601 string
+   * @param options - Intl options; defaults to a medium date ("Mar 14, 2025", "14 mar 2025")
+   */
+  formatDate(value: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+    return new Intl.DateTimeFormat(this.intlLocale(), options).format(typeof value === 'string' ? new Date(value) : value);
+  }
+
+  private readStorage(): string | null {
+    try {
+      return this.document.defaultView?.localStorage.getItem(LOCALE_STORAGE_KEY) ?? null;
+    } catch {
+      // storage can be disabled (private mode, blocked cookies); fall back to the browser languages
+      return null;
+    }
+  }
+
+  private writeStorage(locale: LocaleCode): void {
+    try {
+      this.document.defaultView?.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch {
+      // not persisting is fine; the choice still applies for this visit
+    }
+  }
+}
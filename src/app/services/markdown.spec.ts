@@ -0,0 +1,25 @@
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('should split paragraphs and bullet lists', () => {
+    expect(renderMarkdown('Hello\nthere\n\n- one\n- two\n\nBye'))
+      .toBe('<p>Hello there</p><ul><li>one</li><li>two</li></ul><p>Bye</p>');
+  });
+
+  it('should format emphasis, code and links', () => {
+    expect(renderMarkdown('**bold**, *italic*, _also_ and `a*b*c`'))
+      .toBe('<p><strong>bold</strong>, <em>italic</em>, <em>also</em> and <code>a*b*c</code></p>');
+    expect(renderMarkdown('[VGen](https://vgen.co/sebbyashan) or [form](/#commission)'))
+      .toBe('<p><a href="https://vgen.co/sebbyashan" target="_blank" rel="noopener noreferrer">VGen</a>' +
+        ' or <a href="/#commission">form</a></p>');
+  });
+
+  it('should leave snake_case words alone', () => {
+    expect(renderMarkdown('my_file_name')).toBe('<p>my_file_name</p>');
+  });
+
+  it('should escape HTML and drop unsafe link targets', () => {
+    expect(renderMarkdown('<img src=x onerror=alert(1)>')).toBe('<p>&lt;img src=x onerror=alert(1)&gt;</p>');
+    expect(renderMarkdown('[click](javascript:alert)')).toBe('<p>click</p>');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Markdown subset for short bios: paragraphs, "-" or "*" bullet lists, **bold**, *italic*,
+ * `code` and [links](https://example.com)
+ * HTML in the source is escaped, and links only keep http(s), mailto and site-relative URLs
+ */
+
+const LIST_ITEM = /^[-*]\s+/;
+const SAFE_URL = /^(https?:\/\/|mailto:|\/(?!\/))/i;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderLink(label: string, url: string): string {
+  // the url was escaped along with the rest of the line, so test it unescaped
+  const raw = url.replace(/&amp;/g, '&');
+  if (!SAFE_URL.test(raw)) return label;
+
+  const external = /^https?:/i.test(raw) ? ' target="_blank" rel="noopener noreferrer"' : '';
+  return `<a href="${url}"${external}>${label}</a>`;
+}
+
+function renderInline(text: string): string {
+  // code spans are set aside first so their contents aren't formatted
+  const code: string[] = [];
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_match, content: string) => `\u0000${code.push(content) - 1}\u0000`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_match, label: string, url: string) => renderLink(label, url))
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*\w])[*_](?!\s)(.+?)(?<!\s)[*_](?![*\w])/g, '$1<em>$2</em>')
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => `<code>${code[Number(index)]}</code>`);
+}
+
+/**
+ * Render Markdown to HTML for [innerHTML]
+ * @param source - Markdown text; blocks are separated by blank lines
+ */
+export function renderMarkdown(source: string): string {
+  return source
+    .trim()
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').map(line => line.trim()).filter(Boolean))
+    .filter(lines => lines.length)
+    .map(lines => lines.every(line => LIST_ITEM.test(line))
+      ? `<ul>${lines.map(line => `<li>${renderInline(line.replace(LIST_ITEM, ''))}</li>`).join('')}</ul>`
+      : `<p>${renderInline(lines.join(' '))}</p>`)
+    .join('');
+}
@@ -0,0 +1,28 @@
+import { masonryColumnWidth, masonryColumns, masonryHeight, masonryLayout, placementBounds } from './masonry-layout';
+
+describe('masonry layout', () => {
+  it('should pick fewer columns on narrow screens', () => {
+    expect(masonryColumns(1160)).toBe(3);
+    expect(masonryColumns(700)).toBe(2);
+    expect(masonryColumns(340)).toBe(1);
+  });
+
+  it('should split the width between columns and gaps', () => {
+    expect(masonryColumnWidth(1000, 3, 20)).toBe(320);
+  });
+
+  it('should fill the shortest column, leftmost on ties', () => {
+    // portrait, landscape, square, landscape
+    const layout = masonryLayout([1.5, 0.5, 1, 0.5], 2, 100, 10);
+    expect(layout.placements.map(p => p.column)).toEqual([0, 1, 1, 0]);
+    expect(layout.placements[2]).toEqual({ column: 1, row: 1, offset: 0.5, ratio: 1 });
+    expect(layout.columnHeights).toEqual([{ units: 2, rows: 2 }, { units: 1.5, rows: 2 }]);
+  });
+
+  it('should measure tiles and the tallest column in px', () => {
+    const layout = masonryLayout([1.5, 0.5, 1], 2, 100, 10);
+    expect(placementBounds(layout.placements[2], 100, 10)).toEqual({ top: 60, bottom: 160 });
+    expect(masonryHeight(layout, 100, 10)).toBe(160);
+    expect(masonryHeight(masonryLayout([], 3, 100, 10), 100, 10)).toBe(0);
+  });
+});
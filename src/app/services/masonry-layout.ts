@@ -0,0 +1,104 @@
+/**
+ * Space between masonry tiles, in px
+ */
+export const MASONRY_GAP = 24;
+
+/**
+ * Where a tile sits in the masonry
+ * Vertical positions are kept in column widths so CSS can place tiles at any container width
+ */
+export interface MasonryPlacement {
+  column: number;
+  /** Tiles above this one in its column */
+  row: number;
+  /** Summed heights of the tiles above, in column widths */
+  offset: number;
+  /** Tile height in column widths (height / width of the artwork) */
+  ratio: number;
+}
+
+/**
+ * Height of one column: its tiles' summed heights in column widths, and how many tiles it holds
+ */
+export interface MasonryColumnHeight {
+  units: number;
+  rows: number;
+}
+
+/**
+ * Tiles placed into columns, in the order they were given
+ */
+export interface MasonryLayout {
+  columns: number;
+  placements: MasonryPlacement[];
+  columnHeights: MasonryColumnHeight[];
+}
+
+/**
+ * Number of columns for a container width
+ * @param width - Inner width of the gallery in px
+ */
+export function masonryColumns(width: number): number {
+  return width >= 960 ? 3 : width >= 560 ? 2 : 1;
+}
+
+/**
+ * Width of each column
+ * @param width - Inner width of the gallery in px
+ * @param columns - Column count
+ * @param gap - Space between tiles in px
+ */
+export function masonryColumnWidth(width: number, columns: number, gap = MASONRY_GAP): number {
+  return (width - gap * (columns - 1)) / columns;
+}
+
+/**
+ * Place tiles one by one into the currently shortest column (leftmost on ties)
+ * @param ratios - Height / width of each tile, in display order
+ * @param columns - Column count
+ * @param columnWidth - Column width in px, used to weigh tile heights against gaps
+ * @param gap - Space between tiles in px
+ */
+export function masonryLayout(ratios: number[], columns: number, columnWidth: number, gap = MASONRY_GAP): MasonryLayout {
+  const columnHeights: MasonryColumnHeight[] = Array.from({ length: columns }, () => ({ units: 0, rows: 0 }));
+  const nextTop = (height: MasonryColumnHeight) => height.units * columnWidth + height.rows * gap;
+
+  const placements = ratios.map(ratio => {
+    let column = 0;
+    for (let candidate = 1; candidate < columns; candidate++) {
+      // half a pixel of slack keeps rounding from breaking ties to the right
+      if (nextTop(columnHeights[candidate]) < nextTop(columnHeights[column]) - 0.5) {
+        column = candidate;
+      }
+    }
+
+    const height = columnHeights[column];
+    const placement: MasonryPlacement = { column, row: height.rows, offset: height.units, ratio };
+    height.units += ratio;
+    height.rows += 1;
+    return placement;
+  });
+
+  return { columns, placements, columnHeights };
+}
+
+/**
+ * Top and bottom edges of a tile in px from the top of the gallery
+ * @param placement - Tile from masonryLayout
+ * @param columnWidth - Column width in px
+ * @param gap - Space between tiles in px
+ */
+export function placementBounds(placement: MasonryPlacement, columnWidth: number, gap = MASONRY_GAP): { top: number; bottom: number } {
+  const top = placement.offset * columnWidth + placement.row * gap;
+  return { top, bottom: top + placement.ratio * columnWidth };
+}
+
+/**
+ * Height of the tallest column in px
+ * @param layout - Result of masonryLayout
+ * @param columnWidth - Column width in px
+ * @param gap - Space between tiles in px
+ */
+export function masonryHeight(layout: MasonryLayout, columnWidth: number, gap = MASONRY_GAP): number {
+  return Math.max(0, ...layout.columnHeights.map(height => height.units * columnWidth + Math.max(height.rows - 1, 0) * gap));
+}
@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { DOCUMENT } from '@angular/common';
+import { Meta, Title } from '@angular/platform-browser';
+import { environment } from '../../environments/environment';
+import { Artwork } from '../models/artwork.model';
+import { PROFILE } from '../data/profile';
+import { MetadataService, SITE_NAME, absoluteUrl, artworkJsonLd, artworkShareImage, personJsonLd } from './metadata.service';
+import { toResponsiveImage } from './responsive-image.service';
+
+const ARTWORK: Artwork = {
+  id: 'anya',
+  title: 'Anya',
+  alt: 'Anya smiling',
+  description: 'Fan art of Anya </script> with a grin',
+  tags: ['fan-art'],
+  createdAt: '2024-05-01',
+  dimensions: { width: 1200, height: 1600 },
+  sources: { full: 'https://i.imgur.com/anya.jpg' }
+};
+
+describe('MetadataService', () => {
+  let service: MetadataService;
+  let document: Document;
+  let meta: Meta;
+
+  const structuredData = () => JSON.parse(document.getElementById('structured-data')!.textContent!);
+
+  beforeEach(() => {
+    service = TestBed.inject(MetadataService);
+    document = TestBed.inject(DOCUMENT);
+    meta = TestBed.inject(Meta);
+  });
+
+  afterEach(() => {
+    document.getElementById('structured-data')?.remove();
+    document.head.querySelector('link[rel="canonical"]')?.remove();
+  });
+
+  it('should resolve paths against the site origin', () => {
+    expect(absoluteUrl('/gallery/anya')).toBe(`${environment.siteUrl}/gallery/anya`);
+    expect(absoluteUrl('Image/Anya.jpg')).toBe(`${environment.siteUrl}/Image/Anya.jpg`);
+    expect(absoluteUrl('https://i.imgur.com/x.jpg')).toBe('https://i.imgur.com/x.jpg');
+  });
+
+  it('should describe an artwork deep link with its own share card', () => {
+    service.setArtwork(PROFILE, ARTWORK);
+
+    expect(TestBed.inject(Title).getTitle()).toBe(`Anya | ${SITE_NAME}`);
+    expect(meta.getTag('name="description"')?.content).toBe(ARTWORK.description);
+    expect(meta.getTag('property="og:image"')?.content).toBe('https://i.imgur.com/anya.jpg');
+    expect(meta.getTag('property="og:image:width"')?.content).toBe('1200');
+    expect(meta.getTag('name="twitter:card"')?.content).toBe('summary_large_image');
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href'))
+      .toBe(`${environment.siteUrl}/gallery/anya`);
+
+    const graph = structuredData()['@graph'];
+    expect(graph.map((item: { '@type': string }) => item['@type'])).toEqual(['VisualArtwork', 'Person']);
+  });
+
+  it('should share a capped preview of local artworks that are not downloadable', () => {
+    const local: Artwork = { ...ARTWORK, sources: { full: 'Image/Anya.jpg' }, dimensions: { width: 3000, height: 4000 } };
+    const images = new Map([[
+      'Image/Anya.jpg',
+      toResponsiveImage('Image/Anya.jpg', { width: 3000, height: 4000, widths: [640, 1600, 3000], formats: ['avif', 'webp'], placeholder: '' })
+    ]]);
+
+    service.setArtwork(PROFILE, local, images);
+    expect(meta.getTag('property="og:image"')?.content).toBe(absoluteUrl('responsive/Image/Anya.jpg/1600.webp'));
+    expect(meta.getTag('name="twitter:image"')?.content).toBe(absoluteUrl('responsive/Image/Anya.jpg/1600.webp'));
+    expect(meta.getTag('property="og:image:height"')?.content).toBe('2133');
+    expect(structuredData()['@graph'][0].image).toBe(absoluteUrl('responsive/Image/Anya.jpg/1600.webp'));
+
+    expect(artworkShareImage({ ...local, downloadable: true }, images).url).toBe('responsive/Image/Anya.jpg/3000.webp');
+  });
+
+  it('should fall back to the default card and drop stale image sizes on the home page', () => {
+    service.setArtwork(PROFILE, ARTWORK);
+    service.setHome(PROFILE, [ARTWORK]);
+
+    expect(meta.getTag('property="og:url"')?.content).toBe(`${environment.siteUrl}/`);
+    expect(meta.getTag('property="og:image:width"')).toBeNull();
+    expect(document.querySelectorAll('link[rel="canonical"]').length).toBe(1);
+    expect(structuredData()['@graph'][0]['@type']).toBe('Person');
+  });
+
+  it('should keep descriptions from closing the JSON-LD script', () => {
+    service.setArtwork(PROFILE, ARTWORK);
+    const script = document.getElementById('structured-data')!;
+    expect(script.textContent).not.toContain('</script>');
+    expect(structuredData()['@graph'][0].description).toBe(ARTWORK.description);
+  });
+
+  it('should credit the artist as creator', () => {
+    const json = artworkJsonLd(ARTWORK) as Record<string, unknown>;
+    expect(json['creator']).toEqual({ '@id': `${environment.siteUrl}/#person` });
+    expect(json['dateCreated']).toBe('2024-05-01');
+  });
+
+  it('should describe the artist from the profile data', () => {
+    const json = personJsonLd(PROFILE) as Record<string, unknown>;
+    expect(json['sameAs']).toEqual(PROFILE.links.map(link => link.url));
+    expect(json['knowsAbout']).toContain('Character design');
+    expect(json['image']).toBe(absoluteUrl(PROFILE.avatar.src));
+  });
+});
@@ -0,0 +1,237 @@
+import { Injectable, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { Meta, Title } from '@angular/platform-browser';
+import { environment } from '../../environments/environment';
+import { Artwork } from '../models/artwork.model';
+import { Profile } from '../models/profile.model';
+import { ResponsiveImage } from '../models/responsive-image.model';
+import { GALLERY_PATH } from '../app.routes';
+import { modalVariantWidth } from './artwork-protection';
+import { variantUrl } from './responsive-image.service';
+
+/**
+ * Site name used as the title suffix and og:site_name
+ */
+export const SITE_NAME = 'SebbyAshan';
+
+/**
+ * Share card image for pages without an artwork (the hero background)
+ */
+export const DEFAULT_SHARE_IMAGE = 'Image/BGFB-1.jpg';
+
+/**
+ * Everything the head needs for one view
+ */
+export interface PageMetadata {
+  /** Page title without the site suffix */
+  title: string;
+  description: string;
+  /** Site-relative path of the canonical URL, e.g. "/gallery/anya" */
+  path: string;
+  image?: {
+    url: string;
+    alt: string;
+    width?: number;
+    height?: number;
+  };
+  type?: 'website' | 'article';
+  /** schema.org objects emitted as a single JSON-LD script */
+  structuredData?: object[];
+}
+
+/**
+ * Resolve a site-relative path or URL against the public origin
+ * @param pathOrUrl - "/gallery/anya", "Image/Anya.jpg" or an absolute URL
+ */
+export function absoluteUrl(pathOrUrl: string): string {
+  return new URL(pathOrUrl, `${environment.siteUrl}/`).toString();
+}
+
+/**
+ * Canonical path of an artwork's deep link
+ */
+export function artworkPath(artwork: Artwork): string {
+  return `/${GALLERY_PATH}/${artwork.id}`;
+}
+
+/**
+ * Image published for an artwork in share cards and structured data
+ * Uses the same variant as the modal (see modalVariantWidth), so pieces that aren't
+ * downloadable never point crawlers at the original file
+ * Sources without generated variants (remote URLs, or no manifest yet) are used as they are
+ * @param artwork - Catalog entry
+ * @param images - Generated variants keyed by source path
+ */
+export function artworkShareImage(
+  artwork: Artwork, images: Map<string, ResponsiveImage>
+): { url: string; width: number; height: number } {
+  const responsive = images.get(artwork.sources.full);
+  if (!responsive) {
+    return { url: artwork.sources.full, ...artwork.dimensions };
+  }
+  const width = modalVariantWidth(artwork, responsive.widths);
+  return {
+    url: variantUrl(artwork.sources.full, width, 'webp'),
+    width,
+    height: Math.round((width * responsive.height) / responsive.width)
+  };
+}
+
+/**
+ * schema.org Person for the artist
+ * @param profile - Profile data (see data/profile.ts)
+ */
+export function personJsonLd(profile: Profile): object {
+  const sameAs = profile.links.map(link => link.url);
+  const knowsAbout = profile.skills.flatMap(group => group.items);
+  return {
+    '@type': 'Person',
+    '@id': absoluteUrl('/#person'),
+    name: profile.name,
+    alternateName: profile.alternateName,
+    jobTitle: profile.jobTitle,
+    description: profile.summary,
+    url: absoluteUrl('/'),
+    image: absoluteUrl(profile.avatar.src),
+    ...(profile.contact.email ? { email: `mailto:${profile.contact.email}` } : {}),
+    ...(sameAs.length ? { sameAs } : {}),
+    ...(knowsAbout.length ? { knowsAbout } : {})
+  };
+}
+
+/**
+ * schema.org VisualArtwork for one catalog entry, credited to the artist
+ * @param artwork - Catalog entry
+ * @param images - Generated variants keyed by source path (see artworkShareImage)
+ */
+export function artworkJsonLd(artwork: Artwork, images = new Map<string, ResponsiveImage>()): object {
+  const image = absoluteUrl(artworkShareImage(artwork, images).url);
+  return {
+    '@type': 'VisualArtwork',
+    '@id': absoluteUrl(`${artworkPath(artwork)}#artwork`),
+    url: absoluteUrl(artworkPath(artwork)),
+    name: artwork.title,
+    description: artwork.description,
+    image,
+    thumbnailUrl: artwork.sources.thumbnail ? absoluteUrl(artwork.sources.thumbnail) : image,
+    dateCreated: artwork.createdAt,
+    artform: 'Digital illustration',
+    artMedium: 'Digital',
+    keywords: artwork.tags.join(', '),
+    creator: { '@id': absoluteUrl('/#person') }
+  };
+}
+
+const JSON_LD_ID = 'structured-data';
+
+/**
+ * Metadata service
+ * Keeps the document head (title, description, canonical link, Open Graph/Twitter
+ * card tags and JSON-LD) in step with the current view
+ * Runs during prerendering too, so every static page ships its own share card
+ */
+@Injectable({ providedIn: 'root' })
+export class MetadataService {
+  private document = inject(DOCUMENT);
+  private title = inject(Title);
+  private meta = inject(Meta);
+
+  /**
+   * Replace the head metadata for the current view
+   * @param page - Metadata to apply; omitted optional fields are removed rather than left stale
+   */
+  setPage(page: PageMetadata): void {
+    const title = page.title === SITE_NAME ? SITE_NAME : `${page.title} | ${SITE_NAME}`;
+    const url = absoluteUrl(page.path);
+    const image = page.image ?? { url: DEFAULT_SHARE_IMAGE, alt: `${SITE_NAME} - illustration portfolio` };
+
+    this.title.setTitle(title);
+    this.setCanonical(url);
+
+    this.setTag('name', 'description', page.description);
+    this.setTag('property', 'og:site_name', SITE_NAME);
+    this.setTag('property', 'og:type', page.type ?? 'website');
+    this.setTag('property', 'og:title', title);
+    this.setTag('property', 'og:description', page.description);
+    this.setTag('property', 'og:url', url);
+    this.setTag('property', 'og:image', absoluteUrl(image.url));
+    this.setTag('property', 'og:image:alt', image.alt);
+    this.setTag('property', 'og:image:width', image.width?.toString());
+    this.setTag('property', 'og:image:height', image.height?.toString());
+    this.setTag('name', 'twitter:card', 'summary_large_image');
+    this.setTag('name', 'twitter:title', title);
+    this.setTag('name', 'twitter:description', page.description);
+    this.setTag('name', 'twitter:image', absoluteUrl(image.url));
+    this.setTag('name', 'twitter:image:alt', image.alt);
+
+    this.setStructuredData(page.structuredData ?? []);
+  }
+
+  /**
+   * Metadata for the home page: the artist plus every artwork in the gallery
+   * @param profile - Artist profile
+   * @param artworks - Catalog artworks (may be empty while loading)
+   * @param images - Generated variants keyed by source path (may be empty while loading)
+   */
+  setHome(profile: Profile, artworks: Artwork[], images = new Map<string, ResponsiveImage>()): void {
+    this.setPage({
+      title: `${profile.name} - ${profile.jobTitle}`,
+      description: profile.summary,
+      path: '/',
+      structuredData: [personJsonLd(profile), ...artworks.map(artwork => artworkJsonLd(artwork, images))]
+    });
+  }
+
+  /**
+   * Metadata for an artwork's deep link, using the artwork itself as the share card
+   * @param profile - Artist profile, credited as creator
+   * @param artwork - Artwork shown in the modal
+   * @param images - Generated variants keyed by source path (may be empty while loading)
+   */
+  setArtwork(profile: Profile, artwork: Artwork, images = new Map<string, ResponsiveImage>()): void {
+    this.setPage({
+      title: artwork.title,
+      description: artwork.description,
+      path: artworkPath(artwork),
+      type: 'article',
+      image: { ...artworkShareImage(artwork, images), alt: artwork.alt },
+      structuredData: [artworkJsonLd(artwork, images), personJsonLd(profile)]
+    });
+  }
+
+  private setTag(attribute: 'name' | 'property', key: string, content: string | undefined): void {
+    const selector = `${attribute}="${key}"`;
+    if (content === undefined) {
+      this.meta.removeTag(selector);
+    } else {
+      this.meta.updateTag({ [attribute]: key, content }, selector);
+    }
+  }
+
+  private setCanonical(url: string): void {
+    let link = this.document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    if (!link) {
+      link = this.document.createElement('link');
+      link.setAttribute('rel', 'canonical');
+      this.document.head.appendChild(link);
+    }
+    link.setAttribute('href', url);
+  }
+
+  private setStructuredData(items: object[]): void {
+    let script = this.document.getElementById(JSON_LD_ID);
+    if (!items.length) {
+      script?.remove();
+      return;
+    }
+    if (!script) {
+      script = this.document.createElement('script');
+      script.id = JSON_LD_ID;
+      script.setAttribute('type', 'application/ld+json');
+      this.document.head.appendChild(script);
+    }
+    // escape "<" so descriptions can never close the script element early
+    const json = JSON.stringify({ '@context': 'https://schema.org', '@graph': items });
+    script.textContent = json.replace(/</g, '\\u003c');
+  }
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  MOTION_STORAGE_KEY, MotionPreferencesService, REDUCED_MOTION_CLASS
+} from './motion-preferences.service';
+
+describe('MotionPreferencesService', () => {
+  let systemReduced: boolean;
+  let changeListener: ((event: MediaQueryListEvent) => void) | null;
+
+  function createService(): MotionPreferencesService {
+    return TestBed.inject(MotionPreferencesService);
+  }
+
+  beforeEach(() => {
+    systemReduced = false;
+    changeListener = null;
+    localStorage.removeItem(MOTION_STORAGE_KEY);
+    spyOn(window, 'matchMedia').and.callFake(query => ({
+      matches: systemReduced,
+      media: query,
+      addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => changeListener = listener
+    }) as unknown as MediaQueryList);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(MOTION_STORAGE_KEY);
+    document.documentElement.classList.remove(REDUCED_MOTION_CLASS);
+  });
+
+  it('should follow the OS setting by default', () => {
+    systemReduced = true;
+    const service = createService();
+    expect(service.motionPreference()).toBe('system');
+    expect(service.reducedMotion()).toBeTrue();
+
+    changeListener?.({ matches: false } as MediaQueryListEvent);
+    expect(service.reducedMotion()).toBeFalse();
+  });
+
+  it('should let the visitor override and persist the OS setting', () => {
+    const service = createService();
+    service.toggle();
+    expect(service.reducedMotion()).toBeTrue();
+    expect(localStorage.getItem(MOTION_STORAGE_KEY)).toBe('reduce');
+
+    service.setPreference('system');
+    expect(service.reducedMotion()).toBeFalse();
+    expect(localStorage.getItem(MOTION_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should restore a stored choice', () => {
+    systemReduced = true;
+    localStorage.setItem(MOTION_STORAGE_KEY, 'full');
+    expect(createService().reducedMotion()).toBeFalse();
+  });
+
+  it('should mark the document while motion is reduced', () => {
+    const service = createService();
+    service.setPreference('reduce');
+    TestBed.flushEffects();
+    expect(document.documentElement.classList).toContain(REDUCED_MOTION_CLASS);
+
+    service.setPreference('full');
+    TestBed.flushEffects();
+    expect(document.documentElement.classList).not.toContain(REDUCED_MOTION_CLASS);
+  });
+
+  it('should step particle quality down until particles are off', () => {
+    const service = createService();
+    expect(service.particlesEnabled()).toBeTrue();
+
+    service.degradeParticles();
+    expect(service.particleQuality()).toBe('reduced');
+    expect(service.particlesEnabled()).toBeTrue();
+
+    service.degradeParticles();
+    expect(service.particleQuality()).toBe('off');
+    expect(service.particlesEnabled()).toBeFalse();
+  });
+
+  it('should disable particles when motion is reduced', () => {
+    const service = createService();
+    service.setPreference('reduce');
+    expect(service.particlesEnabled()).toBeFalse();
+  });
+});
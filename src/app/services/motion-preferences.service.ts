@@ -0,0 +1,116 @@
+import { Injectable, PLATFORM_ID, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { DOWNGRADE, ParticleQuality } from '../particles/frame-monitor';
+
+/**
+ * Visitor's motion choice; 'system' follows the OS prefers-reduced-motion setting
+ */
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+/**
+ * localStorage key for the visitor's choice
+ */
+export const MOTION_STORAGE_KEY = 'sebbyashan.motion';
+
+/**
+ * Class set on <html> while motion is reduced, for styles that can't use the media query
+ */
+export const REDUCED_MOTION_CLASS = 'reduce-motion';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Motion preferences service
+ * Combines the OS reduced-motion setting with a persisted visitor toggle, and tracks
+ * how much particle work this device can afford for the rest of the session
+ */
+@Injectable({ providedIn: 'root' })
+export class MotionPreferencesService {
+  private document = inject(DOCUMENT);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private systemReduced = signal(false);
+  private preference = signal<MotionPreference>('system');
+  private quality = signal<ParticleQuality>('full');
+
+  /** Visitor's stored choice */
+  readonly motionPreference = this.preference.asReadonly();
+
+  /** True when animations, particles and auto-play should stay still */
+  readonly reducedMotion = computed(() =>
+    this.preference() === 'system' ? this.systemReduced() : this.preference() === 'reduce'
+  );
+
+  /** Behavior for scripted scrolling; instant while motion is reduced */
+  readonly scrollBehavior = computed<ScrollBehavior>(() => (this.reducedMotion() ? 'auto' : 'smooth'));
+
+  /** Particle quality measured on this device; only ever steps down */
+  readonly particleQuality = this.quality.asReadonly();
+
+  /** True when the particle canvas should render at all */
+  readonly particlesEnabled = computed(() => !this.reducedMotion() && this.quality() !== 'off');
+
+  constructor() {
+    if (!this.isBrowser) return;
+
+    const query = this.document.defaultView?.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (query) {
+      this.systemReduced.set(query.matches);
+      query.addEventListener('change', event => this.systemReduced.set(event.matches));
+    }
+
+    const stored = this.readStorage();
+    if (stored === 'reduce' || stored === 'full') {
+      this.preference.set(stored);
+    }
+
+    effect(() => {
+      this.document.documentElement.classList.toggle(REDUCED_MOTION_CLASS, this.reducedMotion());
+    });
+  }
+
+  /**
+   * Store the visitor's choice
+   * @param preference - 'system' clears the override
+   */
+  setPreference(preference: MotionPreference): void {
+    this.preference.set(preference);
+    this.writeStorage(preference === 'system' ? null : preference);
+  }
+
+  /**
+   * Flip between reduced and full motion, overriding the OS setting
+   */
+  toggle(): void {
+    this.setPreference(this.reducedMotion() ? 'full' : 'reduce');
+  }
+
+  /**
+   * Step particle quality down after the canvas ran too slowly
+   */
+  degradeParticles(): void {
+    this.quality.update(quality => DOWNGRADE[quality]);
+  }
+
+  private readStorage(): string | null {
+    try {
+      return this.document.defaultView?.localStorage.getItem(MOTION_STORAGE_KEY) ?? null;
+    } catch {
+      // storage can be disabled (private mode, blocked cookies); fall back to the OS setting
+      return null;
+    }
+  }
+
+  private writeStorage(value: string | null): void {
+    try {
+      const storage = this.document.defaultView?.localStorage;
+      if (value === null) {
+        storage?.removeItem(MOTION_STORAGE_KEY);
+      } else {
+        storage?.setItem(MOTION_STORAGE_KEY, value);
+      }
+    } catch {
+      // not persisting is fine; the choice still applies for this visit
+    }
+  }
+}
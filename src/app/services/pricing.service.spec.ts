@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+import { PricingService, estimateQuote } from './pricing.service';
+import { ServiceOffering } from '../models/service.model';
+
+const stickers: ServiceOffering = {
+  id: 'stickers',
+  title: 'Stickers',
+  description: '',
+  image: '',
+  alt: '',
+  packages: [{ id: 'single', label: 'Single sticker', price: { min: 10, max: 20 } }],
+  addOns: [
+    { id: 'animated', label: 'Animated', pricing: { kind: 'flat', price: { min: 5, max: 10 }, perUnit: true } },
+    { id: 'source', label: 'Source files', pricing: { kind: 'flat', price: { min: 3, max: 3 }, perUnit: false } },
+    { id: 'rush', label: 'Rush', pricing: { kind: 'percent', percent: 50 } }
+  ]
+};
+
+describe('estimateQuote', () => {
+  it('should scale the package price by quantity', () => {
+    expect(estimateQuote(stickers, 'single', 3, [])).toEqual({ min: 30, max: 60 });
+  });
+
+  it('should apply per-unit, one-off and percentage add-ons', () => {
+    // (2 * 10 + 2 * 5 + 3) * 1.5 and (2 * 20 + 2 * 10 + 3) * 1.5
+    expect(estimateQuote(stickers, 'single', 2, ['animated', 'source', 'rush'])).toEqual({ min: 49.5, max: 94.5 });
+  });
+
+  it('should return null for an unknown package', () => {
+    expect(estimateQuote(stickers, 'mystery', 1, [])).toBeNull();
+  });
+});
+
+describe('PricingService', () => {
+  let service: PricingService;
+
+  beforeEach(() => {
+    service = TestBed.inject(PricingService);
+  });
+
+  it('should format ranges in the requested currency and locale', () => {
+    expect(service.formatRange({ min: 10, max: 20 }, 'USD', 'en-US')).toBe('$10 – $20');
+    expect(service.formatRange({ min: 100, max: 100 }, 'EUR', 'de-DE')).toBe('92\u00a0€');
+  });
+});
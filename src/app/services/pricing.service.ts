@@ -0,0 +1,94 @@
+import { Injectable, inject } from '@angular/core';
+import { CurrencyCode, PriceRange } from '../models/pricing.model';
+import { ServiceOffering } from '../models/service.model';
+import { LocaleService } from './locale.service';
+
+/**
+ * Currency all prices in the services data are written in
+ */
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+/**
+ * Approximate conversion rates from the base currency
+ * Estimates only; update alongside price changes in data/services.ts
+ */
+export const EXCHANGE_RATES: Record<CurrencyCode, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+  AUD: 1.52
+};
+
+/**
+ * Estimate the price range of an order in the base currency
+ * Package price and per-unit flat add-ons scale with quantity, other flat add-ons are
+ * charged once, and percentage add-ons are summed and applied to the resulting subtotal
+ * @param service - Service being ordered
+ * @param packageId - Selected package id
+ * @param quantity - Number of units
+ * @param addOnIds - Selected add-on ids; unknown ids are ignored
+ * @returns The estimated range, or null if the package doesn't exist
+ */
+export function estimateQuote(
+  service: ServiceOffering,
+  packageId: string,
+  quantity: number,
+  addOnIds: string[]
+): PriceRange | null {
+  const pkg = service.packages.find(p => p.id === packageId);
+  if (!pkg) return null;
+
+  const units = Math.max(1, Math.floor(quantity));
+  let min = pkg.price.min * units;
+  let max = pkg.price.max * units;
+  let percent = 0;
+
+  for (const addOn of service.addOns.filter(a => addOnIds.includes(a.id))) {
+    if (addOn.pricing.kind === 'percent') {
+      percent += addOn.pricing.percent;
+    } else {
+      const multiplier = addOn.pricing.perUnit ? units : 1;
+      min += addOn.pricing.price.min * multiplier;
+      max += addOn.pricing.price.max * multiplier;
+    }
+  }
+
+  const factor = 1 + percent / 100;
+  return { min: min * factor, max: max * factor };
+}
+
+/**
+ * Pricing service
+ * Converts base-currency price ranges and formats them for the site language
+ */
+@Injectable({ providedIn: 'root' })
+export class PricingService {
+  private locale = inject(LocaleService);
+
+  readonly currencies = Object.keys(EXCHANGE_RATES) as CurrencyCode[];
+
+  /**
+   * Convert a base-currency range, rounded to whole units
+   * @param range - Range in the base currency
+   * @param currency - Target currency
+   */
+  convert(range: PriceRange, currency: CurrencyCode): PriceRange {
+    const rate = EXCHANGE_RATES[currency];
+    return { min: Math.round(range.min * rate), max: Math.round(range.max * rate) };
+  }
+
+  /**
+   * Format a base-currency range for display, e.g. "€55 – €92"
+   * @param range - Range in the base currency
+   * @param currency - Currency to show it in
+   * @param locale - BCP 47 locale; defaults to the site language
+   */
+  formatRange(range: PriceRange, currency: CurrencyCode, locale: string = this.locale.intlLocale()): string {
+    const converted = this.convert(range, currency);
+    const format = new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 0 });
+    return converted.min === converted.max
+      ? format.format(converted.min)
+      : `${format.format(converted.min)} – ${format.format(converted.max)}`;
+  }
+}
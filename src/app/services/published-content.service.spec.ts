@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { SERVICES } from '../data/services';
+import { CATALOG_URL } from './catalog';
+import { CONTENT_BUNDLE_VERSION } from './content-bundle';
+import { PUBLISHED_CONTENT_URL, PublishedContentService } from './published-content.service';
+
+const validEntry = {
+  id: 'city-rain-walk',
+  title: 'City Rain Walk',
+  alt: 'Background design 2',
+  description: 'An Adventure into the imagination while walking in the city',
+  tags: ['backgrounds'],
+  createdAt: '2025-05-02',
+  dimensions: { width: 5000, height: 3000 },
+  sources: { full: 'https://i.imgur.com/5IwYmG3.jpeg' }
+};
+
+const CONTENT_URL = 'http://localhost:3000/api/content';
+
+function setup(contentUrl: string): { service: PublishedContentService; http: HttpTestingController } {
+  TestBed.configureTestingModule({
+    providers: [provideHttpClient(), provideHttpClientTesting(), { provide: PUBLISHED_CONTENT_URL, useValue: contentUrl }]
+  });
+  return { service: TestBed.inject(PublishedContentService), http: TestBed.inject(HttpTestingController) };
+}
+
+describe('PublishedContentService', () => {
+  afterEach(() => TestBed.inject(HttpTestingController).verify());
+
+  describe('with the static catalog', () => {
+    it('should load the catalog once for all subscribers', () => {
+      const { service, http } = setup('');
+      const results: number[] = [];
+      service.artworks$.subscribe(artworks => results.push(artworks.length));
+      service.artworks$.subscribe(artworks => results.push(artworks.length));
+
+      http.expectOne(CATALOG_URL).flush({ version: 1, artworks: [validEntry] });
+
+      expect(results).toEqual([1, 1]);
+    });
+
+    it('should leave hidden artworks and services out', () => {
+      const { service, http } = setup('');
+      let ids: string[] = [];
+      let services = 0;
+      service.content$.subscribe(content => {
+        ids = content.artworks.map(artwork => artwork.id);
+        services = content.services.length;
+      });
+
+      http.expectOne(CATALOG_URL).flush({
+        version: 1,
+        artworks: [validEntry, { ...validEntry, id: 'draft', hidden: true }]
+      });
+
+      expect(ids).toEqual(['city-rain-walk']);
+      expect(services).toBe(SERVICES.filter(offering => !offering.hidden).length);
+    });
+  });
+
+  describe('with the content API', () => {
+    it('should show what the admin panel published, without hidden entries', () => {
+      const { service, http } = setup(CONTENT_URL);
+      let artworkIds: string[] = [];
+      let serviceIds: string[] = [];
+      service.content$.subscribe(content => {
+        artworkIds = content.artworks.map(artwork => artwork.id);
+        serviceIds = content.services.map(offering => offering.id);
+      });
+
+      http.expectOne(CONTENT_URL).flush({
+        version: CONTENT_BUNDLE_VERSION,
+        artworks: [{ ...validEntry, id: 'draft', hidden: true }, validEntry],
+        services: [SERVICES[1], { ...SERVICES[0], hidden: true }]
+      });
+
+      expect(artworkIds).toEqual(['city-rain-walk']);
+      expect(serviceIds).toEqual([SERVICES[1].id]);
+    });
+
+    it('should load the content again on refresh', () => {
+      const { service, http } = setup(CONTENT_URL);
+      const titles: string[] = [];
+      service.artworks$.subscribe(artworks => titles.push(artworks[0].title));
+
+      http.expectOne(CONTENT_URL).flush({ version: CONTENT_BUNDLE_VERSION, artworks: [validEntry], services: [] });
+      service.refresh();
+      http.expectOne(CONTENT_URL).flush({
+        version: CONTENT_BUNDLE_VERSION,
+        artworks: [{ ...validEntry, title: 'Renamed' }],
+        services: []
+      });
+
+      expect(titles).toEqual(['City Rain Walk', 'Renamed']);
+    });
+  });
+});
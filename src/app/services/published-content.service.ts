@@ -0,0 +1,73 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, map, shareReplay, switchMap } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { Artwork } from '../models/artwork.model';
+import { ServiceOffering } from '../models/service.model';
+import { SERVICES } from '../data/services';
+import { CATALOG_URL, parseCatalog } from './catalog';
+import { parseContentBundle } from './content-bundle';
+
+/**
+ * Where the public site reads its artworks and services (see environment.contentUrl)
+ * Empty means the static public/catalog.json and the built-in SERVICES
+ */
+export const PUBLISHED_CONTENT_URL = new InjectionToken<string>('PUBLISHED_CONTENT_URL', {
+  providedIn: 'root',
+  factory: () => environment.contentUrl
+});
+
+/**
+ * Everything the public site shows, in display order
+ */
+export interface PublishedContent {
+  artworks: Artwork[];
+  services: ServiceOffering[];
+}
+
+/**
+ * Published content service
+ * Loads the artworks and services the admin panel manages, either from the API's
+ * GET /content or from the static files shipped with the build, and validates them
+ * The request is made once and shared by every subscriber until refresh() is called
+ */
+@Injectable({ providedIn: 'root' })
+export class PublishedContentService {
+  private http = inject(HttpClient);
+  private contentUrl = inject(PUBLISHED_CONTENT_URL);
+  private refreshes = new BehaviorSubject<void>(undefined);
+
+  /**
+   * Published artworks and services; hidden entries are left out
+   * Errors with ContentValidationError (or CatalogValidationError for the static catalog) if the content is malformed
+   */
+  readonly content$: Observable<PublishedContent> = this.refreshes.pipe(
+    switchMap(() => this.fetch()),
+    map(content => ({
+      artworks: content.artworks.filter(artwork => !artwork.hidden),
+      services: content.services.filter(service => !service.hidden)
+    })),
+    shareReplay({ bufferSize: 1, refCount: false })
+  );
+
+  /**
+   * Published artworks in gallery order
+   */
+  readonly artworks$: Observable<Artwork[]> = this.content$.pipe(map(content => content.artworks));
+
+  /**
+   * Load the content again, e.g. after the admin panel saved a change
+   */
+  refresh(): void {
+    this.refreshes.next();
+  }
+
+  private fetch(): Observable<PublishedContent> {
+    if (this.contentUrl) {
+      return this.http.get<unknown>(this.contentUrl).pipe(map(parseContentBundle));
+    }
+    return this.http.get<unknown>(CATALOG_URL).pipe(
+      map(raw => ({ artworks: parseCatalog(raw), services: SERVICES }))
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ImageManifestEntry, ResponsiveImage } from '../models/responsive-image.model';
+import {
+  IMAGE_MANIFEST_URL, ResponsiveImageService, parseImageManifest, responsiveImageLoader, variantUrl
+} from './responsive-image.service';
+
+const entry: ImageManifestEntry = {
+  width: 1626,
+  height: 2890,
+  widths: [320, 640, 1626],
+  formats: ['avif', 'webp'],
+  placeholder: 'data:image/webp;base64,AAAA'
+};
+
+describe('responsiveImageLoader', () => {
+  it('should map srcset widths to WebP variants', () => {
+    expect(responsiveImageLoader({ src: 'Image/Anya.jpg', width: 640 })).toBe('responsive/Image/Anya.jpg/640.webp');
+  });
+
+  it('should use loaderParams.width for the plain src', () => {
+    expect(responsiveImageLoader({ src: 'Image/Anya.jpg', loaderParams: { width: 1626 } }))
+      .toBe(variantUrl('Image/Anya.jpg', 1626, 'webp'));
+  });
+
+  it('should leave sources without a width untouched', () => {
+    expect(responsiveImageLoader({ src: 'Image/Anya.jpg' })).toBe('Image/Anya.jpg');
+  });
+});
+
+describe('parseImageManifest', () => {
+  it('should build srcsets for every usable entry', () => {
+    const image = parseImageManifest({ version: 1, images: { 'Image/Anya.jpg': entry } }).get('Image/Anya.jpg')!;
+
+    expect(image.ngSrcset).toBe('320w, 640w, 1626w');
+    expect(image.avifSrcset).toBe(
+      'responsive/Image/Anya.jpg/320.avif 320w, responsive/Image/Anya.jpg/640.avif 640w, responsive/Image/Anya.jpg/1626.avif 1626w'
+    );
+    expect(image.smallestWidth).toBe(320);
+    expect(image.largestWidth).toBe(1626);
+  });
+
+  it('should drop entries missing a format or widths', () => {
+    const images = parseImageManifest({
+      version: 1,
+      images: {
+        'Image/a.jpg': { ...entry, formats: ['webp'] },
+        'Image/b.jpg': { ...entry, widths: [] },
+        'Image/c.jpg': entry
+      }
+    });
+    expect([...images.keys()]).toEqual(['Image/c.jpg']);
+  });
+
+  it('should reject an unsupported version', () => {
+    expect(() => parseImageManifest({ version: 2, images: {} })).toThrowError(/Invalid image manifest/);
+  });
+});
+
+describe('ResponsiveImageService', () => {
+  let service: ResponsiveImageService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(ResponsiveImageService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should fall back to an empty map when the manifest is missing', () => {
+    let images: Map<string, ResponsiveImage> | undefined;
+    spyOn(console, 'warn');
+    service.images$.subscribe(result => images = result);
+
+    http.expectOne(IMAGE_MANIFEST_URL).flush('Not found', { status: 404, statusText: 'Not Found' });
+
+    expect(images?.size).toBe(0);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { ImageLoaderConfig } from '@angular/common';
+import { Observable, catchError, map, of, shareReplay } from 'rxjs';
+import {
+  ImageFormat, ImageManifest, ImageManifestEntry, ResponsiveImage
+} from '../models/responsive-image.model';
+
+/**
+ * Manifest schema version this build understands
+ * Bump together with MANIFEST_VERSION in scripts/generate-responsive-images.mjs
+ */
+export const IMAGE_MANIFEST_VERSION = 1;
+
+/**
+ * Folder (relative to the app base href) the image pipeline writes to
+ */
+export const RESPONSIVE_IMAGE_DIR = 'responsive';
+
+/**
+ * Location of the generated image manifest
+ */
+export const IMAGE_MANIFEST_URL = `${RESPONSIVE_IMAGE_DIR}/manifest.json`;
+
+/**
+ * URL of one generated variant
+ * Must match the output layout of scripts/generate-responsive-images.mjs
+ * @param src - Source path relative to public/ (e.g. "Image/Anya.jpg")
+ * @param width - Variant width in pixels
+ * @param format - Encoded format
+ */
+export function variantUrl(src: string, width: number, format: ImageFormat): string {
+  return `${RESPONSIVE_IMAGE_DIR}/${src}/${width}.${format}`;
+}
+
+/**
+ * NgOptimizedImage loader for pipeline images (registered as IMAGE_LOADER in app.config.ts)
+ * srcset entries map to WebP variants; the plain src uses loaderParams.width,
+ * so thumbnails can fall back to the smallest variant and the modal to its preview (see modalVariantWidth)
+ * Sources without a width are returned unchanged
+ */
+export function responsiveImageLoader(config: ImageLoaderConfig): string {
+  const width = config.width ?? config.loaderParams?.['width'];
+  return typeof width === 'number' ? variantUrl(config.src, width, 'webp') : config.src;
+}
+
+/**
+ * Precompute the srcset strings for one manifest entry
+ * @param src - Source path the entry is keyed by
+ * @param entry - Manifest entry
+ */
+export function toResponsiveImage(src: string, entry: ImageManifestEntry): ResponsiveImage {
+  return {
+    width: entry.width,
+    height: entry.height,
+    ngSrcset: entry.widths.map(width => `${width}w`).join(', '),
+    avifSrcset: entry.widths.map(width => `${variantUrl(src, width, 'avif')} ${width}w`).join(', '),
+    widths: entry.widths,
+    smallestWidth: entry.widths[0],
+    largestWidth: entry.widths[entry.widths.length - 1],
+    placeholder: entry.placeholder
+  };
+}
+
+/**
+ * Validate the raw manifest and index it by source path
+ * Entries without both AVIF and WebP variants are dropped, so those images keep their plain <img>
+ * @param raw - Parsed manifest JSON
+ * @throws Error when the file is not a manifest this build understands
+ */
+export function parseImageManifest(raw: unknown): Map<string, ResponsiveImage> {
+  const manifest = raw as Partial<ImageManifest> | null;
+  if (!manifest || manifest.version !== IMAGE_MANIFEST_VERSION || typeof manifest.images !== 'object' || !manifest.images) {
+    throw new Error(`Invalid image manifest: expected version ${IMAGE_MANIFEST_VERSION} with an "images" object`);
+  }
+
+  const images = new Map<string, ResponsiveImage>();
+  for (const [src, entry] of Object.entries(manifest.images)) {
+    const usable = entry?.width > 0 && entry.height > 0
+      && Array.isArray(entry.widths) && entry.widths.length > 0
+      && entry.formats?.includes('avif') && entry.formats.includes('webp')
+      && typeof entry.placeholder === 'string';
+    if (usable) {
+      images.set(src, toResponsiveImage(src, entry));
+    }
+  }
+  return images;
+}
+
+/**
+ * Responsive image service
+ * Loads the manifest written by the build-time image pipeline
+ * A missing or broken manifest (e.g. "ng serve" without "npm run images") only logs a warning;
+ * images are then shown from their original files
+ */
+@Injectable({ providedIn: 'root' })
+export class ResponsiveImageService {
+  private http = inject(HttpClient);
+
+  /**
+   * Generated images keyed by source path, fetched once and shared
+   */
+  readonly images$: Observable<Map<string, ResponsiveImage>> = this.http.get<unknown>(IMAGE_MANIFEST_URL).pipe(
+    map(parseImageManifest),
+    catchError(err => {
+      console.warn('Responsive images unavailable, using original files:', err);
+      return of(new Map<string, ResponsiveImage>());
+    }),
+    shareReplay({ bufferSize: 1, refCount: false })
+  );
+}
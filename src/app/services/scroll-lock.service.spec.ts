@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+import { ScrollLockService } from './scroll-lock.service';
+
+describe('ScrollLockService', () => {
+  let service: ScrollLockService;
+
+  beforeEach(() => {
+    document.body.style.overflow = 'scroll';
+    service = TestBed.inject(ScrollLockService);
+  });
+
+  afterEach(() => {
+    document.body.style.overflow = '';
+  });
+
+  it('should restore the original overflow value', () => {
+    service.lock();
+    expect(document.body.style.overflow).toBe('hidden');
+
+    service.unlock();
+    expect(document.body.style.overflow).toBe('scroll');
+  });
+
+  it('should stay locked until every lock is released', () => {
+    service.lock();
+    service.lock();
+    service.unlock();
+    expect(service.isLocked).toBeTrue();
+    expect(document.body.style.overflow).toBe('hidden');
+
+    service.unlock();
+    expect(service.isLocked).toBeFalse();
+    expect(document.body.style.overflow).toBe('scroll');
+  });
+});
@@ -0,0 +1,39 @@
+import { Injectable, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+/**
+ * Scroll lock service
+ * Prevents the page behind overlays from scrolling
+ * Locks are counted so nested overlays don't unlock each other, and the
+ * body's original overflow value is restored instead of being forced to 'auto'
+ */
+@Injectable({ providedIn: 'root' })
+export class ScrollLockService {
+  private document = inject(DOCUMENT);
+  private lockCount = 0;
+  private previousOverflow = '';
+
+  get isLocked(): boolean {
+    return this.lockCount > 0;
+  }
+
+  /**
+   * Lock page scrolling; pair every call with unlock()
+   */
+  lock(): void {
+    if (this.lockCount++ === 0) {
+      this.previousOverflow = this.document.body.style.overflow;
+      this.document.body.style.overflow = 'hidden';
+    }
+  }
+
+  /**
+   * Release one lock; scrolling resumes when the last lock is released
+   */
+  unlock(): void {
+    if (this.lockCount === 0) return;
+    if (--this.lockCount === 0) {
+      this.document.body.style.overflow = this.previousOverflow;
+    }
+  }
+}
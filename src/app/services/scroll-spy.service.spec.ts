@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { ScrollSpyService } from './scroll-spy.service';
+
+describe('ScrollSpyService', () => {
+  let service: ScrollSpyService;
+  let container: HTMLElement;
+  let home: HTMLElement;
+  let gallery: HTMLElement;
+  let initialUrl: string;
+
+  beforeEach(() => {
+    initialUrl = location.href;
+    container = document.createElement('div');
+    container.innerHTML = '<div id="spy-home"></div><section id="spy-gallery"></section>';
+    document.body.appendChild(container);
+    home = container.querySelector('#spy-home')!;
+    gallery = container.querySelector('#spy-gallery')!;
+
+    service = TestBed.inject(ScrollSpyService);
+  });
+
+  afterEach(() => {
+    container.remove();
+    history.replaceState(history.state, '', initialUrl);
+  });
+
+  it('should list sections in document order, whatever order they register in', () => {
+    service.register({ id: 'gallery', labelKey: 'nav.gallery', element: gallery });
+    service.register({ id: 'home', labelKey: 'nav.home', element: home });
+
+    expect(service.sections().map(section => section.id)).toEqual(['home', 'gallery']);
+    expect(service.active()).toBe('home');
+  });
+
+  it('should scroll below the navbar offset and mirror the section in the hash', () => {
+    service.register({ id: 'home', labelKey: 'nav.home', element: home });
+    service.register({ id: 'gallery', labelKey: 'nav.gallery', element: gallery });
+    service.setOffset(80);
+    const scrollTo = spyOn(window, 'scrollTo') as jasmine.Spy;
+
+    service.scrollTo('gallery');
+    const top = gallery.getBoundingClientRect().top + window.scrollY - 80;
+    expect(scrollTo).toHaveBeenCalledWith(jasmine.objectContaining({ top: Math.max(0, top) }));
+    expect(service.active()).toBe('gallery');
+    expect(location.hash).toBe('#gallery');
+
+    service.scrollTo('home');
+    expect(scrollTo).toHaveBeenCalledWith(jasmine.objectContaining({ top: 0 }));
+    expect(location.hash).toBe('');
+  });
+
+  it('should forget unregistered sections', () => {
+    service.register({ id: 'home', labelKey: 'nav.home', element: home });
+    service.register({ id: 'gallery', labelKey: 'nav.gallery', element: gallery });
+    service.unregister('gallery');
+
+    expect(service.sections().map(section => section.id)).toEqual(['home']);
+  });
+});
@@ -0,0 +1,165 @@
+import { Injectable, NgZone, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { MessageKey } from '../i18n/messages.en';
+import { MotionPreferencesService } from './motion-preferences.service';
+
+/**
+ * A page section tracked by the scroll-spy
+ */
+export interface ScrollSpySection {
+  /** URL fragment for the section, e.g. "gallery" for #gallery */
+  id: string;
+  /** Navbar label */
+  labelKey: MessageKey;
+  element: HTMLElement;
+}
+
+/**
+ * Observer margins leaving a thin reading line 40% down the viewport
+ * The section crossing that line is the active one
+ */
+export const SCROLL_SPY_ROOT_MARGIN = '-40% 0px -59% 0px';
+
+/**
+ * Scroll-spy service
+ * Sections register through ScrollSpyDirective; an IntersectionObserver reports which one crosses
+ * the reading line, and the URL hash follows it (the first section clears the hash)
+ * Programmatic scrolling stops below the fixed navbar, whose height the navbar reports via setOffset
+ */
+@Injectable({ providedIn: 'root' })
+export class ScrollSpyService {
+  private document = inject(DOCUMENT);
+  private zone = inject(NgZone);
+  private motionPreferences = inject(MotionPreferencesService);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private registered = signal<ScrollSpySection[]>([]);
+  private activeId = signal<string | null>(null);
+  private intersecting = new Set<string>();
+  private observer: IntersectionObserver | null = null;
+  private offset = 0;
+
+  /** Fragment from the initial URL, scrolled to once its section registers */
+  private pendingFragment = this.isBrowser ? this.document.location.hash.slice(1) || null : null;
+
+  /** Registered sections in document order */
+  readonly sections = computed(() => [...this.registered()].sort((a, b) =>
+    a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  ));
+
+  /** id of the section being read; the first section until the observer reports */
+  readonly active = computed(() => this.activeId() ?? this.sections()[0]?.id ?? null);
+
+  /**
+   * Start tracking a section
+   * @param section - Section to track; its id must be unique on the page
+   */
+  register(section: ScrollSpySection): void {
+    this.registered.update(sections => [...sections.filter(s => s.id !== section.id), section]);
+    if (!this.isBrowser) return;
+
+    this.observer ??= this.createObserver();
+    this.observer?.observe(section.element);
+
+    if (section.id === this.pendingFragment) {
+      this.pendingFragment = null;
+      // wait a frame so the section has its final position
+      requestAnimationFrame(() => this.scrollToElement(section.element, 'auto'));
+    }
+  }
+
+  /**
+   * Stop tracking a section
+   * @param id - id the section registered with
+   */
+  unregister(id: string): void {
+    const section = this.registered().find(s => s.id === id);
+    if (!section) return;
+
+    this.observer?.unobserve(section.element);
+    this.intersecting.delete(id);
+    this.registered.update(sections => sections.filter(s => s !== section));
+    if (this.activeId() === id) {
+      this.activeId.set(null);
+    }
+  }
+
+  /**
+   * Space taken by fixed headers at the top of the viewport
+   * @param offset - Pixels to keep clear above scrolled-to content
+   */
+  setOffset(offset: number): void {
+    this.offset = offset;
+  }
+
+  /**
+   * Scroll a registered section into view and mark it active
+   * The first section scrolls to the very top
+   * @param id - Section id
+   */
+  scrollTo(id: string): void {
+    const sections = this.sections();
+    const section = sections.find(s => s.id === id);
+    if (!section) {
+      console.warn(`No scroll-spy section registered for '${id}'`);
+      return;
+    }
+
+    if (section === sections[0]) {
+      this.document.defaultView?.scrollTo({ top: 0, behavior: this.motionPreferences.scrollBehavior() });
+    } else {
+      this.scrollToElement(section.element);
+    }
+    this.setActive(id);
+  }
+
+  /**
+   * Scroll so an element starts just below the fixed navbar
+   * @param element - Element to bring into view
+   * @param behavior - Defaults to smooth unless motion is reduced
+   */
+  scrollToElement(element: Element, behavior: ScrollBehavior = this.motionPreferences.scrollBehavior()): void {
+    const view = this.document.defaultView;
+    if (!view) return;
+
+    const top = element.getBoundingClientRect().top + view.scrollY - this.offset;
+    view.scrollTo({ top: Math.max(0, top), behavior });
+  }
+
+  private createObserver(): IntersectionObserver | null {
+    if (typeof IntersectionObserver === 'undefined') return null;
+
+    return new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        const section = this.registered().find(s => s.element === entry.target);
+        if (!section) continue;
+        if (entry.isIntersecting) {
+          this.intersecting.add(section.id);
+        } else {
+          this.intersecting.delete(section.id);
+        }
+      }
+
+      // between sections nothing crosses the line; keep the last one active
+      const current = this.sections().find(section => this.intersecting.has(section.id));
+      if (current && current.id !== this.activeId()) {
+        this.zone.run(() => this.setActive(current.id));
+      }
+    }, { rootMargin: SCROLL_SPY_ROOT_MARGIN });
+  }
+
+  /**
+   * Mark a section active and mirror it in the URL hash without adding a history entry
+   */
+  private setActive(id: string): void {
+    this.activeId.set(id);
+    if (!this.isBrowser) return;
+
+    const { location, defaultView } = this.document;
+    const hash = id === this.sections()[0]?.id ? '' : `#${id}`;
+    if (location.hash !== hash) {
+      // keep the router's history state so back/forward still restore correctly
+      defaultView?.history.replaceState(defaultView.history.state, '', `${location.pathname}${location.search}${hash}`);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Testimonial } from '../models/testimonial.model';
+import { TESTIMONIALS } from '../data/testimonials';
+import { SERVICES } from '../data/services';
+import { clientInitials, filterTestimonials, testimonialsForArtwork } from './testimonials';
+
+function testimonial(id: string, serviceId?: string, artworkId?: string): Testimonial {
+  return { id, quote: 'Great!', client: { name: id }, serviceId, artworkId };
+}
+
+describe('testimonials', () => {
+  const list = [testimonial('a', 'stickers', 'anya'), testimonial('b', 'websites'), testimonial('c', 'stickers')];
+
+  it('should filter by service, keeping everything without one', () => {
+    expect(filterTestimonials(list, 'stickers').map(t => t.id)).toEqual(['a', 'c']);
+    expect(filterTestimonials(list, null)).toBe(list);
+  });
+
+  it('should find the testimonials linked to an artwork', () => {
+    expect(testimonialsForArtwork(list, 'anya').map(t => t.id)).toEqual(['a']);
+    expect(testimonialsForArtwork(list, 'tosh-background')).toEqual([]);
+  });
+
+  it('should build initials from the client name', () => {
+    expect(clientInitials('Lantern & Co.')).toBe('LC');
+    expect(clientInitials('MossyMage')).toBe('M');
+    expect(clientInitials('ana maría lópez')).toBe('AM');
+  });
+
+  it('should only reference services that exist', () => {
+    const ids = SERVICES.map(service => service.id);
+    for (const entry of TESTIMONIALS) {
+      if (entry.serviceId) expect(ids).toContain(entry.serviceId);
+    }
+  });
+});
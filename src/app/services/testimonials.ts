@@ -0,0 +1,33 @@
+import { Testimonial } from '../models/testimonial.model';
+
+/**
+ * Testimonials for one service, or all of them
+ * @param testimonials - Testimonials in display order
+ * @param serviceId - Service to keep; null keeps everything
+ */
+export function filterTestimonials(testimonials: Testimonial[], serviceId: string | null): Testimonial[] {
+  return serviceId ? testimonials.filter(testimonial => testimonial.serviceId === serviceId) : testimonials;
+}
+
+/**
+ * Testimonials linked to an artwork, for its modal
+ * @param testimonials - All testimonials
+ * @param artworkId - Catalog slug of the artwork
+ */
+export function testimonialsForArtwork(testimonials: Testimonial[], artworkId: string): Testimonial[] {
+  return testimonials.filter(testimonial => testimonial.artworkId === artworkId);
+}
+
+/**
+ * Up to two initials for a client without an avatar ("Lantern & Co." -> "LC")
+ * @param name - Client name
+ */
+export function clientInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .map(word => word.match(/[\p{L}\p{N}]/u)?.[0] ?? '')
+    .filter(Boolean)
+    .slice(0, 2)
+    .join('')
+    .toUpperCase();
+}
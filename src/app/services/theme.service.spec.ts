@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+import { THEMES } from '../data/themes';
+import {
+  THEME_ATTRIBUTE, THEME_STORAGE_KEY, THEME_STYLE_ID, ThemeService, themeStylesheet
+} from './theme.service';
+
+describe('themeStylesheet', () => {
+  it('should emit one rule per theme, with the first as the :root default', () => {
+    const css = themeStylesheet(THEMES);
+    expect(css.split('\n').length).toBe(THEMES.length);
+    expect(css).toMatch(/^:root, :root\[data-theme="light"\] \{ color-scheme: light; --color-page: #ffffff;/);
+    expect(css).toContain(':root[data-theme="dark"] { color-scheme: dark;');
+  });
+});
+
+describe('ThemeService', () => {
+  let systemDark: boolean;
+  let changeListener: ((event: MediaQueryListEvent) => void) | null;
+
+  function createService(): ThemeService {
+    return TestBed.inject(ThemeService);
+  }
+
+  beforeEach(() => {
+    systemDark = false;
+    changeListener = null;
+    localStorage.removeItem(THEME_STORAGE_KEY);
+    spyOn(window, 'matchMedia').and.callFake(query => ({
+      matches: systemDark,
+      media: query,
+      addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => changeListener = listener
+    }) as unknown as MediaQueryList);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(THEME_STORAGE_KEY);
+    document.documentElement.removeAttribute(THEME_ATTRIBUTE);
+    document.getElementById(THEME_STYLE_ID)?.remove();
+  });
+
+  it('should follow the OS color scheme by default', () => {
+    systemDark = true;
+    const service = createService();
+    expect(service.theme().id).toBe('dark');
+
+    changeListener?.({ matches: false } as MediaQueryListEvent);
+    expect(service.theme().id).toBe('light');
+  });
+
+  it('should persist an explicit choice and clear it for system', () => {
+    const service = createService();
+    service.setPreference('halloween');
+    expect(service.theme().particles.preset).toBe('spooky-ghosts');
+    expect(localStorage.getItem(THEME_STORAGE_KEY)).toBe('halloween');
+
+    service.setPreference('system');
+    expect(localStorage.getItem(THEME_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should ignore an unknown stored theme', () => {
+    localStorage.setItem(THEME_STORAGE_KEY, 'neon');
+    expect(createService().themePreference()).toBe('system');
+  });
+
+  it('should install the stylesheet and mark the document with the active theme', () => {
+    const service = createService();
+    service.setPreference('winter');
+    TestBed.flushEffects();
+
+    expect(document.getElementById(THEME_STYLE_ID)).not.toBeNull();
+    expect(document.documentElement.getAttribute(THEME_ATTRIBUTE)).toBe('winter');
+  });
+});
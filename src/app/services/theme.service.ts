@@ -0,0 +1,127 @@
+import { Injectable, PLATFORM_ID, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { THEMES } from '../data/themes';
+import { ThemeDefinition, ThemeId, ThemePreference } from '../models/theme.model';
+
+/**
+ * localStorage key for the visitor's choice
+ * Also read by the inline script in src/index.html; keep the two in sync
+ */
+export const THEME_STORAGE_KEY = 'sebbyashan.theme';
+
+/**
+ * Attribute on <html> naming the active theme
+ */
+export const THEME_ATTRIBUTE = 'data-theme';
+
+/**
+ * id of the <style> element holding every theme's custom properties
+ */
+export const THEME_STYLE_ID = 'app-themes';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Build the stylesheet for a list of themes
+ * The first theme also applies to a bare :root, so an unknown or missing data-theme falls back to it
+ * @param themes - Themes to emit, default first
+ */
+export function themeStylesheet(themes: ThemeDefinition[]): string {
+  return themes.map((theme, index) => {
+    const selector = `:root[${THEME_ATTRIBUTE}="${theme.id}"]`;
+    const declarations = Object.entries(theme.colors).map(([token, value]) => `--color-${token}: ${value};`);
+    return `${index === 0 ? `:root, ${selector}` : selector} { color-scheme: ${theme.colorScheme}; ${declarations.join(' ')} }`;
+  }).join('\n');
+}
+
+/**
+ * Theme service
+ * Combines the OS color-scheme setting with a persisted visitor choice
+ * Themes are emitted once as a <style> element (so they are part of prerendered pages) and selected by
+ * the data-theme attribute, which the inline script in index.html sets before first paint
+ */
+@Injectable({ providedIn: 'root' })
+export class ThemeService {
+  private document = inject(DOCUMENT);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private systemDark = signal(false);
+  private preference = signal<ThemePreference>('system');
+
+  /** Themes offered in the navbar */
+  readonly themes = THEMES;
+
+  /** Visitor's stored choice */
+  readonly themePreference = this.preference.asReadonly();
+
+  /** Theme in effect after resolving 'system' */
+  readonly theme = computed<ThemeDefinition>(() => {
+    const preference = this.preference();
+    const scheme = this.systemDark() ? 'dark' : 'light';
+    return THEMES.find(theme => preference === 'system' ? theme.colorScheme === scheme : theme.id === preference)
+      ?? THEMES[0];
+  });
+
+  constructor() {
+    this.installStylesheet();
+    if (!this.isBrowser) return;
+
+    const query = this.document.defaultView?.matchMedia?.(DARK_SCHEME_QUERY);
+    if (query) {
+      this.systemDark.set(query.matches);
+      query.addEventListener('change', event => this.systemDark.set(event.matches));
+    }
+
+    const stored = this.readStorage();
+    if (THEMES.some(theme => theme.id === stored)) {
+      this.preference.set(stored as ThemeId);
+    }
+
+    effect(() => {
+      this.document.documentElement.setAttribute(THEME_ATTRIBUTE, this.theme().id);
+    });
+  }
+
+  /**
+   * Store the visitor's choice
+   * @param preference - 'system' clears the override
+   */
+  setPreference(preference: ThemePreference): void {
+    this.preference.set(preference);
+    this.writeStorage(preference === 'system' ? null : preference);
+  }
+
+  /**
+   * Add the theme stylesheet unless the prerendered page already has it
+   */
+  private installStylesheet(): void {
+    if (this.document.getElementById(THEME_STYLE_ID)) return;
+
+    const style = this.document.createElement('style');
+    style.id = THEME_STYLE_ID;
+    style.textContent = themeStylesheet(THEMES);
+    this.document.head.appendChild(style);
+  }
+
+  private readStorage(): string | null {
+    try {
+      return this.document.defaultView?.localStorage.getItem(THEME_STORAGE_KEY) ?? null;
+    } catch {
+      // storage can be disabled (private mode, blocked cookies); fall back to the OS setting
+      return null;
+    }
+  }
+
+  private writeStorage(value: string | null): void {
+    try {
+      const storage = this.document.defaultView?.localStorage;
+      if (value === null) {
+        storage?.removeItem(THEME_STORAGE_KEY);
+      } else {
+        storage?.setItem(THEME_STORAGE_KEY, value);
+      }
+    } catch {
+      // not persisting is fine; the choice still applies for this visit
+    }
+  }
+}
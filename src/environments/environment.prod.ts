@@ -1,4 +1,9 @@
 export const environment = {
   production: true,
-  apiUrl: 'https://your-production-api.com/api' // Your production API URL
-};
\ No newline at end of file
+  apiUrl: 'https://your-production-api.com/api', // Your production API URL
+  siteUrl: 'https://sebbyashan.netlify.app', // Public origin for canonical URLs and share cards (no trailing slash)
+  commissionStatusUrl: 'commission-status.json', // Static file in public/, or a full API URL
+  contentUrl: '', // Artworks and services published through the admin panel (e.g. 'https://your-production-api.com/api/content'); empty to use public/catalog.json and src/app/data/services.ts
+  analyticsUrl: '', // Event collector for AnalyticsService (e.g. 'https://your-production-api.com/api/analytics'); empty to turn analytics off
+  useMockBackend: false
+};
@@ -1,4 +1,9 @@
 export const environment = {
   production: false,
-  apiUrl: 'http://localhost:3000/api' // Your local API URL
-};
\ No newline at end of file
+  apiUrl: 'http://localhost:3000/api', // Your local API URL
+  siteUrl: 'http://localhost:4200', // Public origin for canonical URLs and share cards (no trailing slash)
+  commissionStatusUrl: 'commission-status.json', // Static file in public/, or a full API URL
+  contentUrl: 'http://localhost:3000/api/content', // Artworks and services published through the admin panel; empty to use public/catalog.json and src/app/data/services.ts
+  analyticsUrl: 'http://localhost:3000/api/analytics', // Event collector for AnalyticsService; empty to turn analytics off
+  useMockBackend: true // Answer API calls in-app (see src/app/mock-backend) so the site works offline
+};